@@ -50,6 +50,8 @@ async function globalSetup(config: FullConfig) {
     data.items.forEach((item: any) => {
       localStorage.setItem(`e2e_api_item_${item.fileName}`, item.body)
     })
+    // Serve item data from the captured responses instead of hitting the GitHub API in every test
+    localStorage.setItem('arc_raiders_item_source', 'e2e-cache')
   }, apiData)
   
   // Save the storage state with cached data
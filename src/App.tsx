@@ -1,43 +1,70 @@
-import { useState, useEffect, useCallback, useMemo, DragEvent, MouseEvent, useRef, ChangeEvent } from 'react'
+import { useState, useEffect, useLayoutEffect, useCallback, useMemo, DragEvent, MouseEvent, useRef, ChangeEvent } from 'react'
 import { SpeedInsights } from '@vercel/speed-insights/react'
 import { InventoryPanel } from './components/InventoryPanel'
 import { LoadoutPanel } from './components/LoadoutPanel'
+import { LoadoutLibraryMenu } from './components/LoadoutLibraryMenu'
 import { EquipmentSection } from './components/EquipmentSection'
 import { LootTableModal } from './components/LootTableModal'
+import { StashModal } from './components/StashModal'
+import { UnresolvedItemsNotice } from './components/UnresolvedItemsNotice'
+import { LoadoutValidationPanel } from './components/LoadoutValidationPanel'
+import { LoadoutCompareModal } from './components/LoadoutCompareModal'
+import { SectionSortControl } from './components/SectionSortControl'
+import { ItemDetailCard } from './components/ItemDetailCard'
+import { ItemDetailSheet } from './components/ItemDetailSheet'
+import { ItemLookupModal } from './components/ItemLookupModal'
+import { LootChecklist } from './components/LootChecklist'
 import { useDragAndDrop } from './hooks/useDragAndDrop'
+import { useKeyboardEquip } from './hooks/useKeyboardEquip'
+import { useSectionSort } from './hooks/useSectionSort'
+import { useLongPress } from './hooks/useLongPress'
 import { useDeviceDetection } from './hooks/useDeviceDetection'
+import { useStash } from './hooks/useStash'
+import { useHistoryState } from './hooks/useHistoryState'
+import { useLootPlan } from './hooks/useLootPlan'
+import { useSearchIndex } from './hooks/useSearchIndex'
+import { getLootListKey, useLootChecklist } from './hooks/useLootChecklist'
+import { CachedItemData, loadItemCache, saveItemCache } from './utils/itemCache'
+import { normalizeItemFiles } from './utils/itemData'
+import {
+  ItemDataProvider,
+  createLocalFilesProvider,
+  createProviderFromSpec,
+  getItemSourceSpec,
+  ITEM_SOURCE_STORAGE_KEY,
+} from './utils/itemDataProviders'
+import { ItemSourceModal } from './components/ItemSourceModal'
+import { ItemDiagnosticsModal } from './components/ItemDiagnosticsModal'
+import { ItemDiagnostic, validateItemFiles } from './utils/itemValidation'
+import { computeLootRequirements, getStillNeeded, toCraftSteps, toLootItems } from './utils/lootTable'
+import { planRecycling, RecyclePlan } from './utils/recyclePlan'
+import { buildReverseIndex } from './utils/itemLookup'
+import { getUpgradePlans } from './utils/upgradePath'
+import { EXPORT_FORMATS, ExportOptions, exportLootList } from './utils/lootExport'
+import {
+  addLoadout,
+  deleteLoadout,
+  duplicateLoadout,
+  getActiveLoadout,
+  getLoadoutName,
+  loadLoadoutLibrary,
+  LOADOUT_LIBRARY_STORAGE_KEY,
+  mergeStoredLibrary,
+  renameLoadout,
+  saveLoadoutLibrary,
+  setActiveLoadout,
+  updateActiveLoadout,
+} from './utils/loadoutLibrary'
+import { decodeShareCode, encodeShareCode, extractShareCode } from './utils/shareCode'
+import { findBestSlot, getNoSlotReason, getSlotItem, LoadoutAction, loadoutReducer, SlotRef, SlotSection } from './utils/loadoutReducer'
+import { fixAllLoadoutIssues, fixLoadoutIssue, validateLoadout } from './utils/loadoutValidation'
+import { getWeaponAmmo } from './utils/weaponAmmo'
+import { DEFAULT_SLOTS, getEquipRejection, getExtraSlotConfig, getSectionCapacity, SECTION_LABELS } from './utils/slotRules'
+import { findNeighbor } from './utils/spatialNavigation'
+import { SortableSection } from './utils/sectionSort'
+import { buildSearchVocabulary } from './utils/searchQuery'
 import './App.css'
 
-const getLevenshteinDistance = (a: string, b: string) => {
-  if (a.length === 0) return b.length
-  if (b.length === 0) return a.length
-
-  const matrix: number[][] = []
-
-  for (let i = 0; i <= b.length; i++) {
-    matrix[i] = [i]
-  }
-
-  for (let j = 0; j <= a.length; j++) {
-    matrix[0][j] = j
-  }
-
-  for (let i = 1; i <= b.length; i++) {
-    for (let j = 1; j <= a.length; j++) {
-      if (b.charAt(i - 1) === a.charAt(j - 1)) {
-        matrix[i][j] = matrix[i - 1][j - 1]
-      } else {
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j - 1] + 1,
-          Math.min(matrix[i][j - 1] + 1, matrix[i - 1][j] + 1)
-        )
-      }
-    }
-  }
-
-  return matrix[b.length][a.length]
-}
-
 interface Item {
   id: string
   name: string
@@ -56,6 +83,7 @@ interface Item {
   supportedModifications?: string[]
   modifications?: (Item | null)[]
   recyclesInto?: Record<string, number>
+  ammoType?: string
 }
 
 interface LoadoutState {
@@ -92,33 +120,29 @@ interface LootItem {
   name: string
   icon: string
   isImage: boolean
+  owned?: number
 }
 
 const emptyImg = new Image()
 emptyImg.src = 'data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7'
 
-const DEFAULT_SLOTS = {
-  backpack: 16,
-  quickUse: 3,
-  safePocket: 0,
-}
-const EXTRA_SLOT_TYPES = [
-  'trinket',
-  'grenade',
-  'utility',
-  'integrated_binoculars',
-  'integrated_shield_recharger',
-  'healing',
-]
-
-const calculateExtraSlotsCount = (augment: Item | null) => {
-  let count = 0
-  if (augment?.slots) {
-    for (const key of EXTRA_SLOT_TYPES) {
-      count += augment.slots[key] || 0
-    }
-  }
-  return count
+const createEmptyLoadout = (): LoadoutState => ({
+  title: 'LOADOUT',
+  augment: null,
+  shield: null,
+  weapons: [null, null],
+  backpack: Array(DEFAULT_SLOTS.backpack).fill(null),
+  quickUse: Array(DEFAULT_SLOTS.quickUse).fill(null),
+  extra: [],
+  safePocket: Array(DEFAULT_SLOTS.safePocket).fill(null),
+})
+
+// Places the hover tooltip next to the pointer, flipped to the other side near the viewport edges
+const positionTooltip = (el: HTMLElement, x: number, y: number) => {
+  const left = x + 15 + el.offsetWidth > window.innerWidth ? x - 15 - el.offsetWidth : x + 15
+  const top = y + 15 + el.offsetHeight > window.innerHeight ? y - 15 - el.offsetHeight : y + 15
+  el.style.left = `${Math.max(0, left)}px`
+  el.style.top = `${Math.max(0, top)}px`
 }
 
 function App() {
@@ -130,19 +154,43 @@ function App() {
   const [showRecycleList, setShowRecycleList] = useState(false)
   const [isInventoryLoaded, setIsInventoryLoaded] = useState(false)
   const [showLootTable, setShowLootTable] = useState(false)
+  const [showStash, setShowStash] = useState(false)
+  const [showCompare, setShowCompare] = useState(false)
+  const [focusedSlotKey, setFocusedSlotKey] = useState('augment|-1')
+  const [equipNotice, setEquipNotice] = useState<string | null>(null)
+  const { stash, setStashCount, clearStash } = useStash()
+  const { raids, keptSections, currentTiers, setRaids, toggleKeptSection, setCurrentTier } = useLootPlan()
+  const { sortKeys, setSortKey } = useSectionSort()
+  const [breakDownToRaw, setBreakDownToRaw] = useState(() => localStorage.getItem('arc_raiders_loot_breakdown') === 'true')
   const [selectedVariantMap, setSelectedVariantMap] = useState<Record<string, string>>({})
   const [hoveredItem, setHoveredItem] = useState<Item | null>(null)
+  const [inspectedItem, setInspectedItem] = useState<Item | null>(null)
+  const [lookupItemId, setLookupItemId] = useState<string | null>(null)
   const [mobileLootData, setMobileLootData] = useState<LootItem[] | null>(null)
-  const [loadout, setLoadout] = useState<LoadoutState>({
-    title: 'LOADOUT',
-    augment: null,
-    shield: null,
-    weapons: [null, null],
-    backpack: Array(DEFAULT_SLOTS.backpack).fill(null),
-    quickUse: Array(DEFAULT_SLOTS.quickUse).fill(null),
-    extra: [],
-    safePocket: Array(DEFAULT_SLOTS.safePocket).fill(null),
-  })
+  const lootListKey = useMemo(() => (mobileLootData ? getLootListKey(mobileLootData) : null), [mobileLootData])
+  const lootChecklist = useLootChecklist(lootListKey)
+  const [dataFetchedAt, setDataFetchedAt] = useState<number | null>(null)
+  const [isDataStale, setIsDataStale] = useState(false)
+  const [itemDataProvider, setItemDataProvider] = useState<ItemDataProvider>(() => createProviderFromSpec(getItemSourceSpec()))
+  const [showItemSource, setShowItemSource] = useState(false)
+  const [itemDiagnostics, setItemDiagnostics] = useState<ItemDiagnostic[] | null>(null)
+  const [showItemDiagnostics, setShowItemDiagnostics] = useState(false)
+  const {
+    state: loadout,
+    setState: setLoadout,
+    replaceState: replaceLoadout,
+    resetHistory: resetLoadoutHistory,
+    undo: undoLoadout,
+    redo: redoLoadout,
+    canUndo,
+    canRedo,
+  } = useHistoryState<LoadoutState>(createEmptyLoadout)
+  const [loadoutLibrary, setLoadoutLibrary] = useState(() => loadLoadoutLibrary<SerializedLoadout>({}))
+  const [isLoadoutRestored, setIsLoadoutRestored] = useState(false)
+  const [unresolvedItems, setUnresolvedItems] = useState<string[]>([])
+  const [showValidation, setShowValidation] = useState(false)
+  // Augment of the last loaded loadout until the slot resize effect has seen it
+  const loadedAugmentRef = useRef<Item | null | undefined>(undefined)
   const tooltipRef = useRef<HTMLDivElement>(null)
 
   const {
@@ -171,195 +219,79 @@ function App() {
       canEquip(item, slotType, slotIndex, modIndex),
   })
 
-  const extraSlotConfig = useMemo(() => {
-    const augment = loadout.augment
-    const newExtraSlots: { types: string[]; count: number; slotTypes: string[] } = { types: [], count: 0, slotTypes: [] }
-    if (augment?.slots) {
-      for (const key of EXTRA_SLOT_TYPES) {
-        const count = augment.slots[key] || 0
-        if (count > 0) {
-          newExtraSlots.types.push(key.replace(/_/g, ' ').toUpperCase())
-          newExtraSlots.count += count
-          for (let i = 0; i < count; i++) {
-            newExtraSlots.slotTypes.push(key)
-          }
-        }
-      }
+  const extraSlotConfig = useMemo(() => getExtraSlotConfig(loadout.augment), [loadout.augment])
+  const weaponAmmo = useMemo(() => getWeaponAmmo(loadout), [loadout])
+  const loadoutIssues = useMemo(() => (showValidation ? validateLoadout(loadout) : []), [loadout, showValidation])
+
+  const applyItemData = useCallback((data: CachedItemData<Item>) => {
+    setAllItemData(data.items)
+    setIsInventoryLoaded(true)
+    setInventoryItems(data.inventory)
+    setDataFetchedAt(data.fetchedAt)
+  }, [])
+
+  const fetchInventory = useCallback(async (isCurrent: () => boolean) => {
+
+    // Serve the last good dataset immediately, then revalidate from the provider
+    const cached = await loadItemCache<Item>(itemDataProvider.id)
+    if (!isCurrent()) return
+    if (cached) {
+      console.log('[ItemCache] Serving cached item data from', new Date(cached.fetchedAt).toISOString())
+      applyItemData(cached)
     }
-    return newExtraSlots
-  }, [loadout.augment])
-
-  const fetchInventory = useCallback(async () => {
 
     try {
+      const files = await itemDataProvider.fetchItemFiles()
+      const diagnostics = validateItemFiles(files)
+      const { items, inventory } = normalizeItemFiles(files)
+      if (!isCurrent()) return
 
-      const response = await fetch('https://api.github.com/repos/RohitMoni/arc-raiders-data/contents/items')
-
-      const files = await response.json()
-
-      const itemPromises = files
-
-        .filter((file: any) => file.name.endsWith('.json'))
-
-        .map(async (file: any) => {
-
-          const res = await fetch(file.download_url)
-
-          const data = await res.json()
-
-          return { ...data, fileName: file.name }
-
-        })
-
-      const rawItems = await Promise.all(itemPromises)
-
-      const normalizedItems = rawItems.map((item: any) => ({
-
-        ...item,
-
-        id: item.id || item.fileName.replace('.json', ''),
-
-      }))
-
-      const itemMap = new Map(normalizedItems.map((item: any) => [item.id, item]))
-      const resolveRecipe = (item: any) => {
-        const id = item.id
-        const match = id.match(/^(.+)_(i|ii|iii|iv|v)$/)
-        if (!match) return item.recipe
-        const baseName = match[1]
-        const tierStr = match[2]
-        const tiers = ['i', 'ii', 'iii', 'iv', 'v']
-        const targetTier = tiers.indexOf(tierStr) + 1
-        if (!itemMap.has(`${baseName}_i`)) return item.recipe
-        const combinedRecipe: Record<string, number> = {}
-        for (let i = 0; i < targetTier; i++) {
-          const currentTierStr = tiers[i]
-          const currentId = `${baseName}_${currentTierStr}`
-          const currentItem = itemMap.get(currentId)
-          if (!currentItem) continue
-          const costs = i === 0 ? currentItem.recipe : currentItem.upgradeCost
-          if (costs) {
-            Object.entries(costs).forEach(([key, val]) => {
-              combinedRecipe[key] = (combinedRecipe[key] || 0) + (val as number)
-            })
-          }
-        }
-        return combinedRecipe
+      if (diagnostics.length > 0) {
+        console.warn(`[ItemData] ${diagnostics.length} problems found in item data from ${itemDataProvider.label}`)
       }
+      setItemDiagnostics(diagnostics)
 
-      const lookup: Record<string, Item> = {}
-      normalizedItems.forEach((item: any) => {
-        let categories: string[] = item.categories ? [...item.categories] : []
-        if (categories.length === 0) {
-          let category = item.type || 'Material'
-          if (item.fileName === 'raider_hatch_key.json') category = 'Key'
-          else if (item.isWeapon) category = 'Weapon'
-          else if (item.type === 'Modification') category = 'Modification'
-          categories = [category]
-        }
-
-        if (categories.includes('Weapon') && !categories.includes('Gun')) {
-          categories.push('Gun')
-        }
-
-        lookup[item.id] = {
-          id: item.id,
-          name: item.name?.en || item.id,
-          category: categories,
-          rarity: item.rarity || 'Common',
-          icon: item.imageFilename || '📦',
-          isImage: !!item.imageFilename,
-          recipe: resolveRecipe(item),
-          stackSize: item.stackSize,
-          craftQuantity: item.craftQuantity,
-          shieldCompatibility: item.shieldCompatibility,
-          slots: item.slots,
-          supportedModifications: item.supportedModifications,
-          recyclesInto: item.recyclesInto,
-        }
-      })
-      setAllItemData(lookup)
-      setIsInventoryLoaded(true)
-
-      const processedItems = normalizedItems
-        .filter((item: any) => {
-          const validTypes = ['Augment', 'Shield', 'Ammunition', 'Modification', 'Quick Use']
-          const hasValidType = validTypes.includes(item.type)
-          const isWeapon = item.isWeapon === true
-          const isKey = item.fileName === 'raider_hatch_key.json'
-          return hasValidType || isWeapon || isKey
-        })
-        .map((item: any, index: number) => {
-          let categories: string[] = item.categories ? [...item.categories] : []
-          if (categories.length === 0) {
-            let category = item.type
-            if (item.isWeapon) category = 'Weapon'
-            categories = [category]
-          }
-
-          if (categories.includes('Weapon') && !categories.includes('Gun')) {
-            categories.push('Gun')
-          }
-          return {
-            id: item.id || `item-${index}`,
-            name: item.name?.en || item.fileName.replace('.json', ''),
-            category: categories,
-            rarity: item.rarity || 'Common',
-            icon: item.imageFilename || '📦',
-            isImage: !!item.imageFilename,
-            recipe: resolveRecipe(item),
-            stackSize: item.stackSize,
-            craftQuantity: item.craftQuantity,
-            shieldCompatibility: item.shieldCompatibility,
-            slots: item.slots,
-            supportedModifications: item.supportedModifications,
-            recyclesInto: item.recyclesInto,
-          }
-        })
-
-      // Group items by base name (e.g. anvil_i, anvil_ii -> anvil)
-      const groupedItems: Record<string, Item[]> = {}
-      processedItems.forEach((item: Item) => {
-        const match = item.id.match(/^(.+)_(i|ii|iii|iv|v)$/)
-        const baseName = match ? match[1] : item.id
-        if (!groupedItems[baseName]) groupedItems[baseName] = []
-        groupedItems[baseName].push(item)
-      })
-
-      const finalInventoryItems: Item[] = Object.values(groupedItems)
-        .map((group) => {
-          if (group.length === 1) return group[0]
-          // Sort by tier (i, ii, iii...)
-          const tiers = ['i', 'ii', 'iii', 'iv', 'v']
-          const getTierIndex = (id: string) => {
-            const m = id.match(/_([iv]+)$/)
-            return m ? tiers.indexOf(m[1]) : -1
-          }
-          group.sort((a, b) => getTierIndex(a.id) - getTierIndex(b.id))
-          // Return the first item (Tier 1) as the base, with variants attached
-          return { ...group[0], variants: group }
-        })
-        .sort((a, b) => a.name.localeCompare(b.name))
-
-      setInventoryItems(finalInventoryItems)
+      const freshData: CachedItemData<Item> = { items, inventory, fetchedAt: Date.now() }
+      applyItemData(freshData)
+      setIsDataStale(false)
+      await saveItemCache(itemDataProvider.id, freshData)
     } catch (error) {
       console.error('Failed to fetch inventory:', error)
+      if (cached) setIsDataStale(true)
     }
-  }, [setInventoryItems, setAllItemData, setSelectedVariantMap])
+  }, [applyItemData, itemDataProvider])
 
   useEffect(() => {
+    // Ignore results from a provider that has since been replaced
+    let isCurrent = true
+    fetchInventory(() => isCurrent)
+    return () => {
+      isCurrent = false
+    }
+  }, [fetchInventory])
 
-    fetchInventory()
+  const handleItemSourceChange = (spec: string) => {
+    localStorage.setItem(ITEM_SOURCE_STORAGE_KEY, spec)
+    setItemDataProvider(createProviderFromSpec(spec))
+    setItemDiagnostics(null)
+    setIsDataStale(false)
+    setShowItemSource(false)
+  }
 
-  }, [fetchInventory])
+  const handleItemFilesSelected = (files: File[]) => {
+    setItemDataProvider(createLocalFilesProvider(files))
+    setItemDiagnostics(null)
+    setIsDataStale(false)
+    setShowItemSource(false)
+  }
 
   useEffect(() => {
-    const augment = loadout.augment
-    const newSlotConfig = {
-      backpack: augment?.slots?.backpack ?? DEFAULT_SLOTS.backpack,
-      quickUse: augment?.slots?.quick_use ?? DEFAULT_SLOTS.quickUse,
-      safePocket: augment?.slots?.safe_pocket ?? DEFAULT_SLOTS.safePocket,
-    }
+    const newSlotConfig = getSectionCapacity(loadout.augment)
+
+    // A freshly loaded loadout keeps items in slots its augment doesn't provide, so the
+    // validation report can list them instead of them being moved or dropped silently
+    const keepOverflow = loadedAugmentRef.current !== undefined && loadedAugmentRef.current === loadout.augment
+    loadedAugmentRef.current = undefined
 
     const resizeSection = (currentItems: (Item | null)[], newSize: number): (Item | null)[] => {
       if (newSize === currentItems.length) {
@@ -368,6 +300,11 @@ function App() {
       if (newSize > currentItems.length) {
         return [...currentItems, ...Array(newSize - currentItems.length).fill(null)]
       }
+      if (keepOverflow) {
+        let end = currentItems.length
+        while (end > newSize && !currentItems[end - 1]) end--
+        return end === currentItems.length ? currentItems : currentItems.slice(0, end)
+      }
       // newSize < currentItems.length (shrinking)
       const keptItems = [...currentItems.slice(0, newSize)]
       const overflowItems = currentItems.slice(newSize).filter(Boolean) as Item[]
@@ -390,7 +327,8 @@ function App() {
       return keptItems
     }
 
-    setLoadout((prev) => {
+    // Part of the augment change that triggered it, so not a separate undo step
+    replaceLoadout((prev) => {
       const newBackpack = resizeSection(prev.backpack, newSlotConfig.backpack)
       const newQuickUse = resizeSection(prev.quickUse, newSlotConfig.quickUse)
       const newSafePocket = resizeSection(prev.safePocket, newSlotConfig.safePocket)
@@ -408,6 +346,9 @@ function App() {
           if (item?.isIntegrated) {
             return null
           }
+          if (!type || keepOverflow) {
+            return item
+          }
           if (item && !item.category.some((c) => c.toLowerCase() === type.toLowerCase())) {
             return null
           }
@@ -420,7 +361,7 @@ function App() {
       console.log('[Augment] Resizing slots due to augment change.')
       return { ...prev, backpack: newBackpack, quickUse: newQuickUse, safePocket: newSafePocket, extra: newExtra }
     })
-  }, [loadout.augment, extraSlotConfig, allItemData])
+  }, [loadout.augment, extraSlotConfig, allItemData, replaceLoadout])
 
   // Prevent scrolling during drag operations - but allow scrolling on target panel
   // Auto-scroll content-grid when dragging from inventory and pointer is near edges
@@ -637,16 +578,25 @@ function App() {
     return result
   }
 
-  const deserializeLoadout = useCallback((data: SerializedLoadout): LoadoutState => {
+  // Ids that no longer exist in the item data are dropped and, when given, collected into `unresolved`
+  const deserializeLoadout = useCallback((data: SerializedLoadout, unresolved?: string[]): LoadoutState => {
+    const resolve = (id: string) => {
+      if (allItemData[id]) return allItemData[id]
+      if (unresolved && !unresolved.includes(id)) unresolved.push(id)
+      return null
+    }
+
     const mapItem = (sItem: SerializedItem | null | undefined): Item | null => {
-      if (!sItem || !allItemData[sItem.id]) return null
-      const baseItem = allItemData[sItem.id]
+      if (!sItem) return null
+      const baseItem = resolve(sItem.id)
+      if (!baseItem) return null
       const item: Item = { ...baseItem, count: sItem.count || 1 }
       
       if (sItem.modifications && baseItem.supportedModifications) {
          item.modifications = sItem.modifications.map(m => {
-             if (!m || !allItemData[m.id]) return null
-             return { ...allItemData[m.id], count: 1 }
+             const mod = m && resolve(m.id)
+             if (!mod) return null
+             return { ...mod, count: 1 }
          })
          // Ensure length matches supportedModifications
          while (item.modifications.length < baseItem.supportedModifications.length) {
@@ -667,27 +617,41 @@ function App() {
       return padded
     }
 
-    const backpackCount = augment?.slots?.backpack ?? DEFAULT_SLOTS.backpack
-    const quickUseCount = augment?.slots?.quick_use ?? DEFAULT_SLOTS.quickUse
-    const safePocketCount = augment?.slots?.safe_pocket ?? DEFAULT_SLOTS.safePocket
-    const extraCount = calculateExtraSlotsCount(augment)
+    const capacity = getSectionCapacity(augment)
 
     return {
       title: data.title || 'LOADOUT',
       augment: augment,
       shield: mapItem(data.shield),
-      weapons: pad(Array.isArray(data.weapons) ? data.weapons.map(mapItem) : [], 2),
-      backpack: pad(Array.isArray(data.backpack) ? data.backpack.map(mapItem) : [], backpackCount),
-      quickUse: pad(Array.isArray(data.quickUse) ? data.quickUse.map(mapItem) : [], quickUseCount),
-      extra: pad(Array.isArray(data.extra) ? data.extra.map(mapItem) : [], extraCount),
-      safePocket: pad(Array.isArray(data.safePocket) ? data.safePocket.map(mapItem) : [], safePocketCount),
+      weapons: pad(Array.isArray(data.weapons) ? data.weapons.map(mapItem) : [], capacity.weapons),
+      backpack: pad(Array.isArray(data.backpack) ? data.backpack.map(mapItem) : [], capacity.backpack),
+      quickUse: pad(Array.isArray(data.quickUse) ? data.quickUse.map(mapItem) : [], capacity.quickUse),
+      extra: pad(Array.isArray(data.extra) ? data.extra.map(mapItem) : [], capacity.extra),
+      safePocket: pad(Array.isArray(data.safePocket) ? data.safePocket.map(mapItem) : [], capacity.safePocket),
     }
   }, [allItemData])
 
+  // Every load goes through here so the validation report runs on it
+  const applyLoadedLoadout = useCallback(
+    (restored: LoadoutState, unresolved: string[]) => {
+      loadedAugmentRef.current = restored.augment
+      resetLoadoutHistory(restored)
+      setUnresolvedItems(unresolved)
+      const issues = validateLoadout(restored)
+      if (issues.length > 0) console.log('[Validation] Loaded loadout has', issues.length, 'problems')
+      setShowValidation(issues.length > 0)
+    },
+    [resetLoadoutHistory]
+  )
+
   // Load from LocalStorage on mount (once inventory is ready)
+  // Only runs once: background revalidation of the item cache must not clobber in-progress edits
+  const hasRestoredLoadout = useRef(false)
   useEffect(() => {
-    if (!isInventoryLoaded) return
-    
+    if (!isInventoryLoaded || hasRestoredLoadout.current) return
+    hasRestoredLoadout.current = true
+    setIsLoadoutRestored(true)
+
     // Check URL for loadout
     const path = window.location.pathname
 
@@ -721,11 +685,17 @@ function App() {
     const urlMatch = path.match(/^\/loadout\/(.+)$/)
     if (urlMatch) {
       try {
-        const encoded = decodeURIComponent(urlMatch[1])
-        const json = atob(encoded)
-        const parsed = JSON.parse(json)
-        const restored = deserializeLoadout(parsed)
-        setLoadout(restored)
+        const parsed = decodeShareCode(urlMatch[1])
+        const unresolved: string[] = []
+        const restored = deserializeLoadout(parsed, unresolved)
+        applyLoadedLoadout(restored, unresolved)
+        // Shared loadouts are added to the library rather than replacing the active one,
+        // reusing an identical saved copy so reloading the link doesn't pile up duplicates
+        const serialized = JSON.stringify(serializeLoadout(restored))
+        setLoadoutLibrary((prev) => {
+          const existing = prev.loadouts.find((saved) => JSON.stringify(saved.data) === serialized)
+          return existing ? setActiveLoadout(prev, existing.id) : addLoadout(prev, JSON.parse(serialized))
+        })
         console.log('[Persistence] Loadout restored from URL')
         return
       } catch (e) {
@@ -733,38 +703,119 @@ function App() {
       }
     }
 
-    const saved = localStorage.getItem('arc_raiders_loadout')
-    if (saved) {
+    const active = getActiveLoadout(loadoutLibrary)
+    if (Object.keys(active.data).length > 0) {
       try {
-        const parsed = JSON.parse(saved)
-        const restored = deserializeLoadout(parsed)
-        setLoadout(restored)
+        const unresolved: string[] = []
+        applyLoadedLoadout(deserializeLoadout(active.data, unresolved), unresolved)
         console.log('[Persistence] Loadout restored from local storage')
       } catch (e) {
         console.error('[Persistence] Failed to load saved loadout', e)
       }
     }
-  }, [isInventoryLoaded, deserializeLoadout, allItemData])
+  }, [isInventoryLoaded, deserializeLoadout, allItemData, loadoutLibrary, applyLoadedLoadout])
+
+  useEffect(() => {
+    localStorage.setItem('arc_raiders_loot_breakdown', String(breakDownToRaw))
+  }, [breakDownToRaw])
+
+  // Keep the active library entry in sync with edits
+  useEffect(() => {
+    if (!isLoadoutRestored || mobileLootData) return
+    setLoadoutLibrary((prev) => updateActiveLoadout(prev, serializeLoadout(loadout)))
+  }, [loadout, isLoadoutRestored, mobileLootData])
 
   // Save to LocalStorage on change
   useEffect(() => {
-    if (!isInventoryLoaded) return
-    const serialized = serializeLoadout(loadout)
-    localStorage.setItem('arc_raiders_loadout', JSON.stringify(serialized))
-  }, [loadout, isInventoryLoaded])
+    saveLoadoutLibrary(loadoutLibrary)
+  }, [loadoutLibrary])
+
+  // Every save writes the whole library, so pick up saves from other tabs before they get overwritten
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key !== LOADOUT_LIBRARY_STORAGE_KEY || !e.newValue) return
+      const next = mergeStoredLibrary(loadoutLibrary, e.newValue)
+      if (!next) return
+      setLoadoutLibrary(next)
+      // The other tab edited or deleted the loadout open here
+      const active = getActiveLoadout(next).data
+      if (JSON.stringify(active) !== JSON.stringify(getActiveLoadout(loadoutLibrary).data)) {
+        const unresolved: string[] = []
+        applyLoadedLoadout(deserializeLoadout(active, unresolved), unresolved)
+      }
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [loadoutLibrary, applyLoadedLoadout, deserializeLoadout])
+
+  // Undo / redo shortcuts. Text fields keep their native undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return
+      const target = e.target as HTMLElement | null
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return
+
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undoLoadout()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redoLoadout()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undoLoadout, redoLoadout])
+
+  const restoreSavedLoadout = (data: SerializedLoadout) => {
+    const unresolved: string[] = []
+    applyLoadedLoadout(deserializeLoadout(data, unresolved), unresolved)
+  }
+
+  const handleSelectLoadout = (id: string) => {
+    if (id === loadoutLibrary.activeId) return
+    const next = setActiveLoadout(loadoutLibrary, id)
+    setLoadoutLibrary(next)
+    restoreSavedLoadout(getActiveLoadout(next).data)
+  }
+
+  const handleCreateLoadout = () => {
+    setLoadoutLibrary(addLoadout(loadoutLibrary, {}))
+    applyLoadedLoadout(createEmptyLoadout(), [])
+  }
+
+  const handleDuplicateLoadout = (id: string) => {
+    const next = duplicateLoadout(loadoutLibrary, id)
+    setLoadoutLibrary(next)
+    restoreSavedLoadout(getActiveLoadout(next).data)
+  }
+
+  const handleRenameLoadout = (id: string) => {
+    const saved = loadoutLibrary.loadouts.find((entry) => entry.id === id)
+    if (!saved) return
+    const title = prompt('Rename loadout:', getLoadoutName(saved))
+    if (!title) return // Cancelled
+    if (id === loadoutLibrary.activeId) {
+      setLoadout((prev) => ({ ...prev, title }))
+    } else {
+      setLoadoutLibrary(renameLoadout(loadoutLibrary, id, title))
+    }
+  }
+
+  const handleDeleteLoadout = (id: string) => {
+    const saved = loadoutLibrary.loadouts.find((entry) => entry.id === id)
+    if (!saved || !confirm(`Delete "${getLoadoutName(saved)}"?`)) return
+    const next = deleteLoadout(loadoutLibrary, id, {})
+    setLoadoutLibrary(next)
+    if (next.activeId !== loadoutLibrary.activeId) {
+      restoreSavedLoadout(getActiveLoadout(next).data)
+    }
+  }
 
   const handleReset = () => {
     if (confirm('Are you sure you want to reset your loadout?')) {
-      setLoadout({
-        title: 'LOADOUT',
-        augment: null,
-        shield: null,
-        weapons: [null, null],
-        backpack: Array(DEFAULT_SLOTS.backpack).fill(null),
-        quickUse: Array(DEFAULT_SLOTS.quickUse).fill(null),
-        extra: [],
-        safePocket: Array(DEFAULT_SLOTS.safePocket).fill(null),
-      })
+      setLoadout(createEmptyLoadout())
     }
   }
 
@@ -783,9 +834,7 @@ function App() {
     if (Object.keys(serialized).length === 0) {
       url = window.location.origin
     } else {
-      const json = JSON.stringify(serialized)
-      const encoded = btoa(json)
-      url = `${window.location.origin}/loadout/${encodeURIComponent(encoded)}`
+      url = `${window.location.origin}/loadout/${encodeShareCode(serialized)}`
     }
     
     navigator.clipboard.writeText(url)
@@ -793,84 +842,26 @@ function App() {
       .catch(err => console.error('Failed to copy', err))
   }
 
-  const filteredItems = inventoryItems.filter((item) => {
-    const matchesFilter = activeFilter === 'all' || item.category.includes(activeFilter)
-    if (!matchesFilter) return false
-
-    const searchTerms = search.toLowerCase().split(/\s+/).filter(Boolean)
-    if (searchTerms.length === 0) return true
-
-    const itemText = `${item.name} ${item.category.join(' ')} ${item.category.includes('Modification') ? 'attachment' : ''}`.toLowerCase()
-    const itemWords = itemText.split(/\s+/)
-
-    return searchTerms.every((term) => {
-      if (itemText.includes(term)) return true
-      if (term.length < 3) return false
-      return itemWords.some((word) => {
-        const distance = getLevenshteinDistance(term, word)
-        return distance <= (term.length > 5 ? 2 : 1)
-      })
-    })
-  })
-
-  const getShieldType = (item: Item): string | null => {
-    if (item.id === 'light_shield') return 'light'
-    if (item.id === 'medium_shield') return 'medium'
-    if (item.id === 'heavy_shield') return 'heavy'
-    return null
-  }
-
-  const isShieldCompatible = (shield: Item | null, augment: Item | null): boolean => {
-    if (!shield) return true
-    const type = getShieldType(shield)
-    if (!type) return true // Not a standard shield? Allow it? Or assume compatible.
-    
-    // Light shields are always compatible
-    if (type === 'light') return true
+  const reverseIndex = useMemo(() => buildReverseIndex(allItemData), [allItemData])
+  const searchVocabulary = useMemo(() => buildSearchVocabulary(inventoryItems, allItemData), [inventoryItems, allItemData])
+  // Best matches first while searching
+  const searchResults = useSearchIndex(inventoryItems, search)
 
-    // Medium/Heavy require an augment with compatibility
-    if (!augment || !augment.shieldCompatibility) return false
-    
-    return augment.shieldCompatibility.includes(type)
-  }
+  const filteredItems = searchResults.filter((item) => activeFilter === 'all' || item.category.includes(activeFilter))
 
-  const canEquip = (item: Item, slotType: string, slotIndex: number = -1, modIndex: number = -1) => {
-    const categories = item.category
-
-    // Mod slot logic
-    if (slotType === 'weapons' && modIndex !== -1) {
-       // We need to check the weapon at slotIndex
-       const weapon = loadout.weapons[slotIndex]
-       if (!weapon || !weapon.supportedModifications) return false
-       const requiredCategory = weapon.supportedModifications[modIndex]
-       if (!requiredCategory) return false
-       
-       // Check if item has this category
-       return item.category.includes(requiredCategory)
-    }
+  const getRejection = (item: Item, slotType: string, slotIndex: number = -1, modIndex: number = -1) =>
+    getEquipRejection(loadout, item, slotType, slotIndex, modIndex)
 
-    if (categories.includes('Augment') && slotType === 'augment') return true
-    if (categories.includes('Shield')) {
-      if (slotType === 'shield') {
-        return isShieldCompatible(item, loadout.augment)
-      }
-      if (slotType === 'backpack' || slotType === 'safePocket') return true
-    }
-    if (categories.includes('Weapon') && (slotType === 'weapons' || slotType === 'backpack')) return true
+  const canEquip = (item: Item, slotType: string, slotIndex: number = -1, modIndex: number = -1) =>
+    getRejection(item, slotType, slotIndex, modIndex) === null
 
-    if (slotType === 'extra') {
-      if (slotIndex === -1) return false
-      const type = extraSlotConfig.slotTypes[slotIndex]
-      if (!type || type.startsWith('integrated_')) return false
-      return categories.some((c) => c.toLowerCase() === type.toLowerCase())
-    }
+  // Why the slot under the pointer won't take the dragged item, shown next to the drag ghost
+  const dropRejection =
+    draggedItem && activeSlot ? getRejection(draggedItem, activeSlot.section, activeSlot.index, activeSlot.modIndex ?? -1) : null
 
-    if (categories.includes('Ammunition') && (slotType === 'backpack' || slotType === 'safePocket')) return true
-    if (categories.includes('Modification') && (slotType === 'backpack' || slotType === 'safePocket')) return true
-    if (categories.includes('Quick Use') && (slotType === 'backpack' || slotType === 'quickUse' || slotType === 'safePocket')) return true
-    if (categories.includes('Key') && (slotType === 'backpack' || slotType === 'safePocket')) return true
-    return false
-  }
+  // mergeKey folds repeated edits of one field (typing in a count input) into a single undo step
+  const dispatchLoadout = (action: LoadoutAction<Item>, mergeKey?: string) =>
+    setLoadout((prev) => loadoutReducer(prev, action), mergeKey)
 
   const handleLoadoutPanelDrop = (e: DragEvent) => {
     handleLoadoutPanelDropHandler(e, (event, section, index, modIndex) =>
@@ -890,129 +881,143 @@ function App() {
   ) => {
     console.log('[ItemEquip] Item:', item.name, 'From:', sourceSection, sourceIndex, 'To:', targetSection, targetIndex)
 
-    if (sourceSection === targetSection && sourceIndex === targetIndex && sourceModIndex === targetModIndex) return
-
-    if (targetSection === 'extra') {
-      const slotType = extraSlotConfig.slotTypes[targetIndex]
-      if (slotType === 'integrated_binoculars' || slotType === 'integrated_shield_recharger') {
-        return
-      }
-    }
-
-    if (!canEquip(item, targetSection, targetIndex, targetModIndex)) {
-      console.log('[ItemEquip] Rejected: Invalid Category', item.category.join(', '), 'for slot', targetSection)
-      return
-    }
+    const target: SlotRef = { section: targetSection as SlotSection, index: targetIndex, modIndex: targetModIndex }
+    const from: SlotRef | null =
+      sourceSection === 'inventory' || sourceIndex === undefined
+        ? null
+        : { section: sourceSection as SlotSection, index: sourceIndex, modIndex: sourceModIndex }
 
-    setLoadout((prev) => {
-      const newLoadout = { ...prev }
+    if (!from) dispatchLoadout({ type: 'EQUIP', item, target })
+    else if (isSplit) dispatchLoadout({ type: 'SPLIT', from, target, count: item.count || 1 })
+    else dispatchLoadout({ type: 'MOVE', from, target })
 
-      const getItem = (sec: keyof LoadoutState, idx: number) => {
-        if (idx !== -1 && Array.isArray(newLoadout[sec])) return (newLoadout[sec] as (Item | null)[])[idx]
-        return newLoadout[sec] as Item | null
-      }
+    setDraggedItem(null)
+    setDropValidity(null)
+    setActiveSlot(null)
+    setDragSource(null)
+    setHoveredItem(null)
+  }
 
-      const setItem = (sec: keyof LoadoutState, idx: number, val: Item | null) => {
-        if (idx !== -1 && Array.isArray(newLoadout[sec])) {
-          if (newLoadout[sec] === prev[sec]) {
-            ;(newLoadout[sec] as any) = [...(prev[sec] as any[])]
-          }
-          ;(newLoadout[sec] as (Item | null)[])[idx] = val
-        } else {
-          ;(newLoadout[sec] as any) = val
-        }
-      }
+  // --- Keyboard equipping ---
+  // Loadout slots share a single tab stop; the arrow keys move focus to the nearest slot on screen.
+  const getSlotKey = (slot: SlotRef) =>
+    slot.modIndex !== undefined && slot.modIndex >= 0 ? `${slot.section}|${slot.index}|${slot.modIndex}` : `${slot.section}|${slot.index}`
 
-      // Logic for dropping into a mod slot
-      if (targetModIndex !== -1) {
-          const weapon = (newLoadout[targetSection] as (Item | null)[])[targetIndex]
-          if (!weapon) return prev
-          
-          const newWeapon = { ...weapon, modifications: [...(weapon.modifications || [])] }
-          if (!newWeapon.modifications) newWeapon.modifications = []
-          
-          newWeapon.modifications[targetModIndex] = { ...item, count: 1 }
-          ;(newLoadout[targetSection] as (Item | null)[])[targetIndex] = newWeapon
-          
-          if (sourceSection !== 'inventory' && sourceIndex !== undefined) {
-              if (sourceModIndex !== undefined && sourceModIndex !== -1) {
-                  const sourceWeapon = (newLoadout[sourceSection as keyof LoadoutState] as (Item | null)[])[sourceIndex]
-                  if (sourceWeapon && sourceWeapon.modifications) {
-                       if (sourceSection === targetSection && sourceIndex === targetIndex) {
-                           newWeapon.modifications[sourceModIndex] = null
-                       } else {
-                           const newSourceWeapon = { ...sourceWeapon, modifications: [...sourceWeapon.modifications] }
-                           newSourceWeapon.modifications[sourceModIndex] = null
-                           ;(newLoadout[sourceSection as keyof LoadoutState] as (Item | null)[])[sourceIndex] = newSourceWeapon
-                       }
-                  }
-              } else {
-                  const sourceItem = getItem(sourceSection as keyof LoadoutState, sourceIndex)
-                  const remaining = (sourceItem?.count || 1) - 1
-                  setItem(sourceSection as keyof LoadoutState, sourceIndex, remaining > 0 ? { ...sourceItem!, count: remaining } : null)
-              }
-          }
-          
-          return newLoadout
-      }
+  const parseSlotKey = (key: string): SlotRef => {
+    const [section, index, modIndex] = key.split('|')
+    return { section: section as SlotSection, index: Number(index), modIndex: modIndex === undefined ? undefined : Number(modIndex) }
+  }
 
-      const targetItem = getItem(targetSection, targetIndex)
-      let amountToMove = item.count || 1
-      let newTargetItem = { ...item }
+  const focusSlot = (slot: SlotRef) => slotRefs.current.get(getSlotKey(slot))?.focus()
 
-      if (targetItem && targetItem.id === item.id && targetItem.stackSize) {
-        const space = targetItem.stackSize - (targetItem.count || 1)
-        amountToMove = Math.min(amountToMove, space)
-        newTargetItem = { ...targetItem, count: (targetItem.count || 1) + amountToMove }
-      } else {
-        if (targetItem && isSplit) return prev
-        newTargetItem = { ...item, count: amountToMove }
-      }
+  const describeSlot = (slot: SlotRef) => {
+    if (slot.modIndex !== undefined && slot.modIndex >= 0) {
+      const weapon = getSlotItem(loadout, { section: slot.section, index: slot.index })
+      const modType = weapon?.supportedModifications?.[slot.modIndex] || 'modification'
+      return `${weapon?.name ?? 'Weapon'} ${modType} slot`
+    }
+    return slot.index === -1 ? SECTION_LABELS[slot.section] : `${SECTION_LABELS[slot.section]} slot ${slot.index + 1}`
+  }
 
-      if (amountToMove === 0) return prev
-
-      setItem(targetSection, targetIndex, newTargetItem)
-
-      if (sourceSection !== 'inventory' && sourceIndex !== undefined) {
-        if (sourceModIndex !== undefined && sourceModIndex !== -1) {
-            const sourceWeapon = (newLoadout[sourceSection as keyof LoadoutState] as (Item | null)[])[sourceIndex]
-            if (sourceWeapon && sourceWeapon.modifications) {
-                const newSourceWeapon = { ...sourceWeapon, modifications: [...sourceWeapon.modifications] }
-                newSourceWeapon.modifications[sourceModIndex] = null
-                ;(newLoadout[sourceSection as keyof LoadoutState] as (Item | null)[])[sourceIndex] = newSourceWeapon
-            }
-        } else {
-            const sourceItem = getItem(sourceSection as keyof LoadoutState, sourceIndex)
-            if (targetItem && targetItem.id !== item.id && !isSplit) {
-              setItem(sourceSection as keyof LoadoutState, sourceIndex, targetItem)
-            } else {
-              const currentSourceCount = sourceItem?.count || 1
-              const remaining = currentSourceCount - amountToMove
-              setItem(
-                sourceSection as keyof LoadoutState,
-                sourceIndex,
-                remaining > 0 ? { ...sourceItem!, count: remaining } : null
-              )
-            }
-        }
-      }
+  const keyboardEquip = useKeyboardEquip<Item, SlotRef>({
+    getSlotItem: (slot) => getSlotItem(loadout, slot),
+    getRejection: (item, slot) => getRejection(item, slot.section, slot.index, slot.modIndex ?? -1),
+    findBestSlot: (item) => findBestSlot(loadout, item),
+    getNoSlotReason: (item) => getNoSlotReason(loadout, item),
+    describeSlot,
+    onPlace: (item, from, target) =>
+      // Inventory items come as a full stack, the same as when dragged
+      handleItemEquip(
+        from || !item.stackSize ? item : { ...item, count: item.stackSize },
+        from?.section ?? 'inventory',
+        from?.index,
+        from?.modIndex,
+        false,
+        target.section,
+        target.index,
+        target.modIndex ?? -1
+      ),
+    onUnequip: (slot) => dispatchLoadout({ type: 'UNEQUIP', slot }),
+    onFocusSlot: focusSlot,
+    onNavigate: (slot, direction) => {
+      const fromKey = getSlotKey(slot)
+      const from = slotRefs.current.get(fromKey)
+      if (!from) return
+      const candidates = [...slotRefs.current.entries()]
+        .filter(([key]) => key !== fromKey)
+        .map(([key, el]) => ({ key, rect: el.getBoundingClientRect() }))
+      const next = findNeighbor(from.getBoundingClientRect(), candidates, direction)
+      if (next) slotRefs.current.get(next)?.focus()
+    },
+  })
 
-      if (targetSection === 'augment' || sourceSection === 'augment') {
-        const currentAugment = newLoadout.augment
-        const currentShield = newLoadout.shield
-        if (currentShield && !isShieldCompatible(currentShield, currentAugment)) {
-          console.log('[Loadout] Removing incompatible shield:', currentShield.name)
-          newLoadout.shield = null
-        }
-      }
+  const renderSortControl = (section: SortableSection) => (
+    <SectionSortControl
+      sectionLabel={SECTION_LABELS[section]}
+      sortKey={sortKeys[section]}
+      onSortKeyChange={(sortKey) => setSortKey(section, sortKey)}
+      onSort={() => dispatchLoadout({ type: 'SORT_SECTION', section, sortKey: sortKeys[section] })}
+      disabled={!loadout[section].some(Boolean)}
+    />
+  )
 
-      return newLoadout
-    })
+  // Long press opens the detail sheet and drops the touch drag that started with it
+  const longPress = useLongPress()
+  const inspectItem = (item: Item) => {
     setDraggedItem(null)
-    setDropValidity(null)
-    setActiveSlot(null)
     setDragSource(null)
+    setActiveSlot(null)
+    setDropValidity(null)
     setHoveredItem(null)
+    setInspectedItem(item)
+  }
+
+  // Right-click on an equipped item opens the where used / where from explorer. A long press can
+  // fire contextmenu too; on touch the detail sheet has a button for it instead.
+  const handleItemContextMenu = (e: MouseEvent, item: Item) => {
+    e.preventDefault()
+    e.stopPropagation()
+    if ((e.nativeEvent as PointerEvent).pointerType === 'touch') return
+    setHoveredItem(null)
+    setLookupItemId(item.id)
+  }
+
+  useLayoutEffect(() => {
+    if (hoveredItem && tooltipRef.current) positionTooltip(tooltipRef.current, initialTooltipPos.current.x, initialTooltipPos.current.y)
+  }, [hoveredItem, initialTooltipPos])
+
+  // Double-click, tap or B on an inventory item
+  const handleQuickEquip = (item: Item) => {
+    if (keyboardEquip.sendToBestSlot(item)) {
+      setEquipNotice(null)
+    } else {
+      setEquipNotice(`No free slot for ${item.name}: ${getNoSlotReason(loadout, item)}`)
+    }
+  }
+
+  useEffect(() => {
+    if (!equipNotice) return
+    const timer = setTimeout(() => setEquipNotice(null), 4000)
+    return () => clearTimeout(timer)
+  }, [equipNotice])
+
+  // Keep the tab stop on a slot that still exists, e.g. after the weapon holding a focused mod slot is removed
+  useEffect(() => {
+    if (!slotRefs.current.has(focusedSlotKey)) setFocusedSlotKey('augment|-1')
+  }, [slotRefs, focusedSlotKey, loadout])
+
+  const getSlotA11yProps = (slot: SlotRef, item: Item | null) => {
+    const key = getSlotKey(slot)
+    const contents = item ? (item.stackSize ? `${item.name} ×${item.count ?? ''}` : item.name) : 'empty'
+    return {
+      tabIndex: key === focusedSlotKey ? 0 : -1,
+      role: 'button',
+      'aria-label': `${describeSlot(slot)}: ${contents}`,
+      onFocus: (e: React.FocusEvent) => {
+        if (e.target === e.currentTarget) setFocusedSlotKey(key)
+      },
+      onKeyDown: (e: React.KeyboardEvent) => keyboardEquip.handleSlotKeyDown(e, parseSlotKey(key)),
+    }
   }
 
   const handleTouchSlotDrop = (section: keyof LoadoutState, index: number = -1, modIndex: number = -1) => {
@@ -1046,42 +1051,7 @@ function App() {
 
     // Unequip the item
     if (index !== undefined) {
-      setLoadout((prev) => {
-        const newLoadout = { ...prev }
-        const sec = section as keyof LoadoutState
-
-        if (modIndex !== undefined && modIndex !== -1) {
-            // Unequip mod
-            const sourceWeapon = (newLoadout[sec] as (Item | null)[])[index]
-            if (sourceWeapon && sourceWeapon.modifications) {
-                const newSourceWeapon = { ...sourceWeapon, modifications: [...sourceWeapon.modifications] }
-                newSourceWeapon.modifications[modIndex] = null
-                ;(newLoadout[sec] as (Item | null)[])[index] = newSourceWeapon
-            }
-        } else {
-            // Unequip regular item
-            if (index !== -1 && Array.isArray(newLoadout[sec])) {
-              if (newLoadout[sec] === prev[sec]) {
-                ;(newLoadout[sec] as any) = [...(prev[sec] as any[])]
-              }
-              ;(newLoadout[sec] as (Item | null)[])[index] = null
-            } else {
-              ;(newLoadout[sec] as any) = null
-            }
-        }
-
-        // Check Shield Compatibility if Augment removed
-        if (sec === 'augment') {
-           const currentAugment = newLoadout.augment
-           const currentShield = newLoadout.shield
-           if (currentShield && !isShieldCompatible(currentShield, currentAugment)) {
-             console.log('[TouchInventoryDrop] Removing incompatible shield after augment unequip')
-             newLoadout.shield = null
-           }
-        }
-
-        return newLoadout
-      })
+      dispatchLoadout({ type: 'UNEQUIP', slot: { section: section as SlotSection, index, modIndex } })
     }
   }
 
@@ -1144,47 +1114,10 @@ function App() {
     const { item, sourceSection, sourceIndex, sourceModIndex } = dropData
 
     if (sourceSection !== 'inventory' && sourceIndex !== undefined) {
-      setLoadout((prev) => {
-        const newLoadout = { ...prev }
-        const sec = sourceSection as keyof LoadoutState
-        const getItem = () =>
-          sourceIndex !== -1 && Array.isArray(newLoadout[sec])
-            ? (newLoadout[sec] as (Item | null)[])[sourceIndex]
-            : (newLoadout[sec] as Item | null)
-
-        if (sourceModIndex !== undefined && sourceModIndex !== -1) {
-            // Unequip mod
-            const sourceWeapon = (newLoadout[sec] as (Item | null)[])[sourceIndex]
-            if (sourceWeapon && sourceWeapon.modifications) {
-                const newSourceWeapon = { ...sourceWeapon, modifications: [...sourceWeapon.modifications] }
-                newSourceWeapon.modifications[sourceModIndex] = null
-                ;(newLoadout[sec] as (Item | null)[])[sourceIndex] = newSourceWeapon
-            }
-        } else {
-            const sourceItem = getItem()
-            const remaining = (sourceItem?.count || 1) - (item.count || 1)
-
-            if (sourceIndex !== -1 && Array.isArray(newLoadout[sec])) {
-              if (newLoadout[sec] === prev[sec]) {
-                ;(newLoadout[sec] as any) = [...(prev[sec] as any[])]
-              }
-              ;(newLoadout[sec] as (Item | null)[])[sourceIndex] = remaining > 0 ? { ...sourceItem!, count: remaining } : null
-            } else {
-              ;(newLoadout[sec] as any) = remaining > 0 ? { ...sourceItem!, count: remaining } : null
-            }
-        }
-
-        // Check Shield Compatibility if Augment removed
-        if (sec === 'augment') {
-           const currentAugment = newLoadout.augment
-           const currentShield = newLoadout.shield
-           if (currentShield && !isShieldCompatible(currentShield, currentAugment)) {
-             console.log('[Loadout] Removing incompatible shield after augment unequip')
-             newLoadout.shield = null
-           }
-        }
-
-        return newLoadout
+      dispatchLoadout({
+        type: 'UNEQUIP',
+        slot: { section: sourceSection as SlotSection, index: sourceIndex, modIndex: sourceModIndex },
+        count: item.count || 1,
       })
     }
     setDraggedItem(null)
@@ -1221,41 +1154,9 @@ function App() {
 
     // Unequip the item
     if (sourceIndex !== undefined) {
-      setLoadout((prev) => {
-        const newLoadout = { ...prev }
-        const sec = sourceSection as keyof LoadoutState
-
-        if (sourceModIndex !== undefined && sourceModIndex !== -1) {
-            // Unequip mod
-            const sourceWeapon = (newLoadout[sec] as (Item | null)[])[sourceIndex]
-            if (sourceWeapon && sourceWeapon.modifications) {
-                const newSourceWeapon = { ...sourceWeapon, modifications: [...sourceWeapon.modifications] }
-                newSourceWeapon.modifications[sourceModIndex] = null
-                ;(newLoadout[sec] as (Item | null)[])[sourceIndex] = newSourceWeapon
-            }
-        } else {
-            // Unequip regular item
-            if (sourceIndex !== -1 && Array.isArray(newLoadout[sec])) {
-              if (newLoadout[sec] === prev[sec]) {
-                ;(newLoadout[sec] as any) = [...(prev[sec] as any[])]
-              }
-              ;(newLoadout[sec] as (Item | null)[])[sourceIndex] = null
-            } else {
-              ;(newLoadout[sec] as any) = null
-            }
-        }
-
-        // Check Shield Compatibility if Augment removed
-        if (sec === 'augment') {
-           const currentAugment = newLoadout.augment
-           const currentShield = newLoadout.shield
-           if (currentShield && !isShieldCompatible(currentShield, currentAugment)) {
-             console.log('[InventoryDrop] Removing incompatible shield after augment unequip')
-             newLoadout.shield = null
-           }
-        }
-
-        return newLoadout
+      dispatchLoadout({
+        type: 'UNEQUIP',
+        slot: { section: sourceSection as SlotSection, index: sourceIndex, modIndex: sourceModIndex },
       })
     }
     
@@ -1283,129 +1184,49 @@ function App() {
       console.log('[SlotClick] Unequipping item via Shift+Click')
       e.preventDefault()
       setHoveredItem(null)
-      setLoadout((prev) => {
-        const newLoadout = { ...prev }
-        
-        if (modIndex !== -1) {
-            // Unequip mod
-            const weapon = (newLoadout[section] as (Item | null)[])[index]
-            if (weapon && weapon.modifications) {
-                const newWeapon = { ...weapon, modifications: [...weapon.modifications] }
-                newWeapon.modifications[modIndex] = null
-                ;(newLoadout[section] as (Item | null)[])[index] = newWeapon
-            }
-        } else {
-            if (index !== -1 && Array.isArray(newLoadout[section])) {
-              if (newLoadout[section] === prev[section]) {
-                ;(newLoadout[section] as any) = [...(prev[section] as any[])]
-              }
-              ;(newLoadout[section] as (Item | null)[])[index] = null
-            } else {
-              ;(newLoadout[section] as any) = null
-            }
-        }
-
-        // Check Shield Compatibility if Augment removed
-        if (section === 'augment') {
-           const currentAugment = newLoadout.augment
-           const currentShield = newLoadout.shield
-           if (currentShield && !isShieldCompatible(currentShield, currentAugment)) {
-             console.log('[Loadout] Removing incompatible shield after augment removal')
-             newLoadout.shield = null
-           }
-        }
-
-        return newLoadout
-      })
+      dispatchLoadout({ type: 'UNEQUIP', slot: { section: section as SlotSection, index, modIndex } })
     }
   }
 
-  const getLootTable = () => {
-    const totals: Record<string, number> = {}
-
-    const addItemRecipe = (item: Item | null) => {
-      if (!item || !item.recipe) return
+  const getLootRequirements = () =>
+    computeLootRequirements(loadout, allItemData, { breakDown: breakDownToRaw, stash, raids, keptSections, currentTiers })
 
-      const craftQuantity = item.craftQuantity || 1
-      const numCrafts = Math.ceil((item.count || 1) / craftQuantity)
-
-      Object.entries(item.recipe).forEach(([id, count]) => {
-        totals[id] = (totals[id] || 0) + count * numCrafts
-      })
-      
-      // Recurse for modifications
-      if (item.modifications) {
-          item.modifications.forEach(mod => {
-              if (mod) addItemRecipe(mod)
-          })
-      }
-    }
-
-    addItemRecipe(loadout.augment)
-    addItemRecipe(loadout.shield)
-    loadout.weapons.forEach(addItemRecipe)
-    loadout.backpack.forEach(addItemRecipe)
-    loadout.quickUse.forEach(addItemRecipe)
-    loadout.extra.forEach(addItemRecipe)
-    loadout.safePocket.forEach(addItemRecipe)
-
-    return Object.entries(totals)
-      .map(([id, count]) => {
-        const item = allItemData[id]
-        return {
-          id,
-          count,
-          name: item?.name || id,
-          icon: item?.icon || '📦',
-          isImage: item?.isImage || false,
-        }
-      })
-      .sort((a, b) => b.count - a.count)
+  const getLootTable = () => {
+    const { materials, owned } = getLootRequirements()
+    return toLootItems(materials, allItemData, owned)
   }
 
-  const getRecycleList = (overrideLootTable?: LootItem[]) => {
-    const lootTable = overrideLootTable || getLootTable()
-    const requiredMap = new Map<string, number>()
-    lootTable.forEach(item => requiredMap.set(item.id, item.count))
-
-    const candidates = Object.values(allItemData).filter(item => 
-      item.category.includes('Recyclable') && item.recyclesInto
-    )
+  // Compared loadouts are decoded like any load, and their loot totals ignore the stash so the
+  // delta reflects the kits themselves
+  // Stable so the compare modal only re-decodes a side when its input changes
+  const resolveCompareLoadout = useCallback(
+    (source: { type: 'saved'; id: string } | { type: 'shared'; code: string }) => {
+      const data =
+        source.type === 'saved'
+          ? loadoutLibrary.loadouts.find((saved) => saved.id === source.id)?.data ?? {}
+          : decodeShareCode(extractShareCode(source.code))
+      const compared = deserializeLoadout(data)
+      const { materials } = computeLootRequirements(compared, allItemData, { breakDown: breakDownToRaw, raids, keptSections })
+      return { loadout: compared, lootTable: toLootItems(materials, allItemData) }
+    },
+    [loadoutLibrary.loadouts, deserializeLoadout, allItemData, breakDownToRaw, raids, keptSections]
+  )
 
-    const scored = candidates.map(item => {
-      let score = 0
-      if (item.recyclesInto) {
-        Object.entries(item.recyclesInto).forEach(([matId, count]) => {
-          if (requiredMap.has(matId)) {
-            const reqCount = requiredMap.get(matId)!
-            const useful = Math.min(count, reqCount)
-            const mat = allItemData[matId]
-            const rarity = mat?.rarity || 'Common'
-            let weight = 1
-            switch (rarity) {
-              case 'Uncommon': weight = 2; break;
-              case 'Rare': weight = 4; break;
-              case 'Epic': weight = 8; break;
-              case 'Legendary': weight = 16; break;
-            }
-            score += useful * weight
-          }
-        })
-      }
-      return { item, score }
+  // Counts of each recyclable that cover what is still needed, with the materials left over
+  const getRecyclePlan = (lootTable: LootItem[] = getLootTable()) => {
+    const shortfall: Record<string, number> = {}
+    lootTable.forEach((item) => {
+      const stillNeeded = getStillNeeded(item)
+      if (stillNeeded > 0) shortfall[item.id] = stillNeeded
     })
-
-    return scored
-      .filter(x => x.score > 0)
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 10)
-      .map(x => x.item)
+    return planRecycling(shortfall, allItemData)
   }
 
   const handleShareLootList = () => {
     const lootTable = getLootTable()
     const simplifiedLoot = lootTable.reduce((acc, item) => {
-      acc[item.id] = item.count
+      const stillNeeded = getStillNeeded(item)
+      if (stillNeeded > 0) acc[item.id] = stillNeeded
       return acc
     }, {} as Record<string, number>)
 
@@ -1418,12 +1239,44 @@ function App() {
       .catch(err => console.error('Failed to copy', err))
   }
 
+  const handleExportLootList = (options: ExportOptions, destination: 'download' | 'clipboard') => {
+    const lootTable = getLootTable()
+    const content = exportLootList(lootTable, getRecyclePlan(lootTable), allItemData, options)
+
+    if (destination === 'clipboard') {
+      navigator.clipboard.writeText(content)
+        .then(() => alert('Loot list copied to clipboard!'))
+        .catch(err => console.error('Failed to copy', err))
+      return
+    }
+
+    const { extension, mimeType } = EXPORT_FORMATS[options.format]
+    const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `arc-raiders-loot.${extension}`
+    // Firefox and some Safari versions only download from a link in the document, and cancel the
+    // download if the URL is revoked before it starts
+    document.body.appendChild(link)
+    link.click()
+    link.remove()
+    setTimeout(() => URL.revokeObjectURL(url), 1000)
+  }
+
   const renderSlot = (section: keyof LoadoutState, index: number = -1, className: string) => {
     const item = index === -1 ? (loadout[section] as Item | null) : (loadout[section] as (Item | null)[])[index]
-    const isDragging = !!draggedItem
-    const isValid = isDragging ? canEquip(draggedItem!, section, index) : true
+    const slot: SlotRef = { section: section as SlotSection, index }
+    // Dragged with the pointer or picked up with the keyboard
+    const movingItem = draggedItem || keyboardEquip.heldItem?.item || null
+    const heldFrom = keyboardEquip.heldItem?.from
+    const isDragging = !!movingItem
+    const rejection = isDragging ? getRejection(movingItem!, section, index) : null
+    const isValid = !rejection
     const dropClass = isDragging ? (isValid ? 'valid-drop-target' : 'invalid-drop-target') : ''
-    const isActiveSlot = activeSlot?.section === section && activeSlot?.index === index && activeSlot?.modIndex === undefined
+    const isActiveSlot =
+      (activeSlot?.section === section && activeSlot?.index === index && activeSlot?.modIndex === undefined) ||
+      (!!keyboardEquip.heldItem && focusedSlotKey === getSlotKey(slot))
+    const isHeldSource = heldFrom?.section === section && heldFrom.index === index && (heldFrom.modIndex ?? -1) === -1
     const isFixedSlot = section === 'extra' && (extraSlotConfig.slotTypes[index] === 'integrated_binoculars' || extraSlotConfig.slotTypes[index] === 'integrated_shield_recharger')
 
     let displayItem = item
@@ -1432,55 +1285,23 @@ function App() {
       displayItem = { ...item, count: remainder }
     }
 
-    const handleCountChange = (e: ChangeEvent<HTMLInputElement>, currentItem: Item) => {
+    const handleCountChange = (e: ChangeEvent<HTMLInputElement>) => {
       const rawValue = e.target.value
-      setLoadout((prev) => {
-        const newLoadout = { ...prev }
-        const update = (newItem: Item | null) => {
-          if (index !== -1 && Array.isArray(newLoadout[section])) {
-            if (newLoadout[section] === prev[section]) {
-              ;(newLoadout[section] as any) = [...(prev[section] as any[])]
-            }
-            ;(newLoadout[section] as (Item | null)[])[index] = newItem
-          } else {
-            ;(newLoadout[section] as any) = newItem
-          }
-        }
-
-        if (rawValue === '') {
-          update({ ...currentItem, count: undefined }) // Temporarily allow empty
-        } else {
-          const val = parseInt(rawValue)
-          if (!isNaN(val)) {
-            // Only update if it's a number
-            if (val <= 0) {
-              update({ ...currentItem, count: val })
-            } else if (currentItem.stackSize && val > currentItem.stackSize) {
-              update({ ...currentItem, count: currentItem.stackSize })
-            } else {
-              update({ ...currentItem, count: val })
-            }
-          }
-        }
-        return newLoadout
-      })
+      const slot = { section: section as SlotSection, index }
+      const mergeKey = `count|${section}|${index}`
+      if (rawValue === '') {
+        dispatchLoadout({ type: 'SET_COUNT', slot, count: undefined }, mergeKey) // Temporarily allow empty
+      } else {
+        const val = parseInt(rawValue)
+        // Only update if it's a number
+        if (!isNaN(val)) dispatchLoadout({ type: 'SET_COUNT', slot, count: val }, mergeKey)
+      }
     }
 
     const handleCountBlur = (e: React.FocusEvent<HTMLInputElement>) => {
       const val = parseInt(e.target.value)
       if (isNaN(val) || val <= 0) {
-        setLoadout((prev) => {
-          const newLoadout = { ...prev }
-          if (index !== -1 && Array.isArray(newLoadout[section])) {
-            if (newLoadout[section] === prev[section]) {
-              ;(newLoadout[section] as any) = [...(prev[section] as any[])]
-            }
-            ;(newLoadout[section] as (Item | null)[])[index] = null
-          } else {
-            ;(newLoadout[section] as any) = null
-          }
-          return newLoadout
-        })
+        dispatchLoadout({ type: 'UNEQUIP', slot: { section: section as SlotSection, index } })
       }
     }
 
@@ -1491,8 +1312,9 @@ function App() {
           if (el) slotRefs.current.set(key, el)
           else slotRefs.current.delete(key)
         }}
-        className={`${className} ${dropClass} ${isActiveSlot ? 'active-slot' : ''}`}
+        className={`${className} ${dropClass} ${isActiveSlot ? 'active-slot' : ''} ${isHeldSource ? 'held-slot' : ''}`}
         style={{ position: 'relative' }}
+        {...getSlotA11yProps(slot, item)}
         onDragOver={(e) => {
           e.preventDefault()
           e.stopPropagation()
@@ -1514,7 +1336,9 @@ function App() {
             draggable={!isFixedSlot}
             onDragStart={(e) => handleDragStart(e, displayItem, section, index)}
             onDragEnd={handleDragEnd}
+            onContextMenu={(e) => handleItemContextMenu(e, displayItem)}
             onTouchStart={(e) => {
+              longPress.start(e, () => inspectItem(displayItem))
               // Check if touch started from middle 50% on touch devices
               const touch = e.touches[0]
               const rect = e.currentTarget.getBoundingClientRect()
@@ -1528,18 +1352,21 @@ function App() {
               }
               handleTouchStart(e, displayItem, section, index)
             }}
-            onTouchMove={handleTouchMove}
-            onTouchEnd={(e) => handleTouchEnd(e, handleTouchSlotDrop, handleTouchInventoryDrop)}
+            onTouchMove={(e) => {
+              longPress.move(e)
+              handleTouchMove(e)
+            }}
+            onTouchEnd={(e) => {
+              longPress.cancel()
+              handleTouchEnd(e, handleTouchSlotDrop, handleTouchInventoryDrop)
+            }}
             onMouseEnter={(e) => {
               if (draggedItem) return
               initialTooltipPos.current = { x: e.clientX, y: e.clientY }
               setHoveredItem(displayItem)
             }}
             onMouseMove={(e) => {
-              if (tooltipRef.current) {
-                tooltipRef.current.style.left = `${e.clientX + 15}px`
-                tooltipRef.current.style.top = `${e.clientY + 15}px`
-              }
+              if (tooltipRef.current) positionTooltip(tooltipRef.current, e.clientX, e.clientY)
             }}
             onMouseLeave={() => setHoveredItem(null)}
           >
@@ -1556,7 +1383,7 @@ function App() {
                   <input
                     className="slot-count-input"
                     value={displayItem.count ?? ''}
-                    onChange={(e) => handleCountChange(e, displayItem)}
+                    onChange={(e) => handleCountChange(e)}
                     onBlur={handleCountBlur}
                     onClick={(e) => e.stopPropagation()}
                     onMouseDown={(e) => e.stopPropagation()}
@@ -1570,8 +1397,12 @@ function App() {
                      {(displayItem.supportedModifications && displayItem.supportedModifications.length > 0) ? (
                          displayItem.supportedModifications.map((modType, mIdx) => {
                          const modItem = displayItem.modifications?.[mIdx]
-                         const isModActive = activeSlot?.section === section && activeSlot?.index === index && activeSlot?.modIndex === mIdx
-                         const isModValid = isDragging ? canEquip(draggedItem!, section, index, mIdx) : true
+                         const modSlot: SlotRef = { section: section as SlotSection, index, modIndex: mIdx }
+                         const isModActive =
+                           (activeSlot?.section === section && activeSlot?.index === index && activeSlot?.modIndex === mIdx) ||
+                           (!!keyboardEquip.heldItem && focusedSlotKey === getSlotKey(modSlot))
+                         const modRejection = isDragging ? getRejection(movingItem!, section, index, mIdx) : null
+                         const isModValid = !modRejection
                          const modDropClass = isDragging ? (isModValid ? 'valid-drop-target' : 'invalid-drop-target') : ''
                          
                          return (
@@ -1583,6 +1414,7 @@ function App() {
                                   else slotRefs.current.delete(key)
                                 }}
                                 className={`mod-slot ${isModActive ? 'active-slot' : ''} ${modDropClass}`}
+                                {...getSlotA11yProps(modSlot, modItem ?? null)}
                                 onDragOver={(e) => {
                                     e.preventDefault()
                                     e.stopPropagation()
@@ -1600,7 +1432,7 @@ function App() {
                                     e.stopPropagation()
                                     handleSlotClick(e, section, index, mIdx)
                                 }}
-                                title={modType}
+                                title={modRejection || modType}
                              >
                                 {modItem ? (
                                     <div 
@@ -1611,13 +1443,20 @@ function App() {
                                             handleDragStart(e, modItem, section, index, mIdx)
                                         }}
                                         onDragEnd={handleDragEnd}
+                                        onContextMenu={(e) => handleItemContextMenu(e, modItem)}
                                         onTouchStart={(e) => {
                                             e.stopPropagation()
+                                            longPress.start(e, () => inspectItem(modItem))
                                             handleTouchStart(e, modItem, section, index, mIdx)
                                         }}
-                                        onTouchMove={handleTouchMove}
+                                        onTouchMove={(e) => {
+                                            e.stopPropagation()
+                                            longPress.move(e)
+                                            handleTouchMove(e)
+                                        }}
                                         onTouchEnd={(e) => {
                                             e.stopPropagation()
+                                            longPress.cancel()
                                             handleTouchEnd(e, handleTouchSlotDrop, handleTouchInventoryDrop)
                                         }}
                                         onMouseEnter={(e) => {
@@ -1660,6 +1499,7 @@ function App() {
         {isDragging && !isValid && (
           <div className="slot-invalid-overlay">
             <svg xmlns="http://www.w3.org/2000/svg" height="48px" viewBox="0 0 24 24" width="48px" fill="#ff6347"><path d="M0 0h24v24H0z" fill="none"/><path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm0 18c-4.42 0-8-3.58-8-8 0-1.85.63-3.55 1.69-4.9L16.9 18.31C15.55 19.37 13.85 20 12 20zm6.31-3.1L7.1 5.69C8.45 4.63 10.15 4 12 4c4.42 0 8 3.58 8 8 0 1.85-.63 3.55-1.69 4.9z"/></svg>
+            {isActiveSlot && <span className="slot-invalid-reason">{rejection}</span>}
           </div>
         )}
       </div>
@@ -1681,6 +1521,29 @@ function App() {
     }
   }
 
+  const renderMobileLootItem = (item: { id: string; name: string; icon: string; isImage: boolean }, countLabel: string, detail?: string) => (
+    <div key={item.id} className="mobile-loot-item">
+      <span className="mobile-loot-count">{countLabel}</span>
+      <div className="mobile-loot-icon">
+        {item.isImage ? <img src={item.icon} alt={item.name} /> : item.icon}
+      </div>
+      <span className="mobile-loot-name">{item.name}</span>
+      {detail && <span className="mobile-loot-detail">{detail}</span>}
+    </div>
+  )
+
+  const renderMobileRecyclePlan = ({ steps, uncovered, leftovers }: RecyclePlan) => (
+    <>
+      {steps.map((step) =>
+        renderMobileLootItem(step, `${step.count}`, step.yields.map((material) => `${material.count} ${material.name}`).join(', '))
+      )}
+      {uncovered.length > 0 && <h2 className="mobile-loot-section-title">Not from recycling</h2>}
+      {uncovered.map((item) => renderMobileLootItem(item, `${item.count}`))}
+      {leftovers.length > 0 && <h2 className="mobile-loot-section-title">Leftovers</h2>}
+      {leftovers.map((item) => renderMobileLootItem(item, `+${item.count}`))}
+    </>
+  )
+
   if (mobileLootData) {
     return (
       <div className="mobile-loot-container">
@@ -1695,15 +1558,21 @@ function App() {
           </button>
         </div>
         <div className="mobile-loot-list">
-          {(showRecycleList ? getRecycleList(mobileLootData) : mobileLootData).map((item) => (
-            <div key={item.id} className="mobile-loot-item">
-              {!showRecycleList && <span className="mobile-loot-count">{item.count}</span>}
-              <div className="mobile-loot-icon">
-                {item.isImage ? <img src={item.icon} alt={item.name} /> : item.icon}
-              </div>
-              <span className="mobile-loot-name">{item.name}</span>
-            </div>
-          ))}
+          {showRecycleList ? (
+            // Whatever is already collected no longer needs recycling for
+            renderMobileRecyclePlan(
+              getRecyclePlan(
+                mobileLootData.map((item) => ({ ...item, owned: Math.min(lootChecklist.collected[item.id] || 0, item.count) }))
+              )
+            )
+          ) : (
+            <LootChecklist
+              items={mobileLootData}
+              collected={lootChecklist.collected}
+              onCollectedChange={lootChecklist.setCollected}
+              onReset={lootChecklist.resetProgress}
+            />
+          )}
         </div>
         <button className="mobile-home-btn" onClick={() => window.location.href = '/'}>
           Create Your Own Loadout
@@ -1714,6 +1583,13 @@ function App() {
 
   return (
     <>
+      <UnresolvedItemsNotice itemIds={unresolvedItems} onDismiss={() => setUnresolvedItems([])} />
+      <LoadoutValidationPanel
+        issues={loadoutIssues}
+        onFix={(issue) => setLoadout((prev) => fixLoadoutIssue(prev, issue))}
+        onFixAll={() => setLoadout(fixAllLoadoutIssues)}
+        onDismiss={() => setShowValidation(false)}
+      />
       <div
         className="app-container"
         onDragOver={handleDragOver}
@@ -1736,25 +1612,53 @@ function App() {
           getRarityClass={getRarityClass}
           activeFilter={activeFilter}
           search={search}
+          searchVocabulary={searchVocabulary}
           onSearchChange={setSearch}
           onFilterChange={setActiveFilter}
           isDragging={!!draggedItem}
+          dataFetchedAt={dataFetchedAt}
+          isDataStale={isDataStale}
+          onOpenItemSource={() => setShowItemSource(true)}
+          onItemPickUp={(item) => keyboardEquip.pickUp(item, null)}
+          onItemQuickEquip={handleQuickEquip}
+          onItemInspect={inspectItem}
+          onCancelPickUp={keyboardEquip.cancel}
+          heldItemId={keyboardEquip.heldItem && !keyboardEquip.heldItem.from ? keyboardEquip.heldItem.item.id : null}
         />
         <LoadoutPanel
           loadout={loadout}
-          onTitleChange={(title) => setLoadout((prev) => ({ ...prev, title }))}
+          onTitleChange={(title) => setLoadout((prev) => ({ ...prev, title }), 'title')}
           onLoadoutPanelDragOver={handleLoadoutPanelDragOver}
           onLoadoutPanelDrop={handleLoadoutPanelDrop}
           onShowLootTable={() => setShowLootTable(true)}
           onShare={handleShare}
           onReset={handleReset}
+          onUndo={undoLoadout}
+          onRedo={redoLoadout}
+          canUndo={canUndo}
+          canRedo={canRedo}
+          libraryMenu={
+            <LoadoutLibraryMenu
+              loadouts={loadoutLibrary.loadouts.map((saved) => ({ id: saved.id, name: getLoadoutName(saved) }))}
+              activeId={loadoutLibrary.activeId}
+              onSelect={handleSelectLoadout}
+              onCreate={handleCreateLoadout}
+              onDuplicate={handleDuplicateLoadout}
+              onRename={handleRenameLoadout}
+              onDelete={handleDeleteLoadout}
+              onCompare={() => setShowCompare(true)}
+            />
+          }
           isDragging={!!draggedItem}
         >
-          <EquipmentSection renderSlot={renderSlot} />
+          <EquipmentSection renderSlot={renderSlot} weaponAmmo={weaponAmmo} />
           <div className={`column-middle ${!!draggedItem ? 'dragging' : ''}`}>
             {loadout.backpack.length > 0 && (
               <>
-                <h3 className="section-title">BACKPACK</h3>
+                <div className="section-header">
+                  <h3 className="section-title">BACKPACK</h3>
+                  {renderSortControl('backpack')}
+                </div>
                 <div className="backpack-grid">
                   {loadout.backpack.map((_, i) => (
                     <div key={i}>{renderSlot('backpack', i, 'grid-item')}</div>
@@ -1765,7 +1669,10 @@ function App() {
           </div>
           <div className={`column-right ${!!draggedItem ? 'dragging' : ''}`}>
             <div className="sub-section">
-              <h3 className="section-title">QUICK USE</h3>
+              <div className="section-header">
+                <h3 className="section-title">QUICK USE</h3>
+                {renderSortControl('quickUse')}
+              </div>
               <div className="quick-use-grid">
                 {loadout.quickUse.map((_, i) => (
                   <div key={i}>{renderSlot('quickUse', i, 'grid-item')}</div>
@@ -1784,7 +1691,10 @@ function App() {
                 ))}
               </div>
 
-              <h3 className="section-title" style={{ display: loadout.safePocket.length > 0 ? 'block' : 'none' }}>SAFE POCKET</h3>
+              <div className="section-header" style={{ display: loadout.safePocket.length > 0 ? 'flex' : 'none' }}>
+                <h3 className="section-title">SAFE POCKET</h3>
+                {renderSortControl('safePocket')}
+              </div>
               <div className="safe-pocket-grid" style={{ display: loadout.safePocket.length > 0 ? 'grid' : 'none' }}>
                 {loadout.safePocket.map((_, i) => (
                   <div key={i}>{renderSlot('safePocket', i, 'grid-item')}</div>
@@ -1821,33 +1731,122 @@ function App() {
               </div>
             )}
           </div>
+          {dropRejection && (
+            <div className="item-tooltip drag-rejection-tooltip" role="status">
+              {dropRejection}
+            </div>
+          )}
         </div>
       )}
 
       {hoveredItem && !draggedItem && (
         <div
           ref={tooltipRef}
-          className="item-tooltip"
+          className="item-tooltip item-detail-tooltip"
           style={{
             left: initialTooltipPos.current.x + 15,
             top: initialTooltipPos.current.y + 15,
           }}
         >
-          {hoveredItem.name}
+          <ItemDetailCard item={hoveredItem} allItemData={allItemData} />
+          <div className="item-detail-hint">Right-click: where used / where from</div>
         </div>
       )}
 
+      {inspectedItem && (
+        <ItemDetailSheet
+          item={inspectedItem}
+          allItemData={allItemData}
+          onLookup={() => {
+            setInspectedItem(null)
+            setLookupItemId(inspectedItem.id)
+          }}
+          onClose={() => setInspectedItem(null)}
+        />
+      )}
+
       {showLootTable && (
         <LootTableModal
           lootTable={getLootTable()}
-          recycleList={getRecycleList()}
+          craftSteps={breakDownToRaw ? toCraftSteps(getLootRequirements().crafts, allItemData) : []}
+          breakDownToRaw={breakDownToRaw}
+          onToggleBreakDown={() => setBreakDownToRaw((prev) => !prev)}
+          stash={stash}
+          onStashChange={setStashCount}
+          onOpenStash={() => setShowStash(true)}
+          raids={raids}
+          onRaidsChange={setRaids}
+          keptSections={keptSections}
+          onToggleKeptSection={toggleKeptSection}
+          upgradePlans={getUpgradePlans(loadout, allItemData, currentTiers)}
+          onCurrentTierChange={setCurrentTier}
+          recyclePlan={getRecyclePlan()}
           showRecycleList={showRecycleList}
           onToggleRecycleList={() => setShowRecycleList(!showRecycleList)}
           onShareLootList={handleShareLootList}
+          onExportLootList={handleExportLootList}
+          onLookupItem={setLookupItemId}
           onClose={() => setShowLootTable(false)}
         />
       )}
 
+      {showCompare && (
+        <LoadoutCompareModal
+          loadouts={loadoutLibrary.loadouts.map((saved) => ({ id: saved.id, name: getLoadoutName(saved) }))}
+          initialLeftId={loadoutLibrary.activeId}
+          onResolve={resolveCompareLoadout}
+          onClose={() => setShowCompare(false)}
+        />
+      )}
+
+      {showStash && (
+        <StashModal
+          allItemData={allItemData}
+          stash={stash}
+          onStashChange={setStashCount}
+          onClearStash={clearStash}
+          onClose={() => setShowStash(false)}
+        />
+      )}
+
+      {showItemSource && (
+        <ItemSourceModal
+          currentSourceId={itemDataProvider.id}
+          currentSourceLabel={itemDataProvider.label}
+          onSelectSource={handleItemSourceChange}
+          onSelectFiles={handleItemFilesSelected}
+          diagnosticCount={itemDiagnostics?.length ?? null}
+          onShowDiagnostics={() => {
+            setShowItemSource(false)
+            setShowItemDiagnostics(true)
+          }}
+          onClose={() => setShowItemSource(false)}
+        />
+      )}
+
+      {showItemDiagnostics && itemDiagnostics && (
+        <ItemDiagnosticsModal diagnostics={itemDiagnostics} onClose={() => setShowItemDiagnostics(false)} />
+      )}
+
+      {lookupItemId && (
+        <ItemLookupModal
+          key={lookupItemId}
+          itemId={lookupItemId}
+          allItemData={allItemData}
+          reverseIndex={reverseIndex}
+          onClose={() => setLookupItemId(null)}
+        />
+      )}
+
+      {equipNotice && (
+        // Announced through the live region below, so hidden from screen readers here
+        <div className="equip-notice" aria-hidden="true" onClick={() => setEquipNotice(null)}>
+          {equipNotice}
+        </div>
+      )}
+      <div className="sr-only" role="status" aria-live="polite">
+        {keyboardEquip.announcement}
+      </div>
       <SpeedInsights />
     </>
   )
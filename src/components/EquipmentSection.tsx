@@ -22,11 +22,33 @@ interface LoadoutState {
   safePocket: (Item | null)[]
 }
 
+interface WeaponAmmo {
+  ammoType: string
+  label: string
+  rounds: number
+}
+
 interface EquipmentSectionProps {
   renderSlot: (section: keyof LoadoutState, index: number, className: string) => JSX.Element
+  weaponAmmo?: (WeaponAmmo | null)[]
 }
 
-export function EquipmentSection({ renderSlot }: EquipmentSectionProps) {
+export function EquipmentSection({ renderSlot, weaponAmmo = [] }: EquipmentSectionProps) {
+  const renderWeapon = (index: number) => {
+    const ammo = weaponAmmo[index]
+    const isMissingAmmo = !!ammo && ammo.rounds === 0
+    return (
+      <div className="weapon-slot-group">
+        {renderSlot('weapons', index, isMissingAmmo ? 'weapon-slot missing-ammo' : 'weapon-slot')}
+        {ammo && (
+          <div className={`weapon-ammo ${isMissingAmmo ? 'missing' : ''}`}>
+            {isMissingAmmo ? `No ${ammo.label} carried` : `${ammo.label}: ${ammo.rounds} rounds`}
+          </div>
+        )}
+      </div>
+    )
+  }
+
   return (
     <div className="column-left">
       <h3 className="section-title">EQUIPMENT</h3>
@@ -36,8 +58,8 @@ export function EquipmentSection({ renderSlot }: EquipmentSectionProps) {
           {renderSlot('shield', -1, 'shield-slot')}
         </div>
         <div className="weapons-section">
-          {renderSlot('weapons', 0, 'weapon-slot')}
-          {renderSlot('weapons', 1, 'weapon-slot')}
+          {renderWeapon(0)}
+          {renderWeapon(1)}
         </div>
       </div>
     </div>
@@ -1,5 +1,9 @@
-import { DragEvent, TouchEvent } from 'react'
+import { DragEvent, KeyboardEvent, TouchEvent, useRef, useState } from 'react'
+import { useLongPress } from '../hooks/useLongPress'
 import { useDeviceDetection } from '../hooks/useDeviceDetection'
+import { formatDataTimestamp } from '../utils/itemCache'
+import { SearchVocabulary } from '../utils/searchQuery'
+import { SearchQueryInput } from './SearchQueryInput'
 
 interface Item {
   id: string
@@ -25,9 +29,21 @@ interface InventoryPanelProps {
   getRarityClass: (rarity: string) => string
   activeFilter: string
   search: string
+  // Values offered by the search autocomplete
+  searchVocabulary?: SearchVocabulary
   onSearchChange: (value: string) => void
   onFilterChange: (filter: string) => void
   isDragging?: boolean
+  dataFetchedAt?: number | null
+  isDataStale?: boolean
+  onOpenItemSource?: () => void
+  // Keyboard equipping: Enter picks an item up. Double-click, tap or B sends it straight to its best slot.
+  onItemPickUp?: (item: Item) => void
+  onItemQuickEquip?: (item: Item) => void
+  onCancelPickUp?: () => void
+  heldItemId?: string | null
+  // Long press or I opens the item's details
+  onItemInspect?: (item: Item) => void
 }
 
 const FILTER_BUTTONS = [
@@ -41,6 +57,12 @@ const FILTER_BUTTONS = [
   { key: 'Key', emoji: '🔑', title: 'Keys' },
 ]
 
+const EMPTY_VOCABULARY: SearchVocabulary = { rarities: [], categories: [], materials: [] }
+
+// A touch shorter and stiller than this equips instead of dragging or scrolling
+const TAP_MAX_MOVE = 10 // px
+const TAP_MAX_DURATION = 300 // ms
+
 export function InventoryPanel({
   filteredItems,
   selectedVariantMap,
@@ -55,16 +77,116 @@ export function InventoryPanel({
   getRarityClass,
   activeFilter,
   search,
+  searchVocabulary = EMPTY_VOCABULARY,
   onSearchChange,
   onFilterChange,
   isDragging = false,
+  dataFetchedAt = null,
+  isDataStale = false,
+  onOpenItemSource,
+  onItemPickUp,
+  onItemQuickEquip,
+  onCancelPickUp,
+  heldItemId = null,
+  onItemInspect,
 }: InventoryPanelProps) {
   const { isTablet, isTouchDevice } = useDeviceDetection()
+  // Roving tab stop: one row is tabbable, the arrow keys move between rows
+  const [focusedIndex, setFocusedIndex] = useState(0)
+  const listRef = useRef<HTMLDivElement>(null)
+  const tapStart = useRef<{ x: number; y: number; time: number } | null>(null)
+  const longPress = useLongPress()
+  const tabIndexRow = Math.min(focusedIndex, Math.max(0, filteredItems.length - 1))
+
+  const focusRow = (index: number) => {
+    const rows = listRef.current?.querySelectorAll<HTMLElement>('.inventory-item-row')
+    if (!rows || rows.length === 0) return
+    const clamped = Math.max(0, Math.min(index, rows.length - 1))
+    setFocusedIndex(clamped)
+    rows[clamped].focus()
+  }
+
+  // A short touch that barely moved, away from the tier buttons
+  const isTap = (e: TouchEvent) => {
+    const start = tapStart.current
+    tapStart.current = null
+    if (!start || (e.target as HTMLElement).closest('button')) return false
+    const touch = e.changedTouches[0]
+    const moved = Math.abs(touch.clientX - start.x) + Math.abs(touch.clientY - start.y)
+    return moved < TAP_MAX_MOVE && Date.now() - start.time < TAP_MAX_DURATION
+  }
+
+  const handleRowKeyDown = (e: KeyboardEvent, index: number, item: Item, activeItem: Item) => {
+    if (e.target !== e.currentTarget) return
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        focusRow(index + 1)
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        focusRow(index - 1)
+        break
+      case 'Home':
+        e.preventDefault()
+        focusRow(0)
+        break
+      case 'End':
+        e.preventDefault()
+        focusRow(filteredItems.length - 1)
+        break
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        // Step through tiers
+        if (!item.variants || item.variants.length < 2) break
+        e.preventDefault()
+        const current = item.variants.findIndex((v) => v.id === activeItem.id)
+        const next = Math.max(0, Math.min(item.variants.length - 1, current + (e.key === 'ArrowRight' ? 1 : -1)))
+        onVariantSelect(item.id, item.variants[next].id)
+        break
+      }
+      case 'Enter':
+      case ' ':
+        e.preventDefault()
+        onItemPickUp?.(activeItem)
+        break
+      case 'b':
+      case 'B':
+        e.preventDefault()
+        onItemQuickEquip?.(activeItem)
+        break
+      case 'i':
+      case 'I':
+        e.preventDefault()
+        onItemInspect?.(activeItem)
+        break
+      case 'Escape':
+        onCancelPickUp?.()
+        break
+    }
+  }
   
   return (
     <div className="box inventory-panel">
       <div className="panel-title-row">
         <h1 className="panel-title">INVENTORY</h1>
+        {dataFetchedAt !== null && (
+          <span
+            className={`data-timestamp ${isDataStale ? 'stale' : ''}`}
+            title={isDataStale ? 'Item data could not be refreshed, showing cached data' : 'Item data last refreshed'}
+          >
+            Data as of {formatDataTimestamp(dataFetchedAt)}
+            {isDataStale && ' (offline)'}
+          </span>
+        )}
+        {onOpenItemSource && (
+          <button className="icon-btn" onClick={onOpenItemSource} title="Item Data Source">
+            <svg xmlns="http://www.w3.org/2000/svg" height="20px" viewBox="0 0 24 24" width="20px" fill="currentColor">
+              <path d="M0 0h24v24H0z" fill="none" />
+              <path d="M12 3C7.58 3 4 4.79 4 7v10c0 2.21 3.59 4 8 4s8-1.79 8-4V7c0-2.21-3.58-4-8-4zm0 2c3.87 0 6 1.5 6 2s-2.13 2-6 2-6-1.5-6-2 2.13-2 6-2zm6 12c0 .5-2.13 2-6 2s-6-1.5-6-2v-2.23c1.61.78 3.72 1.23 6 1.23s4.39-.45 6-1.23V17zm0-5c0 .5-2.13 2-6 2s-6-1.5-6-2V9.77C7.61 10.55 9.72 11 12 11s4.39-.45 6-1.23V12z" />
+            </svg>
+          </button>
+        )}
       </div>
       <div className="inventory-content">
         <div className="inventory-sidebar">
@@ -84,18 +206,21 @@ export function InventoryPanel({
           onDrop={onDrop}
           onDragOver={onDragOver}
         >
-          <input
-            type="text"
-            className="inventory-search-bar"
+          <SearchQueryInput
             placeholder="Search items..."
             value={search}
-            onChange={(e) => {
-              onSearchChange(e.target.value)
-              if (e.target.value) onFilterChange('all')
+            vocabulary={searchVocabulary}
+            onChange={(value) => {
+              onSearchChange(value)
+              if (value) onFilterChange('all')
             }}
           />
-          <div className={`inventory-list ${isDragging ? 'dragging' : ''}`}>
-            {filteredItems.map((item) => {
+          <p id="inventory-keyboard-help" className="sr-only">
+            Enter picks an item up to place in a slot. B, a double-click or a tap equips it in the best free slot. I shows
+            its details.
+          </p>
+          <div ref={listRef} className={`inventory-list ${isDragging ? 'dragging' : ''}`}>
+            {filteredItems.map((item, index) => {
               const selectedId = selectedVariantMap[item.id]
               const activeItem =
                 selectedId && item.variants
@@ -105,7 +230,12 @@ export function InventoryPanel({
               return (
                 <div
                   key={item.id}
-                  className={`inventory-item-row ${getRarityClass(activeItem.rarity)}`}
+                  className={`inventory-item-row ${getRarityClass(activeItem.rarity)} ${heldItemId === activeItem.id ? 'held' : ''}`}
+                  tabIndex={index === tabIndexRow ? 0 : -1}
+                  aria-label={activeItem.name}
+                  aria-describedby="inventory-keyboard-help"
+                  onFocus={(e) => e.target === e.currentTarget && setFocusedIndex(index)}
+                  onKeyDown={(e) => handleRowKeyDown(e, index, item, activeItem)}
                   draggable
                   onDragStart={(e) => {
                     // Check if drag started from left half on touch devices
@@ -118,9 +248,12 @@ export function InventoryPanel({
                     onDragStart(e, activeItem, 'inventory')
                   }}
                   onDragEnd={onDragEnd}
+                  onDoubleClick={() => onItemQuickEquip?.(activeItem)}
                   onTouchStart={(e) => {
                     // Only allow dragging from middle 10-60% range
                     const touch = e.touches[0]
+                    tapStart.current = { x: touch.clientX, y: touch.clientY, time: Date.now() }
+                    if (onItemInspect) longPress.start(e, () => onItemInspect(activeItem))
                     const rect = e.currentTarget.getBoundingClientRect()
                     const x = touch.clientX - rect.left
                     if (x < rect.width * 0.1 || x > rect.width * 0.6) {
@@ -129,8 +262,18 @@ export function InventoryPanel({
                     }
                     onTouchStart(e, activeItem, 'inventory')
                   }}
-                  onTouchMove={onTouchMove}
-                  onTouchEnd={(e) => onTouchEnd(e)}
+                  onTouchMove={(e) => {
+                    longPress.move(e)
+                    onTouchMove(e)
+                  }}
+                  onTouchEnd={(e) => {
+                    longPress.cancel()
+                    onTouchEnd(e)
+                    if (onItemQuickEquip && isTap(e)) {
+                      e.preventDefault() // No emulated clicks after the tap
+                      onItemQuickEquip(activeItem)
+                    }
+                  }}
                 >
                   <div className="item-drag-zone">
                     <div className="item-icon-placeholder">
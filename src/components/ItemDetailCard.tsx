@@ -0,0 +1,116 @@
+import { getItemDetails } from '../utils/itemDetails'
+import { LootItem } from '../utils/lootTable'
+
+interface Item {
+  id: string
+  name: string
+  category: string[]
+  rarity: string
+  icon: string
+  isImage: boolean
+  recipe?: Record<string, number>
+  recyclesInto?: Record<string, number>
+  craftQuantity?: number
+  stackSize?: number
+  count?: number
+  shieldCompatibility?: string[]
+  slots?: Record<string, number>
+  supportedModifications?: string[]
+  modifications?: (Item | null)[]
+}
+
+interface ItemDetailCardProps {
+  item: Item
+  allItemData: Record<string, Item>
+  // Opens the where used / where from explorer; the hover tooltip can't take clicks so leaves it out
+  onLookup?: () => void
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1)
+
+// Everything known about an item: used in the hover tooltip and the long-press sheet
+export function ItemDetailCard({ item, allItemData, onLookup }: ItemDetailCardProps) {
+  const details = getItemDetails(item, allItemData)
+
+  const renderMaterials = (title: string, materials: LootItem[]) => (
+    <div className="item-detail-section">
+      <span className="item-detail-label">{title}</span>
+      <ul className="item-detail-materials">
+        {materials.map((material) => (
+          <li key={material.id} className="item-detail-material">
+            <span className="item-detail-material-icon">
+              {material.isImage ? <img src={material.icon} alt="" /> : material.icon}
+            </span>
+            <span className="item-detail-material-name">{material.name}</span>
+            <span className="item-detail-material-count">×{material.count}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+
+  return (
+    <div className="item-detail-card">
+      <div className="item-detail-header">
+        <div className="item-detail-icon">{item.isImage ? <img src={item.icon} alt="" /> : item.icon}</div>
+        <div className="item-detail-heading">
+          <span className="item-detail-name">{item.name}</span>
+          <span className="item-detail-rarity" data-rarity={item.rarity}>
+            {item.rarity}
+          </span>
+        </div>
+      </div>
+
+      <div className="item-detail-categories">{item.category.join(' · ')}</div>
+
+      {item.stackSize && (
+        <div className="item-detail-row">
+          <span className="item-detail-label">Stack size</span>
+          <span>{item.stackSize}</span>
+        </div>
+      )}
+
+      {details.modSlots.length > 0 && (
+        <div className="item-detail-section">
+          <span className="item-detail-label">Modification slots</span>
+          <ul className="item-detail-tags">
+            {details.modSlots.map((slot, i) => (
+              <li key={i} className={`item-detail-tag ${slot.equipped ? 'filled' : ''}`}>
+                {slot.equipped ? `${slot.type}: ${slot.equipped}` : slot.type}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {details.shieldTypes.length > 0 && (
+        <div className="item-detail-row">
+          <span className="item-detail-label">Shields</span>
+          <span>{details.shieldTypes.map(capitalize).join(', ')}</span>
+        </div>
+      )}
+
+      {details.grantedSlots.length > 0 && (
+        <div className="item-detail-section">
+          <span className="item-detail-label">Slots</span>
+          <ul className="item-detail-tags">
+            {details.grantedSlots.map(({ label, count }) => (
+              <li key={label} className="item-detail-tag">
+                {label} ×{count}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {details.recipe.length > 0 &&
+        renderMaterials(item.craftQuantity && item.craftQuantity > 1 ? `Recipe (makes ${item.craftQuantity})` : 'Recipe', details.recipe)}
+      {details.recyclesInto.length > 0 && renderMaterials('Recycles into', details.recyclesInto)}
+      {onLookup && (
+        <button className="small-btn item-detail-lookup" onClick={onLookup}>
+          Where used / where from
+        </button>
+      )}
+    </div>
+  )
+}
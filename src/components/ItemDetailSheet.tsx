@@ -0,0 +1,27 @@
+import { ComponentProps } from 'react'
+import { ItemDetailCard } from './ItemDetailCard'
+
+interface ItemDetailSheetProps extends ComponentProps<typeof ItemDetailCard> {
+  onClose: () => void
+}
+
+// Bottom sheet with the item detail card, opened by a long press on touch devices
+export function ItemDetailSheet({ item, allItemData, onLookup, onClose }: ItemDetailSheetProps) {
+  return (
+    <div className="item-sheet-overlay" onClick={onClose}>
+      <div
+        className="item-sheet"
+        role="dialog"
+        aria-modal="true"
+        aria-label={`${item.name} details`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="item-sheet-handle" />
+        <button className="close-btn" onClick={onClose} title="Close" autoFocus>
+          ×
+        </button>
+        <ItemDetailCard item={item} allItemData={allItemData} onLookup={onLookup} />
+      </div>
+    </div>
+  )
+}
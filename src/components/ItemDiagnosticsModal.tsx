@@ -0,0 +1,74 @@
+import { useState } from 'react'
+
+interface ItemDiagnostic {
+  fileName: string
+  itemId: string
+  severity: 'error' | 'warning'
+  code: string
+  message: string
+}
+
+interface ItemDiagnosticsModalProps {
+  diagnostics: ItemDiagnostic[]
+  onClose: () => void
+}
+
+type SeverityFilter = 'all' | 'error' | 'warning'
+
+export function ItemDiagnosticsModal({ diagnostics, onClose }: ItemDiagnosticsModalProps) {
+  const [filter, setFilter] = useState<SeverityFilter>('all')
+
+  const errorCount = diagnostics.filter((d) => d.severity === 'error').length
+  const warningCount = diagnostics.length - errorCount
+  const visible = filter === 'all' ? diagnostics : diagnostics.filter((d) => d.severity === filter)
+
+  const byFile = new Map<string, ItemDiagnostic[]>()
+  visible.forEach((diagnostic) => {
+    const list = byFile.get(diagnostic.fileName) || []
+    list.push(diagnostic)
+    byFile.set(diagnostic.fileName, list)
+  })
+
+  return (
+    <div className="loot-overlay" onClick={onClose}>
+      <div className="loot-modal diagnostics-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="loot-header">
+          <h3 className="loot-title">ITEM DATA DIAGNOSTICS</h3>
+          <button className="close-btn" onClick={onClose}>
+            ×
+          </button>
+        </div>
+        <div className="diagnostics-summary">
+          <span>
+            {errorCount} errors, {warningCount} warnings
+          </span>
+          <div className="diagnostics-filters">
+            {(['all', 'error', 'warning'] as SeverityFilter[]).map((key) => (
+              <button key={key} className={`small-btn ${filter === key ? 'active' : ''}`} onClick={() => setFilter(key)}>
+                {key === 'all' ? 'All' : key === 'error' ? 'Errors' : 'Warnings'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="loot-list">
+          {[...byFile.entries()].map(([fileName, fileDiagnostics]) => (
+            <div key={fileName} className="diagnostics-file">
+              <div className="diagnostics-file-name">{fileName}</div>
+              {fileDiagnostics.map((diagnostic, i) => (
+                <div key={i} className={`diagnostics-entry ${diagnostic.severity}`}>
+                  <span className="diagnostics-code">{diagnostic.code}</span>
+                  <span>{diagnostic.message}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+          {visible.length === 0 && (
+            <div style={{ padding: '20px', textAlign: 'center', color: '#888' }}>
+              No problems found
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+import { useState } from 'react'
+import { lookupItem, ReverseIndex } from '../utils/itemLookup'
+import { LootItem } from '../utils/lootTable'
+
+interface Item {
+  id: string
+  name: string
+  icon: string
+  isImage: boolean
+  recipe?: Record<string, number>
+  recyclesInto?: Record<string, number>
+}
+
+interface ItemLookupModalProps {
+  itemId: string
+  allItemData: Record<string, Item>
+  reverseIndex: ReverseIndex
+  onClose: () => void
+}
+
+// "Where used / where from" explorer. Every listed item can be opened in turn; Back retraces the path.
+export function ItemLookupModal({ itemId, allItemData, reverseIndex, onClose }: ItemLookupModalProps) {
+  const [trail, setTrail] = useState([itemId])
+  const currentId = trail[trail.length - 1]
+  const current = allItemData[currentId]
+  const lookup = lookupItem(currentId, allItemData, reverseIndex)
+
+  const renderSection = (title: string, items: LootItem[]) =>
+    items.length > 0 && (
+      <>
+        <h4 className="loot-section-title">{title}</h4>
+        {items.map((item) => (
+          <button key={item.id} className="stash-search-result item-lookup-entry" onClick={() => setTrail((prev) => [...prev, item.id])}>
+            <span className="loot-count">{item.count}</span>
+            <div className="loot-icon">{item.isImage ? <img src={item.icon} alt={item.name} /> : item.icon}</div>
+            <span className="loot-name">{item.name}</span>
+          </button>
+        ))}
+      </>
+    )
+
+  const isEmpty = Object.values(lookup).every((items) => items.length === 0)
+
+  return (
+    <div className="loot-overlay" onClick={onClose}>
+      <div
+        className="loot-modal"
+        role="dialog"
+        aria-label={`Where ${current?.name || currentId} is used and comes from`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="loot-header">
+          <h3 className="loot-title item-lookup-title">
+            {current && <span className="loot-icon">{current.isImage ? <img src={current.icon} alt="" /> : current.icon}</span>}
+            {(current?.name || currentId).toUpperCase()}
+          </h3>
+          <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+            {trail.length > 1 && (
+              <button className="small-btn" onClick={() => setTrail((prev) => prev.slice(0, -1))}>
+                Back
+              </button>
+            )}
+            <button className="close-btn" onClick={onClose} title="Close">
+              ×
+            </button>
+          </div>
+        </div>
+        <div className="loot-list">
+          {renderSection('USED IN', lookup.usedIn)}
+          {renderSection('RECYCLED FROM', lookup.recycledFrom)}
+          {renderSection('CRAFTED FROM', lookup.recipe)}
+          {renderSection('RECYCLES INTO', lookup.recyclesInto)}
+          {isEmpty && (
+            <div style={{ padding: '20px', textAlign: 'center', color: '#888' }}>
+              Nothing uses, makes or recycles into this item
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
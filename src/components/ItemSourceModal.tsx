@@ -0,0 +1,102 @@
+import { useState } from 'react'
+
+interface ItemSourceModalProps {
+  currentSourceId: string
+  currentSourceLabel: string
+  onSelectSource: (spec: string) => void
+  onSelectFiles: (files: File[]) => void
+  diagnosticCount?: number | null
+  onShowDiagnostics?: () => void
+  onClose: () => void
+}
+
+const PRESET_SOURCES = [
+  { spec: 'github', id: 'github', title: 'GitHub (default)' },
+  { spec: 'snapshot', id: 'snapshot', title: 'Bundled snapshot' },
+]
+
+export function ItemSourceModal({
+  currentSourceId,
+  currentSourceLabel,
+  onSelectSource,
+  onSelectFiles,
+  diagnosticCount = null,
+  onShowDiagnostics,
+  onClose,
+}: ItemSourceModalProps) {
+  const [customSpec, setCustomSpec] = useState('')
+
+  const handleFiles = (fileList: FileList | null) => {
+    const files = fileList ? Array.from(fileList) : []
+    if (files.length > 0) onSelectFiles(files)
+  }
+
+  return (
+    <div className="loot-overlay" onClick={onClose}>
+      <div className="loot-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="loot-header">
+          <h3 className="loot-title">ITEM DATA SOURCE</h3>
+          <button className="close-btn" onClick={onClose}>
+            ×
+          </button>
+        </div>
+        <div className="item-source-body">
+          <div className="item-source-current">Current: {currentSourceLabel}</div>
+          <div className="item-source-presets">
+            {PRESET_SOURCES.map(({ spec, id, title }) => (
+              <button
+                key={spec}
+                className={`small-btn ${currentSourceId === id ? 'active' : ''}`}
+                onClick={() => onSelectSource(spec)}
+              >
+                {title}
+              </button>
+            ))}
+          </div>
+          <form
+            className="item-source-custom"
+            onSubmit={(e) => {
+              e.preventDefault()
+              if (customSpec.trim()) onSelectSource(customSpec.trim())
+            }}
+          >
+            <input
+              className="item-source-input"
+              value={customSpec}
+              onChange={(e) => setCustomSpec(e.target.value)}
+              placeholder="github:owner/repo or https://host/items"
+            />
+            <button type="submit" className="small-btn" disabled={!customSpec.trim()}>
+              Use
+            </button>
+          </form>
+          <label className="item-source-file">
+            Load JSON files or zip
+            <input
+              type="file"
+              accept=".json,.zip"
+              multiple
+              data-testid="item-source-files"
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+          </label>
+          <label className="item-source-file">
+            Load items folder
+            <input
+              type="file"
+              multiple
+              data-testid="item-source-directory"
+              {...{ webkitdirectory: '' }}
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+          </label>
+          {diagnosticCount !== null && onShowDiagnostics && (
+            <button className="small-btn" onClick={onShowDiagnostics}>
+              View data diagnostics ({diagnosticCount})
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,202 @@
+import { useMemo, useState } from 'react'
+import { compareLoadouts, getMaterialDelta, SlotComparison } from '../utils/loadoutCompare'
+import { SECTION_LABELS } from '../utils/slotRules'
+
+interface Item {
+  id: string
+  name: string
+  icon: string
+  isImage: boolean
+  count?: number
+  stackSize?: number
+  modifications?: (Item | null)[]
+}
+
+interface LoadoutState {
+  title: string
+  augment: Item | null
+  shield: Item | null
+  weapons: (Item | null)[]
+  backpack: (Item | null)[]
+  quickUse: (Item | null)[]
+  extra: (Item | null)[]
+  safePocket: (Item | null)[]
+}
+
+interface LootItem {
+  id: string
+  count: number
+  name: string
+  icon: string
+  isImage: boolean
+}
+
+interface ComparedLoadout {
+  loadout: LoadoutState
+  lootTable: LootItem[]
+}
+
+type CompareSource = { type: 'saved'; id: string } | { type: 'shared'; code: string }
+
+interface LoadoutCompareModalProps {
+  loadouts: { id: string; name: string }[]
+  initialLeftId: string
+  // Decodes the source; throws when a share code can't be read
+  onResolve: (source: CompareSource) => ComparedLoadout
+  onClose: () => void
+}
+
+const SHARED_OPTION = 'shared'
+
+interface SideState {
+  selected: string
+  sharedInput: string
+}
+
+const CHANGE_LABELS: Record<SlotComparison['change'], string> = {
+  same: '',
+  added: 'Added',
+  removed: 'Removed',
+  replaced: 'Replaced',
+  count: 'Count',
+  mods: 'Mods',
+}
+
+const resolveSide = (
+  side: SideState,
+  onResolve: LoadoutCompareModalProps['onResolve']
+): { result: ComparedLoadout | null; error: string | null } => {
+  if (side.selected !== SHARED_OPTION) return { result: onResolve({ type: 'saved', id: side.selected }), error: null }
+  if (!side.sharedInput.trim()) return { result: null, error: null }
+  try {
+    return { result: onResolve({ type: 'shared', code: side.sharedInput }), error: null }
+  } catch {
+    return { result: null, error: "Couldn't read that share link" }
+  }
+}
+
+export function LoadoutCompareModal({ loadouts, initialLeftId, onResolve, onClose }: LoadoutCompareModalProps) {
+  const [left, setLeft] = useState<SideState>({ selected: initialLeftId, sharedInput: '' })
+  const [right, setRight] = useState<SideState>(() => ({
+    selected: loadouts.find((saved) => saved.id !== initialLeftId)?.id ?? SHARED_OPTION,
+    sharedInput: '',
+  }))
+
+  // Decoded only when a side changes; a bad share link shows inline rather than logging on every render
+  const leftSide = useMemo(() => resolveSide(left, onResolve), [left, onResolve])
+  const rightSide = useMemo(() => resolveSide(right, onResolve), [right, onResolve])
+  const leftLoadout = leftSide.result
+  const rightLoadout = rightSide.result
+
+  const rows = leftLoadout && rightLoadout ? compareLoadouts(leftLoadout.loadout, rightLoadout.loadout) : []
+  const materials = leftLoadout && rightLoadout ? getMaterialDelta(leftLoadout.lootTable, rightLoadout.lootTable) : []
+  const changedRows = rows.filter((row) => row.change !== 'same')
+
+  const renderPicker = (label: string, side: SideState, setSide: (side: SideState) => void, error: string | null) => (
+    <div className="compare-picker">
+      <select
+        className="item-source-input"
+        aria-label={`${label} loadout`}
+        value={side.selected}
+        onChange={(e) => setSide({ ...side, selected: e.target.value })}
+      >
+        {loadouts.map(({ id, name }) => (
+          <option key={id} value={id}>
+            {name}
+          </option>
+        ))}
+        <option value={SHARED_OPTION}>Shared link...</option>
+      </select>
+      {side.selected === SHARED_OPTION && (
+        <input
+          className="item-source-input"
+          aria-label={`${label} share link`}
+          value={side.sharedInput}
+          onChange={(e) => setSide({ ...side, sharedInput: e.target.value })}
+          placeholder="Paste a share link or code"
+        />
+      )}
+      {error && <div className="compare-error">{error}</div>}
+    </div>
+  )
+
+  const renderItem = (item: Item | null, changedMods: number[]) => {
+    if (!item) return <span className="compare-empty">Empty</span>
+    return (
+      <div className="compare-item">
+        <div className="loot-icon">{item.isImage ? <img src={item.icon} alt={item.name} /> : item.icon}</div>
+        <div className="compare-item-text">
+          <span className="loot-name">
+            {item.name}
+            {item.stackSize && ` ×${item.count || 1}`}
+          </span>
+          {item.modifications && item.modifications.some(Boolean) && (
+            <span className="compare-mods">
+              {item.modifications.map((mod, modIndex) =>
+                mod ? (
+                  <span key={modIndex} className={changedMods.includes(modIndex) ? 'compare-mod changed' : 'compare-mod'}>
+                    {mod.name}
+                  </span>
+                ) : null
+              )}
+            </span>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  const getSlotLabel = (row: SlotComparison) =>
+    row.index === -1 ? SECTION_LABELS[row.section] : `${SECTION_LABELS[row.section]} ${row.index + 1}`
+
+  return (
+    <div className="loot-overlay" onClick={onClose}>
+      <div className="loot-modal compare-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="loot-header">
+          <h3 className="loot-title">COMPARE LOADOUTS</h3>
+          <button className="close-btn" onClick={onClose}>
+            ×
+          </button>
+        </div>
+        <div className="compare-pickers">
+          {renderPicker('Left', left, setLeft, leftSide.error)}
+          {renderPicker('Right', right, setRight, rightSide.error)}
+        </div>
+        {leftLoadout && rightLoadout && (
+          <div className="loot-list">
+            <div className="compare-summary">
+              {changedRows.length === 0
+                ? 'These loadouts are identical'
+                : `${changedRows.length} ${changedRows.length === 1 ? 'slot differs' : 'slots differ'}`}
+            </div>
+            <div className="compare-slots">
+              {rows.map((row) => (
+                <div key={`${row.section}|${row.index}`} className={`compare-row change-${row.change}`}>
+                  <span className="compare-slot-label">
+                    {getSlotLabel(row)}
+                    {row.change !== 'same' && <span className="compare-change">{CHANGE_LABELS[row.change]}</span>}
+                  </span>
+                  {renderItem(row.left, row.changedMods)}
+                  {renderItem(row.right, row.changedMods)}
+                </div>
+              ))}
+            </div>
+            <h4 className="compare-heading">MATERIALS</h4>
+            <div className="compare-materials">
+              {materials.map((material) => (
+                <div key={material.id} className={`compare-material ${material.delta === 0 ? '' : 'changed'}`}>
+                  <span className="loot-name">{material.name}</span>
+                  <span className="compare-count">{material.left}</span>
+                  <span className="compare-count">{material.right}</span>
+                  <span className={`compare-delta ${material.delta > 0 ? 'up' : material.delta < 0 ? 'down' : ''}`}>
+                    {material.delta > 0 ? `+${material.delta}` : material.delta === 0 ? '–' : material.delta}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
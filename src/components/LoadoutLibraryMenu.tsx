@@ -0,0 +1,93 @@
+import { useState } from 'react'
+
+interface LoadoutLibraryEntry {
+  id: string
+  name: string
+}
+
+interface LoadoutLibraryMenuProps {
+  loadouts: LoadoutLibraryEntry[]
+  activeId: string
+  onSelect: (id: string) => void
+  onCreate: () => void
+  onDuplicate: (id: string) => void
+  onRename: (id: string) => void
+  onDelete: (id: string) => void
+  onCompare?: () => void
+}
+
+export function LoadoutLibraryMenu({
+  loadouts,
+  activeId,
+  onSelect,
+  onCreate,
+  onDuplicate,
+  onRename,
+  onDelete,
+  onCompare,
+}: LoadoutLibraryMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  return (
+    <div className="loadout-library">
+      <button
+        className={`icon-btn ${isOpen ? 'active' : ''}`}
+        onClick={() => setIsOpen(!isOpen)}
+        title="Saved Loadouts"
+        aria-expanded={isOpen}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor">
+          <path d="M0 0h24v24H0z" fill="none" />
+          <path d="M4 6H2v14c0 1.1.9 2 2 2h14v-2H4V6zm16-4H8c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h12c1.1 0 2-.9 2-2V4c0-1.1-.9-2-2-2zm-1 9h-4v4h-2v-4H9V9h4V5h2v4h4v2z" />
+        </svg>
+        <span className="loadout-library-count">{loadouts.length}</span>
+      </button>
+      {isOpen && (
+        <div className="loadout-library-menu">
+          {loadouts.map(({ id, name }) => (
+            <div key={id} className={`loadout-library-entry ${id === activeId ? 'active' : ''}`}>
+              <button
+                className="loadout-library-name"
+                onClick={() => {
+                  onSelect(id)
+                  setIsOpen(false)
+                }}
+              >
+                {name}
+              </button>
+              <button className="small-btn" onClick={() => onRename(id)} title={`Rename ${name}`}>
+                Rename
+              </button>
+              <button className="small-btn" onClick={() => onDuplicate(id)} title={`Duplicate ${name}`}>
+                Copy
+              </button>
+              <button className="small-btn" onClick={() => onDelete(id)} title={`Delete ${name}`}>
+                Delete
+              </button>
+            </div>
+          ))}
+          <button
+            className="small-btn"
+            onClick={() => {
+              onCreate()
+              setIsOpen(false)
+            }}
+          >
+            + New Loadout
+          </button>
+          {onCompare && (
+            <button
+              className="small-btn"
+              onClick={() => {
+                onCompare()
+                setIsOpen(false)
+              }}
+            >
+              Compare Loadouts
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -32,7 +32,12 @@ interface LoadoutPanelProps {
   onShowLootTable: () => void
   onShare: () => void
   onReset: () => void
+  onUndo?: () => void
+  onRedo?: () => void
+  canUndo?: boolean
+  canRedo?: boolean
   children?: React.ReactNode
+  libraryMenu?: React.ReactNode
   isDragging?: boolean
 }
 
@@ -44,7 +49,12 @@ export function LoadoutPanel({
   onShowLootTable,
   onShare,
   onReset,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
   children,
+  libraryMenu,
   isDragging = false,
 }: LoadoutPanelProps) {
   return (
@@ -58,6 +68,29 @@ export function LoadoutPanel({
             placeholder="NAME YOUR LOADOUT"
           />
         </div>
+        {(onUndo || onRedo) && (
+          <div className="history-controls">
+            <button className="icon-btn" onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)" aria-label="Undo">
+              <svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor">
+                <path d="M0 0h24v24H0z" fill="none" />
+                <path d="M12.5 8c-2.65 0-5.05.99-6.9 2.6L2 7v9h9l-3.62-3.62c1.39-1.16 3.16-1.88 5.12-1.88 3.54 0 6.55 2.31 7.6 5.5l2.37-.78C21.08 11.03 17.15 8 12.5 8z" />
+              </svg>
+            </button>
+            <button
+              className="icon-btn"
+              onClick={onRedo}
+              disabled={!canRedo}
+              title="Redo (Ctrl+Shift+Z)"
+              aria-label="Redo"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 0 24 24" width="24px" fill="currentColor">
+                <path d="M0 0h24v24H0z" fill="none" />
+                <path d="M18.4 10.6C16.55 8.99 14.15 8 11.5 8c-4.65 0-8.58 3.03-9.96 7.22L3.9 16c1.05-3.19 4.05-5.5 7.6-5.5 1.95 0 3.73.72 5.12 1.88L13 16h9V7l-3.6 3.6z" />
+              </svg>
+            </button>
+          </div>
+        )}
+        {libraryMenu}
       </div>
       <div className="loadout-actions-desktop">
         <div className="loadout-actions-row">
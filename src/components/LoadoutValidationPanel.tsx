@@ -0,0 +1,59 @@
+interface LoadoutIssue {
+  type: string
+  slot: { section: string; index: number; modIndex?: number }
+  itemId: string
+  itemName: string
+  message: string
+  fixLabel: string
+}
+
+interface LoadoutValidationPanelProps<T extends LoadoutIssue> {
+  issues: T[]
+  onFix: (issue: T) => void
+  onFixAll: () => void
+  onDismiss: () => void
+}
+
+const getIssueKey = ({ type, slot, itemId }: LoadoutIssue) =>
+  `${type}|${slot.section}|${slot.index}|${slot.modIndex ?? -1}|${itemId}`
+
+// Lists problems found in a loaded loadout, each with a one-click fix
+export function LoadoutValidationPanel<T extends LoadoutIssue>({
+  issues,
+  onFix,
+  onFixAll,
+  onDismiss,
+}: LoadoutValidationPanelProps<T>) {
+  if (issues.length === 0) return null
+
+  return (
+    <div className="validation-panel" role="region" aria-label="Loadout problems">
+      <div className="validation-header">
+        <span className="validation-title">
+          {issues.length === 1 ? '1 problem' : `${issues.length} problems`} in this loadout
+        </span>
+        {issues.length > 1 && (
+          <button className="small-btn" onClick={onFixAll}>
+            Fix All
+          </button>
+        )}
+        <button className="close-btn" onClick={onDismiss} title="Dismiss">
+          ×
+        </button>
+      </div>
+      <ul className="validation-list">
+        {issues.map((issue) => (
+          <li key={getIssueKey(issue)} className="validation-issue">
+            <div className="validation-issue-text">
+              <span className="validation-issue-name">{issue.itemName}</span>
+              <span className="validation-issue-message">{issue.message}</span>
+            </div>
+            <button className="small-btn" onClick={() => onFix(issue)} title={`${issue.fixLabel}: ${issue.itemName}`}>
+              {issue.fixLabel}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
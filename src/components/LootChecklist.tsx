@@ -0,0 +1,78 @@
+interface LootItem {
+  id: string
+  count: number
+  name: string
+  icon: string
+  isImage: boolean
+}
+
+interface LootChecklistProps {
+  items: LootItem[]
+  // Amount collected so far, by item id
+  collected: Record<string, number>
+  onCollectedChange: (id: string, count: number) => void
+  onReset: () => void
+}
+
+// The shared mobile loot list as a checklist for use during a raid: tick items off or count them
+// up one at a time
+export function LootChecklist({ items, collected, onCollectedChange, onReset }: LootChecklistProps) {
+  const getCollected = (item: LootItem) => Math.min(collected[item.id] || 0, item.count)
+  const totalNeeded = items.reduce((sum, item) => sum + item.count, 0)
+  const totalCollected = items.reduce((sum, item) => sum + getCollected(item), 0)
+  const percent = totalNeeded > 0 ? Math.round((totalCollected / totalNeeded) * 100) : 0
+
+  return (
+    <>
+      <div className="loot-checklist-progress">
+        <div
+          className="loot-checklist-bar"
+          role="progressbar"
+          aria-label="Loot collected"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={percent}
+        >
+          <div className="loot-checklist-bar-fill" style={{ width: `${percent}%` }} />
+        </div>
+        <span className="loot-checklist-summary">
+          {totalCollected} / {totalNeeded} collected
+        </span>
+        <button className="small-btn" onClick={onReset} disabled={totalCollected === 0}>
+          Reset
+        </button>
+      </div>
+      {items.map((item) => {
+        const count = getCollected(item)
+        const isDone = count >= item.count
+        return (
+          <div key={item.id} className={`mobile-loot-item ${isDone ? 'collected' : ''}`}>
+            <button
+              className="loot-checklist-check"
+              aria-pressed={isDone}
+              aria-label={`${item.name} collected`}
+              onClick={() => onCollectedChange(item.id, isDone ? 0 : item.count)}
+            >
+              {isDone ? '✓' : ''}
+            </button>
+            <div className="mobile-loot-icon">
+              {item.isImage ? <img src={item.icon} alt={item.name} /> : item.icon}
+            </div>
+            <span className="mobile-loot-name">{item.name}</span>
+            <div className="loot-checklist-stepper">
+              <button aria-label={`One less ${item.name}`} onClick={() => onCollectedChange(item.id, count - 1)} disabled={count === 0}>
+                −
+              </button>
+              <span className="mobile-loot-count">
+                {count}/{item.count}
+              </span>
+              <button aria-label={`One more ${item.name}`} onClick={() => onCollectedChange(item.id, count + 1)} disabled={isDone}>
+                +
+              </button>
+            </div>
+          </div>
+        )
+      })}
+    </>
+  )
+}
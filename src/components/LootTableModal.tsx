@@ -1,3 +1,6 @@
+import { useState } from 'react'
+import { EXPORT_FORMATS, ExportFormat, ExportOptions } from '../utils/lootExport'
+
 interface Item {
   id: string
   name: string
@@ -19,31 +22,280 @@ interface LootItem {
   icon: string
   isImage: boolean
   item?: Item
+  owned?: number
+}
+
+interface RecycleStep {
+  id: string
+  name: string
+  icon: string
+  isImage: boolean
+  count: number
+  yields: LootItem[]
+}
+
+interface RecyclePlan {
+  steps: RecycleStep[]
+  leftovers: LootItem[]
+  uncovered: LootItem[]
+}
+
+interface UpgradePlan {
+  id: string
+  name: string
+  icon: string
+  isImage: boolean
+  tier: number
+  currentTier: number
+  steps: { tier: number; cost: LootItem[] }[]
+}
+
+interface CraftStep extends LootItem {
+  crafts: number
+  produced: number
+}
+
+type LoadoutSection = 'augment' | 'shield' | 'weapons' | 'backpack' | 'quickUse' | 'extra' | 'safePocket'
+
+const TIER_NUMERALS = ['I', 'II', 'III', 'IV', 'V']
+
+const SECTION_LABELS: Record<LoadoutSection, string> = {
+  augment: 'Augment',
+  shield: 'Shield',
+  weapons: 'Weapons',
+  backpack: 'Backpack',
+  quickUse: 'Quick Use',
+  extra: 'Extra',
+  safePocket: 'Safe Pocket',
 }
 
 interface LootTableModalProps {
   lootTable: LootItem[]
-  recycleList: Item[]
+  recyclePlan: RecyclePlan
   showRecycleList: boolean
+  craftSteps?: CraftStep[]
+  breakDownToRaw?: boolean
+  onToggleBreakDown?: () => void
+  stash?: Record<string, number>
+  onStashChange?: (id: string, count: number) => void
+  onOpenStash?: () => void
+  raids?: number
+  onRaidsChange?: (raids: number) => void
+  keptSections?: LoadoutSection[]
+  onToggleKeptSection?: (section: LoadoutSection) => void
+  // Equipped tiered items, costed from the tier already owned
+  upgradePlans?: UpgradePlan[]
+  onCurrentTierChange?: (itemId: string, tier: number) => void
   onToggleRecycleList: () => void
   onShareLootList: () => void
+  // Saves or copies the loot table and recycle plan as CSV, Markdown or plain text
+  onExportLootList?: (options: ExportOptions, destination: 'download' | 'clipboard') => void
+  // Opens the where used / where from explorer for a row's item
+  onLookupItem?: (id: string) => void
   onClose: () => void
 }
 
 export function LootTableModal({
   lootTable,
-  recycleList,
+  recyclePlan,
   showRecycleList,
+  craftSteps = [],
+  breakDownToRaw = false,
+  onToggleBreakDown,
+  stash,
+  onStashChange,
+  onOpenStash,
+  raids = 1,
+  onRaidsChange,
+  keptSections = [],
+  onToggleKeptSection,
+  upgradePlans = [],
+  onCurrentTierChange,
   onToggleRecycleList,
   onShareLootList,
+  onExportLootList,
+  onLookupItem,
   onClose,
 }: LootTableModalProps) {
+  const showStash = !!stash && !!onStashChange
+  const [showExport, setShowExport] = useState(false)
+  const [exportOptions, setExportOptions] = useState<ExportOptions>({ format: 'csv', groupByRarity: false })
+  const hasExportContent = lootTable.length > 0 || recyclePlan.steps.length > 0
+
+  const renderName = (item: { id: string; name: string }) =>
+    onLookupItem ? (
+      <button className="loot-name loot-lookup-btn" onClick={() => onLookupItem(item.id)} title="Where used / where from">
+        {item.name}
+      </button>
+    ) : (
+      <span className="loot-name">{item.name}</span>
+    )
+
+  const renderLootItem = (item: LootItem) =>
+    showStash ? (
+      <div key={item.id} className="loot-item">
+        <span className="loot-count">{Math.max(0, item.count - (item.owned || 0))}</span>
+        <div className="loot-icon">
+          {item.isImage ? <img src={item.icon} alt={item.name} /> : item.icon}
+        </div>
+        {renderName(item)}
+        <div className="loot-stash-columns">
+          <span className="loot-required">{item.count}</span>
+          <input
+            type="number"
+            min={0}
+            className="loot-owned-input"
+            aria-label={`Owned ${item.name}`}
+            value={stash[item.id] || 0}
+            onChange={(e) => onStashChange(item.id, parseInt(e.target.value) || 0)}
+          />
+        </div>
+      </div>
+    ) : (
+      <div key={item.id} className="loot-item">
+        <span className="loot-count">{item.count}</span>
+        <div className="loot-icon">
+          {item.isImage ? <img src={item.icon} alt={item.name} /> : item.icon}
+        </div>
+        {renderName(item)}
+      </div>
+    )
+
+  const formatMaterials = (yields: LootItem[]) => yields.map((material) => `${material.count} ${material.name}`).join(', ')
+
+  const renderMaterial = (item: LootItem, countLabel: string) => (
+    <div key={item.id} className="loot-item">
+      <span className="loot-count">{countLabel}</span>
+      <div className="loot-icon">
+        {item.isImage ? <img src={item.icon} alt={item.name} /> : item.icon}
+      </div>
+      {renderName(item)}
+    </div>
+  )
+
+  const renderRecyclePlan = () => (
+    <>
+      {recyclePlan.steps.map((step) => (
+        <div key={step.id} className="loot-item">
+          <span className="loot-count">{step.count}</span>
+          <div className="loot-icon">
+            {step.isImage ? <img src={step.icon} alt={step.name} /> : step.icon}
+          </div>
+          {renderName(step)}
+          <span className="loot-crafts">→ {formatMaterials(step.yields)}</span>
+        </div>
+      ))}
+      {recyclePlan.uncovered.length > 0 && (
+        <>
+          <h4 className="loot-section-title">NOT FROM RECYCLING</h4>
+          {recyclePlan.uncovered.map((item) => renderMaterial(item, `${item.count}`))}
+        </>
+      )}
+      {recyclePlan.leftovers.length > 0 && (
+        <>
+          <h4 className="loot-section-title">LEFTOVERS</h4>
+          {recyclePlan.leftovers.map((item) => renderMaterial(item, `+${item.count}`))}
+        </>
+      )}
+      {recyclePlan.steps.length === 0 && (
+        <div style={{ padding: '20px', textAlign: 'center', color: '#888' }}>
+          Nothing to recycle for this loadout
+        </div>
+      )}
+    </>
+  )
+
+  const renderUpgrades = () =>
+    onCurrentTierChange &&
+    upgradePlans.length > 0 && (
+      <>
+        <h4 className="loot-section-title">UPGRADES</h4>
+        {upgradePlans.map((plan) => (
+          <div key={plan.id} className="loot-upgrade">
+            <div className="loot-item">
+              <div className="loot-icon">
+                {plan.isImage ? <img src={plan.icon} alt={plan.name} /> : plan.icon}
+              </div>
+              {renderName(plan)}
+              <select
+                className="loot-upgrade-tier"
+                aria-label={`Tier of ${plan.name} already owned`}
+                value={plan.currentTier}
+                onChange={(e) => onCurrentTierChange(plan.id, Number(e.target.value))}
+              >
+                <option value={0}>Not owned</option>
+                {TIER_NUMERALS.slice(0, plan.tier).map((numeral, i) => (
+                  <option key={numeral} value={i + 1}>
+                    Own tier {numeral}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <ul className="loot-upgrade-steps">
+              {plan.steps.map((step) => (
+                <li key={step.tier}>
+                  <span className="loot-upgrade-step-tier">
+                    {step.tier === 1 ? 'Craft I' : `${TIER_NUMERALS[step.tier - 2]} → ${TIER_NUMERALS[step.tier - 1]}`}
+                  </span>
+                  {formatMaterials(step.cost) || 'Free'}
+                </li>
+              ))}
+              {plan.steps.length === 0 && <li>Already owned</li>}
+            </ul>
+          </div>
+        ))}
+      </>
+    )
+
+  const renderStashHeader = () =>
+    showStash && (
+      <div className="loot-stash-header">
+        <span>STILL NEEDED</span>
+        <span className="loot-stash-columns">
+          <span>REQUIRED</span>
+          <span>OWNED</span>
+        </span>
+      </div>
+    )
+
   return (
     <div className="loot-overlay" onClick={onClose}>
       <div className="loot-modal" onClick={(e) => e.stopPropagation()}>
         <div className="loot-header">
           <h3 className="loot-title">{showRecycleList ? 'BEST TO RECYCLE' : 'REQUIRED LOOT'}</h3>
           <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+            {onOpenStash && !showRecycleList && (
+              <button className="icon-btn" onClick={onOpenStash} title="My Stash">
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  height="24px"
+                  viewBox="0 0 24 24"
+                  width="24px"
+                  fill="currentColor"
+                >
+                  <path d="M0 0h24v24H0z" fill="none" />
+                  <path d="M20 6h-8l-2-2H4c-1.1 0-1.99.9-1.99 2L2 18c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V8c0-1.1-.9-2-2-2zm0 12H4V8h16v10z" />
+                </svg>
+              </button>
+            )}
+            {onToggleBreakDown && !showRecycleList && (
+              <button
+                className={`icon-btn ${breakDownToRaw ? 'active' : ''}`}
+                onClick={onToggleBreakDown}
+                title={breakDownToRaw ? 'Show Direct Ingredients' : 'Break Down To Raw Materials'}
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  height="24px"
+                  viewBox="0 0 24 24"
+                  width="24px"
+                  fill="currentColor"
+                >
+                  <path d="M0 0h24v24H0z" fill="none" />
+                  <path d="M22 11V3h-7v3H9V3H2v8h7V8h2v10h4v3h7v-8h-7v3h-2V8h2v3z" />
+                </svg>
+              </button>
+            )}
             <button
               className="icon-btn"
               onClick={onToggleRecycleList}
@@ -85,30 +337,120 @@ export function LootTableModal({
                 <path d="M17 1.01L7 1c-1.1 0-2 .9-2 2v18c0 1.1.9 2 2 2h10c1.1 0 2-.9 2-2V3c0-1.1-.9-1.99-2-1.99zM17 19H7V5h10v14z" />
               </svg>
             </button>
+            {onExportLootList && (
+              <button
+                className={`icon-btn ${showExport ? 'active' : ''}`}
+                onClick={() => setShowExport((prev) => !prev)}
+                title="Export Loot List"
+              >
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  height="24px"
+                  viewBox="0 0 24 24"
+                  width="24px"
+                  fill="currentColor"
+                >
+                  <path d="M0 0h24v24H0z" fill="none" />
+                  <path d="M19 9h-4V3H9v6H5l7 7 7-7zM5 18v2h14v-2H5z" />
+                </svg>
+              </button>
+            )}
             <button className="close-btn" onClick={onClose}>
               ×
             </button>
           </div>
         </div>
+        {onExportLootList && showExport && (
+          <div className="loot-plan loot-export">
+            <select
+              aria-label="Export format"
+              value={exportOptions.format}
+              onChange={(e) => setExportOptions((prev) => ({ ...prev, format: e.target.value as ExportFormat }))}
+            >
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+                <option key={format} value={format}>
+                  {EXPORT_FORMATS[format].label}
+                </option>
+              ))}
+            </select>
+            <label className="loot-export-group">
+              <input
+                type="checkbox"
+                checked={exportOptions.groupByRarity}
+                onChange={(e) => setExportOptions((prev) => ({ ...prev, groupByRarity: e.target.checked }))}
+              />
+              Group by rarity
+            </label>
+            <button className="small-btn" onClick={() => onExportLootList(exportOptions, 'download')} disabled={!hasExportContent}>
+              Download
+            </button>
+            <button className="small-btn" onClick={() => onExportLootList(exportOptions, 'clipboard')} disabled={!hasExportContent}>
+              Copy
+            </button>
+          </div>
+        )}
+        {onRaidsChange && !showRecycleList && (
+          <div className="loot-plan">
+            <label className="loot-plan-raids">
+              RAIDS
+              <input
+                type="number"
+                min={1}
+                className="loot-owned-input"
+                value={raids}
+                onChange={(e) => onRaidsChange(parseInt(e.target.value) || 1)}
+              />
+            </label>
+            {onToggleKeptSection && (
+              <div className="loot-plan-sections">
+                {(Object.keys(SECTION_LABELS) as LoadoutSection[]).map((section) => {
+                  const isKept = keptSections.includes(section)
+                  return (
+                    <button
+                      key={section}
+                      className={`small-btn ${isKept ? 'active' : ''}`}
+                      onClick={() => onToggleKeptSection(section)}
+                      title={isKept ? 'Kept between raids' : 'Lost every raid'}
+                    >
+                      {SECTION_LABELS[section]}: {isKept ? 'kept' : 'lost'}
+                    </button>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+        )}
         <div className="loot-list">
+          {!showRecycleList && renderUpgrades()}
           {showRecycleList
-            ? recycleList.map((item) => (
-                <div key={item.id} className="loot-item">
-                  <div className="loot-icon">
-                    {item.isImage ? <img src={item.icon} alt={item.name} /> : item.icon}
-                  </div>
-                  <span className="loot-name">{item.name}</span>
-                </div>
-              ))
-            : lootTable.map((item) => (
-                <div key={item.id} className="loot-item">
-                  <span className="loot-count">{item.count}</span>
-                  <div className="loot-icon">
-                    {item.isImage ? <img src={item.icon} alt={item.name} /> : item.icon}
-                  </div>
-                  <span className="loot-name">{item.name}</span>
-                </div>
-              ))}
+            ? renderRecyclePlan()
+            : breakDownToRaw && craftSteps.length > 0
+              ? (
+                  <>
+                    <h4 className="loot-section-title">INTERMEDIATE CRAFTS</h4>
+                    {craftSteps.map((step) => (
+                      <div key={step.id} className="loot-item">
+                        <span className="loot-count">{step.count}</span>
+                        <div className="loot-icon">
+                          {step.isImage ? <img src={step.icon} alt={step.name} /> : step.icon}
+                        </div>
+                        {renderName(step)}
+                        <span className="loot-crafts" title={`Produces ${step.produced}`}>
+                          {!!step.owned && `${step.owned} owned, `}×{step.crafts} {step.crafts === 1 ? 'craft' : 'crafts'}
+                        </span>
+                      </div>
+                    ))}
+                    <h4 className="loot-section-title">RAW MATERIALS</h4>
+                    {renderStashHeader()}
+                    {lootTable.map(renderLootItem)}
+                  </>
+                )
+              : (
+                  <>
+                    {lootTable.length > 0 && renderStashHeader()}
+                    {lootTable.map(renderLootItem)}
+                  </>
+                )}
           {lootTable.length === 0 && !showRecycleList && (
             <div style={{ padding: '20px', textAlign: 'center', color: '#888' }}>
               No craftable items in loadout
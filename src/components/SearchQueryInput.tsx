@@ -0,0 +1,97 @@
+import { KeyboardEvent, useId, useState } from 'react'
+import { getSearchSuggestions, parseSearchQuery, SearchVocabulary } from '../utils/searchQuery'
+
+interface SearchQueryInputProps {
+  value: string
+  onChange: (value: string) => void
+  vocabulary: SearchVocabulary
+  placeholder?: string
+}
+
+// Search bar with autocomplete for the query language (rarity:, cat:, uses:, tier:)
+export function SearchQueryInput({ value, onChange, vocabulary, placeholder }: SearchQueryInputProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(-1)
+  const listId = useId()
+
+  const suggestions = isOpen ? getSearchSuggestions(value, vocabulary) : []
+  const { errors } = parseSearchQuery(value)
+  const showList = suggestions.length > 0
+
+  const change = (next: string) => {
+    onChange(next)
+    setIsOpen(true)
+    setActiveIndex(-1)
+  }
+
+  const accept = (index: number) => {
+    const suggestion = suggestions[index]
+    if (suggestion) change(suggestion.value)
+  }
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        setIsOpen(true)
+        setActiveIndex((prev) => (suggestions.length === 0 ? -1 : (prev + 1) % suggestions.length))
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        setActiveIndex((prev) => (prev <= 0 ? suggestions.length - 1 : prev - 1))
+        break
+      case 'Enter':
+      case 'Tab':
+        if (showList && activeIndex >= 0) {
+          e.preventDefault()
+          accept(activeIndex)
+        }
+        break
+      case 'Escape':
+        setIsOpen(false)
+        setActiveIndex(-1)
+        break
+    }
+  }
+
+  return (
+    <div className="search-query">
+      <input
+        type="text"
+        className="inventory-search-bar"
+        placeholder={placeholder}
+        value={value}
+        role="combobox"
+        aria-label="Search items"
+        aria-autocomplete="list"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-activedescendant={showList && activeIndex >= 0 ? `${listId}-${activeIndex}` : undefined}
+        onChange={(e) => change(e.target.value)}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+      />
+      {showList && (
+        <ul id={listId} className="search-suggestions" role="listbox">
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.label}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={`search-suggestion ${index === activeIndex ? 'active' : ''}`}
+              // Keep focus in the input
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => accept(index)}
+            >
+              <span className="search-suggestion-label">{suggestion.label}</span>
+              {suggestion.detail && <span className="search-suggestion-detail">{suggestion.detail}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+      {errors.length > 0 && <div className="search-query-error">{errors[0]}</div>}
+    </div>
+  )
+}
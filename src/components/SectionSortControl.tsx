@@ -0,0 +1,37 @@
+import { SORT_KEYS, SortKey } from '../utils/sectionSort'
+
+interface SectionSortControlProps {
+  sectionLabel: string
+  sortKey: SortKey
+  onSortKeyChange: (sortKey: SortKey) => void
+  onSort: () => void
+  disabled?: boolean
+}
+
+// Sort key picker and "Sort & Merge" button shown next to a section title
+export function SectionSortControl({ sectionLabel, sortKey, onSortKeyChange, onSort, disabled = false }: SectionSortControlProps) {
+  return (
+    <div className="section-sort">
+      <select
+        className="section-sort-select"
+        aria-label={`Sort ${sectionLabel} by`}
+        value={sortKey}
+        onChange={(e) => onSortKeyChange(e.target.value as SortKey)}
+      >
+        {SORT_KEYS.map(({ key, label }) => (
+          <option key={key} value={key}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <button
+        className="small-btn"
+        onClick={onSort}
+        disabled={disabled}
+        title={`Merge stacks in ${sectionLabel} and sort by ${sortKey}`}
+      >
+        Sort & Merge
+      </button>
+    </div>
+  )
+}
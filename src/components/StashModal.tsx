@@ -0,0 +1,121 @@
+import { useState } from 'react'
+
+interface Item {
+  id: string
+  name: string
+  icon: string
+  isImage: boolean
+}
+
+interface StashModalProps {
+  allItemData: Record<string, Item>
+  stash: Record<string, number>
+  onStashChange: (id: string, count: number) => void
+  onClearStash: () => void
+  onClose: () => void
+}
+
+const MAX_SEARCH_RESULTS = 8
+
+export function StashModal({ allItemData, stash, onStashChange, onClearStash, onClose }: StashModalProps) {
+  const [search, setSearch] = useState('')
+  // Text of count inputs being edited, so clearing a field or typing 0 doesn't remove the row mid-edit
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+
+  const handleCountChange = (id: string, value: string) => {
+    setDrafts((prev) => ({ ...prev, [id]: value }))
+    const count = parseInt(value)
+    if (count > 0) onStashChange(id, count)
+  }
+
+  // Leaving the field empty or at 0 removes the entry
+  const handleCountBlur = (id: string, value: string) => {
+    setDrafts((prev) => {
+      const next = { ...prev }
+      delete next[id]
+      return next
+    })
+    if (!(parseInt(value) > 0)) onStashChange(id, 0)
+  }
+
+  const query = search.trim().toLowerCase()
+  const searchResults = query
+    ? Object.values(allItemData)
+        .filter((item) => !(item.id in stash) && item.name.toLowerCase().includes(query))
+        .slice(0, MAX_SEARCH_RESULTS)
+    : []
+
+  const stashEntries = Object.entries(stash)
+    .map(([id, count]) => ({ id, count, item: allItemData[id] }))
+    .sort((a, b) => (a.item?.name || a.id).localeCompare(b.item?.name || b.id))
+
+  const renderIcon = (item: Item | undefined) => (
+    <div className="loot-icon">{item?.isImage ? <img src={item.icon} alt={item.name} /> : item?.icon || '📦'}</div>
+  )
+
+  return (
+    <div className="loot-overlay" onClick={onClose}>
+      <div className="loot-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="loot-header">
+          <h3 className="loot-title">MY STASH</h3>
+          <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+            <button className="small-btn" onClick={onClearStash} disabled={stashEntries.length === 0}>
+              Clear
+            </button>
+            <button className="close-btn" onClick={onClose}>
+              ×
+            </button>
+          </div>
+        </div>
+        <div className="stash-search">
+          <input
+            className="item-source-input"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Add an item you own..."
+          />
+          {searchResults.map((item) => (
+            <button
+              key={item.id}
+              className="stash-search-result"
+              onClick={() => {
+                onStashChange(item.id, 1)
+                setSearch('')
+              }}
+            >
+              {renderIcon(item)}
+              <span className="loot-name">{item.name}</span>
+            </button>
+          ))}
+        </div>
+        <div className="loot-list">
+          {stashEntries.map(({ id, count, item }) => (
+            <div key={id} className="loot-item">
+              {renderIcon(item)}
+              <span className="loot-name">{item?.name || id}</span>
+              <div className="loot-stash-columns">
+                <input
+                  type="number"
+                  min={0}
+                  className="loot-owned-input"
+                  aria-label={`Owned ${item?.name || id}`}
+                  value={drafts[id] ?? count}
+                  onChange={(e) => handleCountChange(id, e.target.value)}
+                  onBlur={(e) => handleCountBlur(id, e.target.value)}
+                />
+                <button className="close-btn" onClick={() => onStashChange(id, 0)} title="Remove">
+                  ×
+                </button>
+              </div>
+            </div>
+          ))}
+          {stashEntries.length === 0 && (
+            <div style={{ padding: '20px', textAlign: 'center', color: '#888' }}>
+              Nothing recorded yet
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
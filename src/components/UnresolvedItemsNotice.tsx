@@ -0,0 +1,23 @@
+interface UnresolvedItemsNoticeProps {
+  itemIds: string[]
+  onDismiss: () => void
+}
+
+// Shown when a shared or saved loadout references items missing from the current item data,
+// e.g. after an upstream rename, so they aren't silently dropped
+export function UnresolvedItemsNotice({ itemIds, onDismiss }: UnresolvedItemsNoticeProps) {
+  if (itemIds.length === 0) return null
+
+  return (
+    <div className="unresolved-notice" role="alert">
+      <div className="unresolved-notice-text">
+        {itemIds.length === 1 ? '1 item' : `${itemIds.length} items`} in this loadout couldn't be found and
+        {itemIds.length === 1 ? ' was' : ' were'} left out:
+        <span className="unresolved-notice-ids">{itemIds.join(', ')}</span>
+      </div>
+      <button className="close-btn" onClick={onDismiss} title="Dismiss">
+        ×
+      </button>
+    </div>
+  )
+}
@@ -94,4 +94,20 @@ describe('EquipmentSection', () => {
     expect(sections).toContain('shield')
     expect(sections).toContain('weapons')
   })
+
+  describe('Ammo', () => {
+    it('should show rounds carried for each weapon', () => {
+      render(<EquipmentSection renderSlot={mockRenderSlot} weaponAmmo={[{ ammoType: 'light', label: 'Light Ammo', rounds: 120 }, null]} />)
+
+      expect(screen.getByText('Light Ammo: 120 rounds')).toBeInTheDocument()
+      expect(mockRenderSlot).toHaveBeenCalledWith('weapons', 0, 'weapon-slot')
+    })
+
+    it('should highlight weapons without matching ammo', () => {
+      render(<EquipmentSection renderSlot={mockRenderSlot} weaponAmmo={[null, { ammoType: 'heavy', label: 'Heavy Ammo', rounds: 0 }]} />)
+
+      expect(screen.getByText('No Heavy Ammo carried')).toHaveClass('missing')
+      expect(mockRenderSlot).toHaveBeenCalledWith('weapons', 1, 'weapon-slot missing-ammo')
+    })
+  })
 })
@@ -365,4 +365,155 @@ describe('InventoryPanel', () => {
       expect(tierSelector).not.toBeInTheDocument()
     })
   })
+
+  describe('Keyboard', () => {
+    const items = [
+      createMockItem({ id: 'rifle', name: 'Rifle' }),
+      createMockItem({
+        id: 'smg',
+        name: 'SMG',
+        variants: [createMockItem({ id: 'smg_1', name: 'SMG I' }), createMockItem({ id: 'smg_2', name: 'SMG II' })],
+      }),
+    ]
+
+    const getRows = (container: HTMLElement) => [...container.querySelectorAll<HTMLElement>('.inventory-item-row')]
+
+    it('should make only the first row tabbable', () => {
+      const { container } = render(<InventoryPanel {...defaultProps} filteredItems={items} />)
+
+      expect(getRows(container).map((row) => row.tabIndex)).toEqual([0, -1])
+    })
+
+    it('should move focus between rows with the arrow keys', () => {
+      const { container } = render(<InventoryPanel {...defaultProps} filteredItems={items} />)
+      const rows = getRows(container)
+
+      rows[0].focus()
+      fireEvent.keyDown(rows[0], { key: 'ArrowDown' })
+      expect(rows[1]).toHaveFocus()
+
+      fireEvent.keyDown(rows[1], { key: 'ArrowDown' })
+      expect(rows[1]).toHaveFocus()
+
+      fireEvent.keyDown(rows[1], { key: 'Home' })
+      expect(rows[0]).toHaveFocus()
+    })
+
+    it('should pick up the selected variant with Enter and quick-equip with B', () => {
+      const onItemPickUp = vi.fn()
+      const onItemQuickEquip = vi.fn()
+      const { container } = render(
+        <InventoryPanel
+          {...defaultProps}
+          filteredItems={items}
+          selectedVariantMap={{ smg: 'smg_2' }}
+          onItemPickUp={onItemPickUp}
+          onItemQuickEquip={onItemQuickEquip}
+        />
+      )
+      const rows = getRows(container)
+
+      fireEvent.keyDown(rows[1], { key: 'Enter' })
+      expect(onItemPickUp).toHaveBeenCalledWith(expect.objectContaining({ id: 'smg_2' }))
+
+      fireEvent.keyDown(rows[0], { key: 'b' })
+      expect(onItemQuickEquip).toHaveBeenCalledWith(expect.objectContaining({ id: 'rifle' }))
+    })
+
+    it('should quick-equip on double-click', () => {
+      const onItemQuickEquip = vi.fn()
+      const { container } = render(<InventoryPanel {...defaultProps} filteredItems={items} onItemQuickEquip={onItemQuickEquip} />)
+
+      fireEvent.doubleClick(getRows(container)[0])
+
+      expect(onItemQuickEquip).toHaveBeenCalledWith(expect.objectContaining({ id: 'rifle' }))
+    })
+
+    it('should quick-equip on a tap but not after a swipe', () => {
+      const onItemQuickEquip = vi.fn()
+      const { container } = render(<InventoryPanel {...defaultProps} filteredItems={items} onItemQuickEquip={onItemQuickEquip} />)
+      const row = getRows(container)[0]
+
+      fireEvent.touchStart(row, { touches: [{ clientX: 5, clientY: 5 }] })
+      fireEvent.touchEnd(row, { changedTouches: [{ clientX: 6, clientY: 5 }] })
+      expect(onItemQuickEquip).toHaveBeenCalledTimes(1)
+      expect(mockOnTouchEnd).toHaveBeenCalled()
+
+      fireEvent.touchStart(row, { touches: [{ clientX: 5, clientY: 5 }] })
+      fireEvent.touchEnd(row, { changedTouches: [{ clientX: 5, clientY: 80 }] })
+      expect(onItemQuickEquip).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not quick-equip when a tier button is tapped', () => {
+      const onItemQuickEquip = vi.fn()
+      render(<InventoryPanel {...defaultProps} filteredItems={items} onItemQuickEquip={onItemQuickEquip} />)
+      const tierButton = screen.getByText('II')
+
+      fireEvent.touchStart(tierButton, { touches: [{ clientX: 5, clientY: 5 }] })
+      fireEvent.touchEnd(tierButton, { changedTouches: [{ clientX: 5, clientY: 5 }] })
+
+      expect(onItemQuickEquip).not.toHaveBeenCalled()
+    })
+
+    it('should open the details with I or a long press', () => {
+      vi.useFakeTimers()
+      const onItemInspect = vi.fn()
+      const { container } = render(<InventoryPanel {...defaultProps} filteredItems={items} onItemInspect={onItemInspect} />)
+      const row = getRows(container)[0]
+
+      fireEvent.keyDown(row, { key: 'i' })
+      expect(onItemInspect).toHaveBeenCalledTimes(1)
+
+      fireEvent.touchStart(row, { touches: [{ clientX: 5, clientY: 5 }] })
+      vi.advanceTimersByTime(600)
+      fireEvent.touchEnd(row, { changedTouches: [{ clientX: 5, clientY: 5 }] })
+      vi.useRealTimers()
+
+      expect(onItemInspect).toHaveBeenCalledTimes(2)
+      expect(onItemInspect).toHaveBeenLastCalledWith(expect.objectContaining({ id: 'rifle' }))
+    })
+
+    it('should step through tiers with left and right', () => {
+      const { container } = render(<InventoryPanel {...defaultProps} filteredItems={items} selectedVariantMap={{ smg: 'smg_1' }} />)
+
+      fireEvent.keyDown(getRows(container)[1], { key: 'ArrowRight' })
+
+      expect(mockOnVariantSelect).toHaveBeenCalledWith('smg', 'smg_2')
+    })
+
+    it('should cancel a pick-up with Escape and mark the held row', () => {
+      const onCancelPickUp = vi.fn()
+      const { container } = render(
+        <InventoryPanel {...defaultProps} filteredItems={items} heldItemId="rifle" onCancelPickUp={onCancelPickUp} />
+      )
+      const rows = getRows(container)
+
+      fireEvent.keyDown(rows[0], { key: 'Escape' })
+
+      expect(onCancelPickUp).toHaveBeenCalled()
+      expect(rows[0]).toHaveClass('held')
+    })
+  })
+
+  describe('Data Timestamp', () => {
+    it('should not render the timestamp before data has loaded', () => {
+      const { container } = render(<InventoryPanel {...defaultProps} />)
+      
+      expect(container.querySelector('.data-timestamp')).not.toBeInTheDocument()
+    })
+
+    it('should render when the item data was fetched', () => {
+      render(<InventoryPanel {...defaultProps} dataFetchedAt={1700000000000} />)
+      
+      expect(screen.getByText(/Data as of/)).toBeInTheDocument()
+      expect(screen.queryByText(/offline/)).not.toBeInTheDocument()
+    })
+
+    it('should flag stale data when revalidation failed', () => {
+      const { container } = render(<InventoryPanel {...defaultProps} dataFetchedAt={1700000000000} isDataStale={true} />)
+      
+      expect(screen.getByText(/offline/)).toBeInTheDocument()
+      expect(container.querySelector('.data-timestamp.stale')).toBeInTheDocument()
+    })
+  })
 })
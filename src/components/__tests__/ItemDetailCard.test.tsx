@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { ItemDetailCard } from '../ItemDetailCard'
+
+interface Item {
+  id: string
+  name: string
+  category: string[]
+  rarity: string
+  icon: string
+  isImage: boolean
+  recipe?: Record<string, number>
+  recyclesInto?: Record<string, number>
+  craftQuantity?: number
+  stackSize?: number
+  shieldCompatibility?: string[]
+  slots?: Record<string, number>
+  supportedModifications?: string[]
+}
+
+const createMockItem = (overrides: Partial<Item> = {}): Item => ({
+  id: 'test-item',
+  name: 'Test Item',
+  category: ['Quick Use'],
+  rarity: 'Common',
+  icon: '📦',
+  isImage: false,
+  ...overrides,
+})
+
+const allItemData: Record<string, Item> = {
+  fabric: createMockItem({ id: 'fabric', name: 'Fabric', icon: '🧵' }),
+  chemicals: createMockItem({ id: 'chemicals', name: 'Chemicals', icon: '/chemicals.png', isImage: true }),
+}
+
+describe('ItemDetailCard', () => {
+  it('should show the name, rarity and categories', () => {
+    render(<ItemDetailCard item={createMockItem({ name: 'Bandage', rarity: 'Uncommon', category: ['Quick Use', 'Healing'] })} allItemData={allItemData} />)
+
+    expect(screen.getByText('Bandage')).toBeInTheDocument()
+    expect(screen.getByText('Uncommon')).toHaveAttribute('data-rarity', 'Uncommon')
+    expect(screen.getByText('Quick Use · Healing')).toBeInTheDocument()
+  })
+
+  it('should show the stack size and the recipe with quantities', () => {
+    const bandage = createMockItem({ stackSize: 5, recipe: { fabric: 2, chemicals: 1 }, craftQuantity: 2 })
+    const { container } = render(<ItemDetailCard item={bandage} allItemData={allItemData} />)
+
+    expect(screen.getByText('Stack size').nextSibling).toHaveTextContent('5')
+    expect(screen.getByText('Recipe (makes 2)')).toBeInTheDocument()
+    expect(screen.getByText('Fabric').nextSibling).toHaveTextContent('×2')
+    expect(container.querySelector('img[src="/chemicals.png"]')).toBeInTheDocument()
+  })
+
+  it('should show what the item recycles into', () => {
+    render(<ItemDetailCard item={createMockItem({ recyclesInto: { fabric: 3 } })} allItemData={allItemData} />)
+
+    expect(screen.getByText('Recycles into')).toBeInTheDocument()
+    expect(screen.getByText('×3')).toBeInTheDocument()
+  })
+
+  it('should show weapon modification slots', () => {
+    render(<ItemDetailCard item={createMockItem({ category: ['Weapon'], supportedModifications: ['Muzzle', 'Stock'] })} allItemData={allItemData} />)
+
+    expect(screen.getByText('Muzzle')).toBeInTheDocument()
+    expect(screen.getByText('Stock')).toBeInTheDocument()
+  })
+
+  it('should show shields and slots for augments', () => {
+    const augment = createMockItem({ category: ['Augment'], shieldCompatibility: ['medium'], slots: { backpack: 18, grenade: 1 } })
+    render(<ItemDetailCard item={augment} allItemData={allItemData} />)
+
+    expect(screen.getByText('Light, Medium')).toBeInTheDocument()
+    expect(screen.getByText('Backpack ×18')).toBeInTheDocument()
+    expect(screen.getByText('Grenade ×1')).toBeInTheDocument()
+  })
+
+  it('should leave out empty sections', () => {
+    render(<ItemDetailCard item={createMockItem()} allItemData={allItemData} />)
+
+    expect(screen.queryByText('Stack size')).not.toBeInTheDocument()
+    expect(screen.queryByText('Recipe')).not.toBeInTheDocument()
+    expect(screen.queryByText('Shields')).not.toBeInTheDocument()
+    expect(screen.queryByRole('button')).not.toBeInTheDocument()
+  })
+})
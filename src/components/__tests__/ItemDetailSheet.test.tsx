@@ -0,0 +1,37 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { ItemDetailSheet } from '../ItemDetailSheet'
+
+const item = { id: 'bandage', name: 'Bandage', category: ['Quick Use'], rarity: 'Common', icon: '🩹', isImage: false }
+
+describe('ItemDetailSheet', () => {
+  const onClose = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should render the item details in a dialog', () => {
+    render(<ItemDetailSheet item={item} allItemData={{}} onClose={onClose} />)
+
+    expect(screen.getByRole('dialog', { name: 'Bandage details' })).toHaveTextContent('Bandage')
+  })
+
+  it('should close from the button or the backdrop but not the sheet itself', () => {
+    const { container } = render(<ItemDetailSheet item={item} allItemData={{}} onClose={onClose} />)
+
+    fireEvent.click(screen.getByRole('dialog'))
+    expect(onClose).not.toHaveBeenCalled()
+
+    fireEvent.click(screen.getByTitle('Close'))
+    fireEvent.click(container.querySelector('.item-sheet-overlay')!)
+    expect(onClose).toHaveBeenCalledTimes(2)
+  })
+  it('should offer the where used / where from explorer', () => {
+    const onLookup = vi.fn()
+    render(<ItemDetailSheet item={item} allItemData={{}} onLookup={onLookup} onClose={onClose} />)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Where used / where from' }))
+    expect(onLookup).toHaveBeenCalledTimes(1)
+  })
+})
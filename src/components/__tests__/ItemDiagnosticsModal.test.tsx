@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { ItemDiagnosticsModal } from '../ItemDiagnosticsModal'
+
+interface ItemDiagnostic {
+  fileName: string
+  itemId: string
+  severity: 'error' | 'warning'
+  code: string
+  message: string
+}
+
+const createMockDiagnostic = (overrides: Partial<ItemDiagnostic> = {}): ItemDiagnostic => ({
+  fileName: 'rope.json',
+  itemId: 'rope',
+  severity: 'warning',
+  code: 'missing-name',
+  message: 'Missing name.en, the id will be shown instead',
+  ...overrides,
+})
+
+describe('ItemDiagnosticsModal', () => {
+  const mockOnClose = vi.fn()
+
+  const diagnostics = [
+    createMockDiagnostic(),
+    createMockDiagnostic({ fileName: 'bandage.json', itemId: 'bandage', severity: 'error', code: 'unknown-reference', message: 'recipe references unknown item "fabric"' }),
+  ]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should summarize error and warning counts', () => {
+    render(<ItemDiagnosticsModal diagnostics={diagnostics} onClose={mockOnClose} />)
+
+    expect(screen.getByText('1 errors, 1 warnings')).toBeInTheDocument()
+  })
+
+  it('should group diagnostics by file', () => {
+    render(<ItemDiagnosticsModal diagnostics={diagnostics} onClose={mockOnClose} />)
+
+    expect(screen.getByText('rope.json')).toBeInTheDocument()
+    expect(screen.getByText('bandage.json')).toBeInTheDocument()
+    expect(screen.getByText('recipe references unknown item "fabric"')).toBeInTheDocument()
+  })
+
+  it('should filter by severity', () => {
+    render(<ItemDiagnosticsModal diagnostics={diagnostics} onClose={mockOnClose} />)
+
+    fireEvent.click(screen.getByText('Errors'))
+
+    expect(screen.queryByText('rope.json')).not.toBeInTheDocument()
+    expect(screen.getByText('bandage.json')).toBeInTheDocument()
+  })
+
+  it('should show an empty state when there are no problems', () => {
+    render(<ItemDiagnosticsModal diagnostics={[]} onClose={mockOnClose} />)
+
+    expect(screen.getByText('No problems found')).toBeInTheDocument()
+  })
+
+  it('should call onClose when the close button is clicked', () => {
+    render(<ItemDiagnosticsModal diagnostics={diagnostics} onClose={mockOnClose} />)
+
+    fireEvent.click(screen.getByText('×'))
+
+    expect(mockOnClose).toHaveBeenCalledTimes(1)
+  })
+})
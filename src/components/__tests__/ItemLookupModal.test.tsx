@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { ItemLookupModal } from '../ItemLookupModal'
+import { buildReverseIndex } from '../../utils/itemLookup'
+
+interface Item {
+  id: string
+  name: string
+  icon: string
+  isImage: boolean
+  recipe?: Record<string, number>
+  recyclesInto?: Record<string, number>
+}
+
+const createMockItem = (overrides: Partial<Item> = {}): Item => ({
+  id: 'test-item',
+  name: 'Test Item',
+  icon: '📦',
+  isImage: false,
+  ...overrides,
+})
+
+const allItemData: Record<string, Item> = {
+  rubber: createMockItem({ id: 'rubber', name: 'Rubber' }),
+  bandage: createMockItem({ id: 'bandage', name: 'Bandage', recipe: { rubber: 2 } }),
+  tire: createMockItem({ id: 'tire', name: 'Tire', recyclesInto: { rubber: 3 } }),
+}
+
+describe('ItemLookupModal', () => {
+  const onClose = vi.fn()
+  const renderModal = (itemId: string) =>
+    render(<ItemLookupModal itemId={itemId} allItemData={allItemData} reverseIndex={buildReverseIndex(allItemData)} onClose={onClose} />)
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should list where the item is used and where it comes from', () => {
+    renderModal('rubber')
+
+    expect(screen.getByRole('dialog', { name: 'Where Rubber is used and comes from' })).toBeInTheDocument()
+    expect(screen.getByText('USED IN')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /Bandage/ })).toHaveTextContent('2')
+    expect(screen.getByText('RECYCLED FROM')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /Tire/ })).toHaveTextContent('3')
+  })
+
+  it('should follow listed items and go back', () => {
+    renderModal('rubber')
+
+    fireEvent.click(screen.getByRole('button', { name: /Bandage/ }))
+    expect(screen.getByText('BANDAGE')).toBeInTheDocument()
+    expect(screen.getByText('CRAFTED FROM')).toBeInTheDocument()
+
+    fireEvent.click(screen.getByText('Back'))
+    expect(screen.getByText('RUBBER')).toBeInTheDocument()
+    expect(screen.queryByText('Back')).not.toBeInTheDocument()
+  })
+
+  it('should say when nothing is linked to the item', () => {
+    renderModal('unknown')
+
+    expect(screen.getByText('Nothing uses, makes or recycles into this item')).toBeInTheDocument()
+  })
+
+  it('should close from the button or the backdrop', () => {
+    const { container } = renderModal('rubber')
+
+    fireEvent.click(screen.getByRole('dialog'))
+    expect(onClose).not.toHaveBeenCalled()
+
+    fireEvent.click(screen.getByTitle('Close'))
+    fireEvent.click(container.querySelector('.loot-overlay')!)
+    expect(onClose).toHaveBeenCalledTimes(2)
+  })
+})
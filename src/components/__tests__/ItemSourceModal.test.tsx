@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { ItemSourceModal } from '../ItemSourceModal'
+
+describe('ItemSourceModal', () => {
+  const mockOnSelectSource = vi.fn()
+  const mockOnSelectFiles = vi.fn()
+  const mockOnClose = vi.fn()
+
+  const defaultProps = {
+    currentSourceId: 'github',
+    currentSourceLabel: 'GitHub (RohitMoni/arc-raiders-data)',
+    onSelectSource: mockOnSelectSource,
+    onSelectFiles: mockOnSelectFiles,
+    onClose: mockOnClose,
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should show the current source', () => {
+    render(<ItemSourceModal {...defaultProps} />)
+
+    expect(screen.getByText('Current: GitHub (RohitMoni/arc-raiders-data)')).toBeInTheDocument()
+    expect(screen.getByText('GitHub (default)')).toHaveClass('active')
+  })
+
+  it('should select a preset source', async () => {
+    const user = userEvent.setup()
+    render(<ItemSourceModal {...defaultProps} />)
+
+    await user.click(screen.getByText('Bundled snapshot'))
+
+    expect(mockOnSelectSource).toHaveBeenCalledWith('snapshot')
+  })
+
+  it('should submit a custom source', async () => {
+    const user = userEvent.setup()
+    render(<ItemSourceModal {...defaultProps} />)
+
+    await user.type(screen.getByPlaceholderText(/github:owner\/repo/), 'github:me/fork')
+    await user.click(screen.getByText('Use'))
+
+    expect(mockOnSelectSource).toHaveBeenCalledWith('github:me/fork')
+  })
+
+  it('should disable the custom source button when empty', () => {
+    render(<ItemSourceModal {...defaultProps} />)
+
+    expect(screen.getByText('Use')).toBeDisabled()
+  })
+
+  it('should pass picked files through', () => {
+    render(<ItemSourceModal {...defaultProps} />)
+    const file = new File(['{}'], 'rope.json')
+
+    fireEvent.change(screen.getByTestId('item-source-files'), { target: { files: [file] } })
+
+    expect(mockOnSelectFiles).toHaveBeenCalledWith([file])
+  })
+
+  it('should link to the diagnostics once item data is validated', () => {
+    const mockOnShowDiagnostics = vi.fn()
+    const { rerender } = render(<ItemSourceModal {...defaultProps} onShowDiagnostics={mockOnShowDiagnostics} />)
+
+    expect(screen.queryByText(/View data diagnostics/)).not.toBeInTheDocument()
+
+    rerender(<ItemSourceModal {...defaultProps} diagnosticCount={3} onShowDiagnostics={mockOnShowDiagnostics} />)
+    fireEvent.click(screen.getByText('View data diagnostics (3)'))
+
+    expect(mockOnShowDiagnostics).toHaveBeenCalledTimes(1)
+  })
+
+  it('should close when clicking the overlay', () => {
+    const { container } = render(<ItemSourceModal {...defaultProps} />)
+
+    fireEvent.click(container.querySelector('.loot-overlay')!)
+
+    expect(mockOnClose).toHaveBeenCalledTimes(1)
+  })
+})
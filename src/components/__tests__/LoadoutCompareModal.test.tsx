@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { LoadoutCompareModal } from '../LoadoutCompareModal'
+
+interface MockItem {
+  id: string
+  name: string
+  icon: string
+  isImage: boolean
+  count?: number
+  stackSize?: number
+  modifications?: (MockItem | null)[]
+}
+
+const createMockItem = (id: string, name: string, overrides: Partial<MockItem> = {}): MockItem => ({
+  id,
+  name,
+  icon: '📦',
+  isImage: false,
+  ...overrides,
+})
+
+const createLoadout = (overrides = {}) => ({
+  title: 'LOADOUT',
+  augment: null,
+  shield: null,
+  weapons: [null, null],
+  backpack: [null, null],
+  quickUse: [null, null, null],
+  extra: [],
+  safePocket: [],
+  ...overrides,
+})
+
+const soloRush = {
+  loadout: createLoadout({ shield: createMockItem('light_shield', 'Light Shield') }),
+  lootTable: [{ id: 'metal_parts', count: 10, name: 'Metal Parts', icon: '📦', isImage: false }],
+}
+
+const squadSupport = {
+  loadout: createLoadout({
+    shield: createMockItem('light_shield', 'Light Shield'),
+    backpack: [createMockItem('bandage', 'Bandage', { stackSize: 5, count: 3 }), null],
+  }),
+  lootTable: [{ id: 'metal_parts', count: 14, name: 'Metal Parts', icon: '📦', isImage: false }],
+}
+
+describe('LoadoutCompareModal', () => {
+  const mockOnResolve = vi.fn((source: { type: 'saved'; id: string } | { type: 'shared'; code: string }) => {
+    if (source.type === 'shared') {
+      if (source.code.includes('bad')) throw new Error('Share code is truncated')
+      return soloRush
+    }
+    return source.id === 'a' ? soloRush : squadSupport
+  })
+
+  const defaultProps = {
+    loadouts: [
+      { id: 'a', name: 'SOLO RUSH' },
+      { id: 'b', name: 'SQUAD SUPPORT' },
+    ],
+    initialLeftId: 'a',
+    onResolve: mockOnResolve,
+    onClose: vi.fn(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should compare the active loadout with another saved one', () => {
+    render(<LoadoutCompareModal {...defaultProps} />)
+
+    expect(screen.getByLabelText('Left loadout')).toHaveValue('a')
+    expect(screen.getByLabelText('Right loadout')).toHaveValue('b')
+    expect(screen.getByText('1 slot differs')).toBeInTheDocument()
+  })
+
+  it('should highlight differing slots', () => {
+    const { container } = render(<LoadoutCompareModal {...defaultProps} />)
+
+    expect(container.querySelector('.compare-row.change-same')).toHaveTextContent('Light Shield')
+    expect(container.querySelector('.compare-row.change-added')).toHaveTextContent('Bandage ×3')
+  })
+
+  it('should show the material delta', () => {
+    const { container } = render(<LoadoutCompareModal {...defaultProps} />)
+
+    const row = container.querySelector('.compare-material')
+    expect(row).toHaveTextContent('Metal Parts')
+    expect(row?.querySelector('.compare-delta')).toHaveTextContent('+4')
+  })
+
+  it('should report identical loadouts', () => {
+    render(<LoadoutCompareModal {...defaultProps} />)
+
+    fireEvent.change(screen.getByLabelText('Right loadout'), { target: { value: 'a' } })
+
+    expect(screen.getByText('These loadouts are identical')).toBeInTheDocument()
+  })
+
+  it('should compare against a pasted share link', () => {
+    render(<LoadoutCompareModal {...defaultProps} initialLeftId="b" />)
+    fireEvent.change(screen.getByLabelText('Right loadout'), { target: { value: 'shared' } })
+
+    fireEvent.change(screen.getByLabelText('Right share link'), { target: { value: 'https://example.com/loadout/abc' } })
+
+    expect(mockOnResolve).toHaveBeenCalledWith({ type: 'shared', code: 'https://example.com/loadout/abc' })
+    expect(screen.getByText('1 slot differs')).toBeInTheDocument()
+  })
+
+  it('should report share links that cannot be read', () => {
+    const errorSpy = vi.spyOn(console, 'error')
+    const { rerender } = render(<LoadoutCompareModal {...defaultProps} />)
+    fireEvent.change(screen.getByLabelText('Right loadout'), { target: { value: 'shared' } })
+
+    fireEvent.change(screen.getByLabelText('Right share link'), { target: { value: 'bad' } })
+    const calls = mockOnResolve.mock.calls.length
+    rerender(<LoadoutCompareModal {...defaultProps} />)
+
+    expect(screen.getByText("Couldn't read that share link")).toBeInTheDocument()
+    expect(screen.queryByText('MATERIALS')).not.toBeInTheDocument()
+    // Not decoded again on an unrelated re-render, and nothing logged
+    expect(mockOnResolve).toHaveBeenCalledTimes(calls)
+    expect(errorSpy).not.toHaveBeenCalled()
+    errorSpy.mockRestore()
+  })
+
+  it('should call onClose', () => {
+    render(<LoadoutCompareModal {...defaultProps} />)
+
+    fireEvent.click(screen.getByText('×'))
+
+    expect(defaultProps.onClose).toHaveBeenCalledTimes(1)
+  })
+})
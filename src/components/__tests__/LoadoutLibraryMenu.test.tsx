@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { LoadoutLibraryMenu } from '../LoadoutLibraryMenu'
+
+describe('LoadoutLibraryMenu', () => {
+  const mockOnSelect = vi.fn()
+  const mockOnCreate = vi.fn()
+  const mockOnDuplicate = vi.fn()
+  const mockOnRename = vi.fn()
+  const mockOnDelete = vi.fn()
+
+  const defaultProps = {
+    loadouts: [
+      { id: 'a', name: 'SOLO RUSH' },
+      { id: 'b', name: 'SQUAD SUPPORT' },
+    ],
+    activeId: 'a',
+    onSelect: mockOnSelect,
+    onCreate: mockOnCreate,
+    onDuplicate: mockOnDuplicate,
+    onRename: mockOnRename,
+    onDelete: mockOnDelete,
+  }
+
+  const openMenu = () => fireEvent.click(screen.getByTitle('Saved Loadouts'))
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should show the number of saved loadouts and stay closed initially', () => {
+    render(<LoadoutLibraryMenu {...defaultProps} />)
+
+    expect(screen.getByText('2')).toBeInTheDocument()
+    expect(screen.queryByText('SOLO RUSH')).not.toBeInTheDocument()
+  })
+
+  it('should list loadouts and mark the active one', () => {
+    render(<LoadoutLibraryMenu {...defaultProps} />)
+    openMenu()
+
+    expect(screen.getByText('SOLO RUSH').closest('.loadout-library-entry')).toHaveClass('active')
+    expect(screen.getByText('SQUAD SUPPORT').closest('.loadout-library-entry')).not.toHaveClass('active')
+  })
+
+  it('should switch loadouts and close', () => {
+    render(<LoadoutLibraryMenu {...defaultProps} />)
+    openMenu()
+
+    fireEvent.click(screen.getByText('SQUAD SUPPORT'))
+
+    expect(mockOnSelect).toHaveBeenCalledWith('b')
+    expect(screen.queryByText('SQUAD SUPPORT')).not.toBeInTheDocument()
+  })
+
+  it('should create a new loadout', () => {
+    render(<LoadoutLibraryMenu {...defaultProps} />)
+    openMenu()
+
+    fireEvent.click(screen.getByText('+ New Loadout'))
+
+    expect(mockOnCreate).toHaveBeenCalledTimes(1)
+  })
+
+  it('should rename, duplicate and delete entries', () => {
+    render(<LoadoutLibraryMenu {...defaultProps} />)
+    openMenu()
+
+    fireEvent.click(screen.getByTitle('Rename SQUAD SUPPORT'))
+    fireEvent.click(screen.getByTitle('Duplicate SOLO RUSH'))
+    fireEvent.click(screen.getByTitle('Delete SQUAD SUPPORT'))
+
+    expect(mockOnRename).toHaveBeenCalledWith('b')
+    expect(mockOnDuplicate).toHaveBeenCalledWith('a')
+    expect(mockOnDelete).toHaveBeenCalledWith('b')
+  })
+
+  it('should open the comparison and close the menu', () => {
+    const mockOnCompare = vi.fn()
+    render(<LoadoutLibraryMenu {...defaultProps} onCompare={mockOnCompare} />)
+    openMenu()
+
+    fireEvent.click(screen.getByText('Compare Loadouts'))
+
+    expect(mockOnCompare).toHaveBeenCalledTimes(1)
+    expect(screen.queryByText('SOLO RUSH')).not.toBeInTheDocument()
+  })
+})
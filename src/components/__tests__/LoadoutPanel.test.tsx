@@ -183,6 +183,34 @@ describe('LoadoutPanel', () => {
     })
   })
 
+  describe('Undo / Redo', () => {
+    it('should not render history controls without handlers', () => {
+      render(<LoadoutPanel {...defaultProps} />)
+
+      expect(screen.queryByLabelText('Undo')).not.toBeInTheDocument()
+    })
+
+    it('should disable buttons when there is nothing to undo or redo', () => {
+      render(<LoadoutPanel {...defaultProps} onUndo={vi.fn()} onRedo={vi.fn()} />)
+
+      expect(screen.getByLabelText('Undo')).toBeDisabled()
+      expect(screen.getByLabelText('Redo')).toBeDisabled()
+    })
+
+    it('should call onUndo and onRedo', async () => {
+      const user = userEvent.setup()
+      const mockOnUndo = vi.fn()
+      const mockOnRedo = vi.fn()
+      render(<LoadoutPanel {...defaultProps} onUndo={mockOnUndo} onRedo={mockOnRedo} canUndo canRedo />)
+
+      await user.click(screen.getByLabelText('Undo'))
+      await user.click(screen.getByLabelText('Redo'))
+
+      expect(mockOnUndo).toHaveBeenCalledTimes(1)
+      expect(mockOnRedo).toHaveBeenCalledTimes(1)
+    })
+  })
+
   describe('Links Row', () => {
     it('should render Report Issue link', () => {
       render(<LoadoutPanel {...defaultProps} />)
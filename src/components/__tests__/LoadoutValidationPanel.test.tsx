@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { LoadoutValidationPanel } from '../LoadoutValidationPanel'
+
+const shieldIssue = {
+  type: 'incompatible-shield',
+  slot: { section: 'shield', index: -1 },
+  itemId: 'heavy_shield',
+  itemName: 'Heavy Shield',
+  message: 'A heavy shield needs a compatible augment',
+  fixLabel: 'Move to Backpack',
+}
+
+const stackIssue = {
+  type: 'over-stacked',
+  slot: { section: 'backpack', index: 2 },
+  itemId: 'bandage',
+  itemName: 'Bandage',
+  message: '12 in a stack of 5',
+  fixLabel: 'Reduce to 5',
+}
+
+describe('LoadoutValidationPanel', () => {
+  const defaultProps = {
+    issues: [shieldIssue, stackIssue],
+    onFix: vi.fn(),
+    onFixAll: vi.fn(),
+    onDismiss: vi.fn(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should render nothing without issues', () => {
+    const { container } = render(<LoadoutValidationPanel {...defaultProps} issues={[]} />)
+
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('should list each issue with its fix', () => {
+    render(<LoadoutValidationPanel {...defaultProps} />)
+
+    expect(screen.getByRole('region', { name: 'Loadout problems' })).toHaveTextContent('2 problems in this loadout')
+    expect(screen.getByText('A heavy shield needs a compatible augment')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Reduce to 5' })).toBeInTheDocument()
+  })
+
+  it('should fix a single issue', () => {
+    render(<LoadoutValidationPanel {...defaultProps} />)
+
+    fireEvent.click(screen.getByTitle('Move to Backpack: Heavy Shield'))
+
+    expect(defaultProps.onFix).toHaveBeenCalledWith(shieldIssue)
+  })
+
+  it('should fix everything at once', () => {
+    render(<LoadoutValidationPanel {...defaultProps} />)
+
+    fireEvent.click(screen.getByText('Fix All'))
+
+    expect(defaultProps.onFixAll).toHaveBeenCalledTimes(1)
+  })
+
+  it('should hide Fix All for a single issue', () => {
+    render(<LoadoutValidationPanel {...defaultProps} issues={[stackIssue]} />)
+
+    expect(screen.queryByText('Fix All')).not.toBeInTheDocument()
+    expect(screen.getByText('1 problem in this loadout')).toBeInTheDocument()
+  })
+
+  it('should call onDismiss', () => {
+    render(<LoadoutValidationPanel {...defaultProps} />)
+
+    fireEvent.click(screen.getByTitle('Dismiss'))
+
+    expect(defaultProps.onDismiss).toHaveBeenCalledTimes(1)
+  })
+})
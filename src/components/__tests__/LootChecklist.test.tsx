@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { LootChecklist } from '../LootChecklist'
+
+const items = [
+  { id: 'rubber', count: 4, name: 'Rubber', icon: '🛞', isImage: false },
+  { id: 'cloth', count: 2, name: 'Cloth', icon: '🧵', isImage: false },
+]
+
+describe('LootChecklist', () => {
+  const onCollectedChange = vi.fn()
+  const onReset = vi.fn()
+  const renderChecklist = (collected: Record<string, number>) =>
+    render(<LootChecklist items={items} collected={collected} onCollectedChange={onCollectedChange} onReset={onReset} />)
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should show overall progress, capping amounts collected beyond what is needed', () => {
+    renderChecklist({ rubber: 1, cloth: 5 })
+
+    expect(screen.getByText('3 / 6 collected')).toBeInTheDocument()
+    expect(screen.getByRole('progressbar')).toHaveAttribute('aria-valuenow', '50')
+    expect(screen.getByText('1/4')).toBeInTheDocument()
+    expect(screen.getByText('2/2')).toBeInTheDocument()
+  })
+
+  it('should tick an item off and back on', () => {
+    renderChecklist({ cloth: 2 })
+
+    expect(screen.getByRole('button', { name: 'Cloth collected' })).toHaveAttribute('aria-pressed', 'true')
+    fireEvent.click(screen.getByRole('button', { name: 'Rubber collected' }))
+    expect(onCollectedChange).toHaveBeenCalledWith('rubber', 4)
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cloth collected' }))
+    expect(onCollectedChange).toHaveBeenCalledWith('cloth', 0)
+  })
+
+  it('should count items up and down within the needed amount', () => {
+    renderChecklist({ rubber: 1, cloth: 2 })
+
+    fireEvent.click(screen.getByRole('button', { name: 'One more Rubber' }))
+    expect(onCollectedChange).toHaveBeenCalledWith('rubber', 2)
+    fireEvent.click(screen.getByRole('button', { name: 'One less Rubber' }))
+    expect(onCollectedChange).toHaveBeenCalledWith('rubber', 0)
+
+    expect(screen.getByRole('button', { name: 'One more Cloth' })).toBeDisabled()
+  })
+
+  it('should only allow a reset once something is collected', () => {
+    const { rerender } = renderChecklist({})
+    expect(screen.getByRole('button', { name: 'Reset' })).toBeDisabled()
+
+    rerender(<LootChecklist items={items} collected={{ rubber: 1 }} onCollectedChange={onCollectedChange} onReset={onReset} />)
+    fireEvent.click(screen.getByRole('button', { name: 'Reset' }))
+    expect(onReset).toHaveBeenCalled()
+  })
+})
@@ -23,6 +23,7 @@ interface LootItem {
   icon: string
   isImage: boolean
   item?: Item
+  owned?: number
 }
 
 const createMockLootItem = (overrides: Partial<LootItem> = {}): LootItem => ({
@@ -44,6 +45,26 @@ const createMockItem = (overrides: Partial<Item> = {}): Item => ({
   ...overrides,
 })
 
+interface RecycleStep {
+  id: string
+  name: string
+  icon: string
+  isImage: boolean
+  count: number
+  yields: LootItem[]
+}
+
+const createMockRecycleStep = (item: Item, count: number, yields: LootItem[] = []): RecycleStep => ({
+  id: item.id,
+  name: item.name,
+  icon: item.icon,
+  isImage: item.isImage,
+  count,
+  yields,
+})
+
+const emptyRecyclePlan = { steps: [], leftovers: [], uncovered: [] }
+
 describe('LootTableModal', () => {
   const mockOnToggleRecycleList = vi.fn()
   const mockOnShareLootList = vi.fn()
@@ -51,7 +72,7 @@ describe('LootTableModal', () => {
 
   const defaultProps = {
     lootTable: [],
-    recycleList: [],
+    recyclePlan: emptyRecyclePlan,
     showRecycleList: false,
     onToggleRecycleList: mockOnToggleRecycleList,
     onShareLootList: mockOnShareLootList,
@@ -145,43 +166,73 @@ describe('LootTableModal', () => {
     })
 
     it('should not show empty state message when showing recycle list', () => {
-      render(<LootTableModal {...defaultProps} lootTable={[]} showRecycleList={true} recycleList={[]} />)
+      render(<LootTableModal {...defaultProps} lootTable={[]} showRecycleList={true} />)
       
       expect(screen.queryByText('No craftable items in loadout')).not.toBeInTheDocument()
     })
   })
 
   describe('Recycle List Display', () => {
-    it('should render recycle items without count', () => {
-      const recycleItems = [
-        createMockItem({ id: 'item-1', name: 'Old Weapon', icon: '🗡️' }),
-        createMockItem({ id: 'item-2', name: 'Broken Shield', icon: '🛡️' }),
-      ]
+    it('should render how many of each item to recycle and what it yields', () => {
+      const recyclePlan = {
+        ...emptyRecyclePlan,
+        steps: [
+          createMockRecycleStep(createMockItem({ id: 'item-1', name: 'Old Weapon', icon: '🗡️' }), 3, [
+            createMockLootItem({ id: 'metal_parts', name: 'Metal Parts', count: 6 }),
+            createMockLootItem({ id: 'rubber', name: 'Rubber', count: 3 }),
+          ]),
+          createMockRecycleStep(createMockItem({ id: 'item-2', name: 'Broken Shield', icon: '🛡️' }), 1),
+        ],
+      }
+
+      const { container } = render(<LootTableModal {...defaultProps} showRecycleList={true} recyclePlan={recyclePlan} />)
 
-      render(<LootTableModal {...defaultProps} showRecycleList={true} recycleList={recycleItems} />)
-      
       expect(screen.getByText('Old Weapon')).toBeInTheDocument()
       expect(screen.getByText('🗡️')).toBeInTheDocument()
-      
       expect(screen.getByText('Broken Shield')).toBeInTheDocument()
       expect(screen.getByText('🛡️')).toBeInTheDocument()
-      
-      // Should not show count elements for recycle list
-      const { container } = render(<LootTableModal {...defaultProps} showRecycleList={true} recycleList={recycleItems} />)
-      expect(container.querySelectorAll('.loot-count').length).toBe(0)
+
+      const counts = Array.from(container.querySelectorAll('.loot-count')).map((count) => count.textContent)
+      expect(counts).toEqual(['3', '1'])
+      expect(screen.getByText('→ 6 Metal Parts, 3 Rubber')).toBeInTheDocument()
+    })
+
+    it('should list materials recycling cannot cover and leftovers', () => {
+      const recyclePlan = {
+        steps: [createMockRecycleStep(createMockItem({ id: 'item-1', name: 'Old Weapon' }), 2)],
+        uncovered: [createMockLootItem({ id: 'arc_alloy', name: 'ARC Alloy', count: 4 })],
+        leftovers: [createMockLootItem({ id: 'plastic_parts', name: 'Plastic Parts', count: 2 })],
+      }
+
+      render(<LootTableModal {...defaultProps} showRecycleList={true} recyclePlan={recyclePlan} />)
+
+      expect(screen.getByText('NOT FROM RECYCLING')).toBeInTheDocument()
+      expect(screen.getByText('ARC Alloy')).toBeInTheDocument()
+      expect(screen.getByText('LEFTOVERS')).toBeInTheDocument()
+      expect(screen.getByText('+2')).toBeInTheDocument()
+    })
+
+    it('should say when nothing needs recycling', () => {
+      render(<LootTableModal {...defaultProps} showRecycleList={true} />)
+
+      expect(screen.getByText('Nothing to recycle for this loadout')).toBeInTheDocument()
     })
 
     it('should render image icons for recycle items when isImage is true', () => {
-      const recycleItems = [
-        createMockItem({
-          id: 'item-1',
-          name: 'Damaged Armor',
-          icon: '/path/to/armor.png',
-          isImage: true,
-        }),
-      ]
+      const item = createMockItem({
+        id: 'item-1',
+        name: 'Damaged Armor',
+        icon: '/path/to/armor.png',
+        isImage: true,
+      })
 
-      render(<LootTableModal {...defaultProps} showRecycleList={true} recycleList={recycleItems} />)
+      render(
+        <LootTableModal
+          {...defaultProps}
+          showRecycleList={true}
+          recyclePlan={{ ...emptyRecyclePlan, steps: [createMockRecycleStep(item, 1)] }}
+        />
+      )
       
       const img = screen.getByAltText('Damaged Armor')
       expect(img).toBeInTheDocument()
@@ -236,16 +287,91 @@ describe('LootTableModal', () => {
     })
   })
 
+  describe('Upgrades', () => {
+    const upgradePlan = {
+      id: 'ferro_iii',
+      name: 'Ferro III',
+      icon: '🔫',
+      isImage: false,
+      tier: 3,
+      currentTier: 1,
+      steps: [
+        { tier: 2, cost: [createMockLootItem({ id: 'metal_parts', name: 'Metal Parts', count: 4 })] },
+        { tier: 3, cost: [createMockLootItem({ id: 'springs', name: 'Springs', count: 2 })] },
+      ],
+    }
+
+    it('should show the cost of each remaining tier', () => {
+      render(<LootTableModal {...defaultProps} upgradePlans={[upgradePlan]} onCurrentTierChange={vi.fn()} />)
+
+      expect(screen.getByText('UPGRADES')).toBeInTheDocument()
+      expect(screen.getByText('I → II').parentElement).toHaveTextContent('4 Metal Parts')
+      expect(screen.getByText('II → III').parentElement).toHaveTextContent('2 Springs')
+    })
+
+    it('should change the tier already owned', () => {
+      const onCurrentTierChange = vi.fn()
+      render(<LootTableModal {...defaultProps} upgradePlans={[upgradePlan]} onCurrentTierChange={onCurrentTierChange} />)
+
+      const select = screen.getByLabelText('Tier of Ferro III already owned')
+      expect(select).toHaveValue('1')
+      expect(screen.getAllByRole('option').map((option) => option.textContent)).toEqual([
+        'Not owned',
+        'Own tier I',
+        'Own tier II',
+        'Own tier III',
+      ])
+
+      fireEvent.change(select, { target: { value: '2' } })
+      expect(onCurrentTierChange).toHaveBeenCalledWith('ferro_iii', 2)
+    })
+
+    it('should hide upgrades in the recycle list', () => {
+      render(<LootTableModal {...defaultProps} showRecycleList={true} upgradePlans={[upgradePlan]} onCurrentTierChange={vi.fn()} />)
+
+      expect(screen.queryByText('UPGRADES')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Item Lookup', () => {
+    it('should open the explorer from loot and recycle rows', () => {
+      const onLookupItem = vi.fn()
+      const lootItems = [createMockLootItem({ id: 'metal_parts', name: 'Metal Parts' })]
+      const { rerender } = render(<LootTableModal {...defaultProps} lootTable={lootItems} onLookupItem={onLookupItem} />)
+
+      fireEvent.click(screen.getByRole('button', { name: 'Metal Parts' }))
+      expect(onLookupItem).toHaveBeenCalledWith('metal_parts')
+
+      const recyclePlan = {
+        ...emptyRecyclePlan,
+        steps: [createMockRecycleStep(createMockItem({ id: 'old_engine', name: 'Old Engine' }), 1)],
+      }
+      rerender(<LootTableModal {...defaultProps} showRecycleList={true} recyclePlan={recyclePlan} onLookupItem={onLookupItem} />)
+
+      fireEvent.click(screen.getByRole('button', { name: 'Old Engine' }))
+      expect(onLookupItem).toHaveBeenCalledWith('old_engine')
+    })
+
+    it('should keep names as plain text without a lookup handler', () => {
+      render(<LootTableModal {...defaultProps} lootTable={[createMockLootItem({ name: 'Metal Parts' })]} />)
+
+      expect(screen.queryByRole('button', { name: 'Metal Parts' })).not.toBeInTheDocument()
+    })
+  })
+
   describe('Toggle State', () => {
     it('should switch between loot table and recycle list display', () => {
       const lootItems = [createMockLootItem({ id: 'loot-1', name: 'Loot Item' })]
-      const recycleItems = [createMockItem({ id: 'recycle-1', name: 'Recycle Item' })]
+      const recyclePlan = {
+        ...emptyRecyclePlan,
+        steps: [createMockRecycleStep(createMockItem({ id: 'recycle-1', name: 'Recycle Item' }), 1)],
+      }
 
       const { rerender } = render(
         <LootTableModal
           {...defaultProps}
           lootTable={lootItems}
-          recycleList={recycleItems}
+          recyclePlan={recyclePlan}
           showRecycleList={false}
         />
       )
@@ -257,7 +383,7 @@ describe('LootTableModal', () => {
         <LootTableModal
           {...defaultProps}
           lootTable={lootItems}
-          recycleList={recycleItems}
+          recyclePlan={recyclePlan}
           showRecycleList={true}
         />
       )
@@ -266,4 +392,167 @@ describe('LootTableModal', () => {
       expect(screen.getByText('Recycle Item')).toBeInTheDocument()
     })
   })
+
+  describe('Break Down Mode', () => {
+    const craftSteps = [
+      { ...createMockLootItem({ id: 'gunpowder', count: 9, name: 'Gunpowder' }), crafts: 3, produced: 12 },
+    ]
+
+    it('should not render the break down toggle without a handler', () => {
+      render(<LootTableModal {...defaultProps} />)
+      
+      expect(screen.queryByTitle('Break Down To Raw Materials')).not.toBeInTheDocument()
+    })
+
+    it('should call onToggleBreakDown when the toggle is clicked', () => {
+      const mockOnToggleBreakDown = vi.fn()
+      render(<LootTableModal {...defaultProps} onToggleBreakDown={mockOnToggleBreakDown} />)
+      
+      fireEvent.click(screen.getByTitle('Break Down To Raw Materials'))
+      
+      expect(mockOnToggleBreakDown).toHaveBeenCalledTimes(1)
+    })
+
+    it('should show intermediate crafts and raw materials when breaking down', () => {
+      const lootItems = [createMockLootItem({ id: 'springs', count: 3, name: 'Springs' })]
+
+      render(
+        <LootTableModal
+          {...defaultProps}
+          lootTable={lootItems}
+          craftSteps={craftSteps}
+          breakDownToRaw={true}
+          onToggleBreakDown={vi.fn()}
+        />
+      )
+      
+      expect(screen.getByText('INTERMEDIATE CRAFTS')).toBeInTheDocument()
+      expect(screen.getByText('RAW MATERIALS')).toBeInTheDocument()
+      expect(screen.getByText('Gunpowder')).toBeInTheDocument()
+      expect(screen.getByText('×3 crafts')).toBeInTheDocument()
+      expect(screen.getByText('Springs')).toBeInTheDocument()
+      expect(screen.getByTitle('Show Direct Ingredients')).toBeInTheDocument()
+    })
+
+    it('should hide crafts when not breaking down', () => {
+      render(<LootTableModal {...defaultProps} craftSteps={craftSteps} breakDownToRaw={false} />)
+      
+      expect(screen.queryByText('INTERMEDIATE CRAFTS')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Stash Columns', () => {
+    const lootItems = [createMockLootItem({ id: 'rubber', count: 5, name: 'Rubber', owned: 3 })]
+
+    it('should show required, owned and still needed counts', () => {
+      render(<LootTableModal {...defaultProps} lootTable={lootItems} stash={{ rubber: 3 }} onStashChange={vi.fn()} />)
+
+      expect(screen.getByText('STILL NEEDED')).toBeInTheDocument()
+      expect(screen.getByText('2')).toHaveClass('loot-count')
+      expect(screen.getByText('5')).toHaveClass('loot-required')
+      expect(screen.getByLabelText('Owned Rubber')).toHaveValue(3)
+    })
+
+    it('should report owned count changes', () => {
+      const mockOnStashChange = vi.fn()
+      render(<LootTableModal {...defaultProps} lootTable={lootItems} stash={{ rubber: 3 }} onStashChange={mockOnStashChange} />)
+
+      fireEvent.change(screen.getByLabelText('Owned Rubber'), { target: { value: '7' } })
+
+      expect(mockOnStashChange).toHaveBeenCalledWith('rubber', 7)
+    })
+
+    it('should show owned intermediates next to their crafts', () => {
+      const craftSteps = [
+        { ...createMockLootItem({ id: 'gunpowder', count: 9, name: 'Gunpowder', owned: 5 }), crafts: 1, produced: 4 },
+      ]
+
+      render(
+        <LootTableModal
+          {...defaultProps}
+          lootTable={lootItems}
+          craftSteps={craftSteps}
+          breakDownToRaw={true}
+          stash={{ rubber: 3, gunpowder: 5 }}
+          onStashChange={vi.fn()}
+        />
+      )
+
+      expect(screen.getByText('5 owned, ×1 craft')).toBeInTheDocument()
+    })
+
+    it('should open the stash editor', () => {
+      const mockOnOpenStash = vi.fn()
+      render(<LootTableModal {...defaultProps} onOpenStash={mockOnOpenStash} />)
+
+      fireEvent.click(screen.getByTitle('My Stash'))
+
+      expect(mockOnOpenStash).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('Raid Plan', () => {
+    it('should not render the plan without a handler', () => {
+      render(<LootTableModal {...defaultProps} />)
+
+      expect(screen.queryByText('RAIDS')).not.toBeInTheDocument()
+    })
+
+    it('should report raid count changes', () => {
+      const mockOnRaidsChange = vi.fn()
+      render(<LootTableModal {...defaultProps} raids={2} onRaidsChange={mockOnRaidsChange} />)
+
+      fireEvent.change(screen.getByLabelText('RAIDS'), { target: { value: '4' } })
+
+      expect(mockOnRaidsChange).toHaveBeenCalledWith(4)
+    })
+
+    it('should show and toggle kept sections', () => {
+      const mockOnToggleKeptSection = vi.fn()
+      render(
+        <LootTableModal
+          {...defaultProps}
+          onRaidsChange={vi.fn()}
+          keptSections={['safePocket']}
+          onToggleKeptSection={mockOnToggleKeptSection}
+        />
+      )
+
+      expect(screen.getByText('Safe Pocket: kept')).toHaveClass('active')
+      fireEvent.click(screen.getByText('Backpack: lost'))
+
+      expect(mockOnToggleKeptSection).toHaveBeenCalledWith('backpack')
+    })
+  })
+
+  describe('Export', () => {
+    it('should not offer an export without a handler', () => {
+      render(<LootTableModal {...defaultProps} />)
+
+      expect(screen.queryByTitle('Export Loot List')).not.toBeInTheDocument()
+    })
+
+    it('should export with the chosen format and grouping', () => {
+      const onExportLootList = vi.fn()
+      render(<LootTableModal {...defaultProps} lootTable={[createMockLootItem()]} onExportLootList={onExportLootList} />)
+
+      fireEvent.click(screen.getByTitle('Export Loot List'))
+      fireEvent.change(screen.getByLabelText('Export format'), { target: { value: 'markdown' } })
+      fireEvent.click(screen.getByLabelText('Group by rarity'))
+      fireEvent.click(screen.getByRole('button', { name: 'Download' }))
+      expect(onExportLootList).toHaveBeenCalledWith({ format: 'markdown', groupByRarity: true }, 'download')
+
+      fireEvent.click(screen.getByRole('button', { name: 'Copy' }))
+      expect(onExportLootList).toHaveBeenCalledWith({ format: 'markdown', groupByRarity: true }, 'clipboard')
+    })
+
+    it('should disable exporting an empty list', () => {
+      render(<LootTableModal {...defaultProps} onExportLootList={vi.fn()} />)
+
+      fireEvent.click(screen.getByTitle('Export Loot List'))
+
+      expect(screen.getByRole('button', { name: 'Download' })).toBeDisabled()
+      expect(screen.getByRole('button', { name: 'Copy' })).toBeDisabled()
+    })
+  })
 })
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { SearchQueryInput } from '../SearchQueryInput'
+
+const vocabulary = {
+  rarities: ['common', 'epic', 'rare'],
+  categories: ['modification', 'quick use'],
+  materials: [{ id: 'metal_parts', name: 'Metal Parts' }],
+}
+
+describe('SearchQueryInput', () => {
+  const onChange = vi.fn()
+  const defaultProps = { value: '', onChange, vocabulary, placeholder: 'Search items...' }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should list the fields when focused while empty', () => {
+    render(<SearchQueryInput {...defaultProps} />)
+
+    fireEvent.focus(screen.getByRole('combobox'))
+
+    expect(screen.getAllByRole('option').map((option) => option.textContent)).toEqual([
+      expect.stringMatching(/^rarity:/),
+      expect.stringMatching(/^cat:/),
+      expect.stringMatching(/^uses:/),
+      expect.stringMatching(/^tier:/),
+    ])
+    expect(screen.getByRole('combobox')).toHaveAttribute('aria-expanded', 'true')
+  })
+
+  it('should accept a suggestion on click', () => {
+    render(<SearchQueryInput {...defaultProps} value="rarity:e" />)
+
+    fireEvent.focus(screen.getByRole('combobox'))
+    fireEvent.click(screen.getByRole('option', { name: 'rarity:epic' }))
+
+    expect(onChange).toHaveBeenCalledWith('rarity:epic ')
+  })
+
+  it('should move through suggestions with the arrow keys and accept with Enter', () => {
+    render(<SearchQueryInput {...defaultProps} value="rarity:" />)
+    const input = screen.getByRole('combobox')
+
+    fireEvent.focus(input)
+    fireEvent.keyDown(input, { key: 'ArrowDown' })
+    fireEvent.keyDown(input, { key: 'ArrowDown' })
+    expect(screen.getAllByRole('option')[1]).toHaveAttribute('aria-selected', 'true')
+    expect(input).toHaveAttribute('aria-activedescendant', screen.getAllByRole('option')[1].id)
+
+    fireEvent.keyDown(input, { key: 'Enter' })
+    expect(onChange).toHaveBeenCalledWith('rarity:epic ')
+  })
+
+  it('should close the list with Escape', () => {
+    render(<SearchQueryInput {...defaultProps} />)
+    const input = screen.getByRole('combobox')
+
+    fireEvent.focus(input)
+    fireEvent.keyDown(input, { key: 'Escape' })
+
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument()
+  })
+
+  it('should report typed text', () => {
+    render(<SearchQueryInput {...defaultProps} />)
+
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'cat:mod' } })
+
+    expect(onChange).toHaveBeenCalledWith('cat:mod')
+  })
+
+  it('should explain a filter it cannot read', () => {
+    render(<SearchQueryInput {...defaultProps} value="tier:high" />)
+
+    expect(screen.getByText(`"high" isn't a tier; try tier:3 or tier:>=2`)).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,44 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { SectionSortControl } from '../SectionSortControl'
+
+describe('SectionSortControl', () => {
+  const defaultProps = {
+    sectionLabel: 'Backpack',
+    sortKey: 'category' as const,
+    onSortKeyChange: vi.fn(),
+    onSort: vi.fn(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should show the current sort key', () => {
+    render(<SectionSortControl {...defaultProps} />)
+
+    expect(screen.getByLabelText('Sort Backpack by')).toHaveValue('category')
+  })
+
+  it('should report a new sort key', () => {
+    render(<SectionSortControl {...defaultProps} />)
+
+    fireEvent.change(screen.getByLabelText('Sort Backpack by'), { target: { value: 'rarity' } })
+
+    expect(defaultProps.onSortKeyChange).toHaveBeenCalledWith('rarity')
+  })
+
+  it('should sort on click', () => {
+    render(<SectionSortControl {...defaultProps} />)
+
+    fireEvent.click(screen.getByText('Sort & Merge'))
+
+    expect(defaultProps.onSort).toHaveBeenCalled()
+  })
+
+  it('should disable sorting for an empty section', () => {
+    render(<SectionSortControl {...defaultProps} disabled />)
+
+    expect(screen.getByText('Sort & Merge')).toBeDisabled()
+  })
+})
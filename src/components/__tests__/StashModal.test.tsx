@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { StashModal } from '../StashModal'
+
+interface Item {
+  id: string
+  name: string
+  icon: string
+  isImage: boolean
+}
+
+const createMockItem = (overrides: Partial<Item> = {}): Item => ({
+  id: 'test-item',
+  name: 'Test Item',
+  icon: '📦',
+  isImage: false,
+  ...overrides,
+})
+
+describe('StashModal', () => {
+  const mockOnStashChange = vi.fn()
+  const mockOnClearStash = vi.fn()
+  const mockOnClose = vi.fn()
+
+  const allItemData = {
+    rubber: createMockItem({ id: 'rubber', name: 'Rubber' }),
+    metal_parts: createMockItem({ id: 'metal_parts', name: 'Metal Parts' }),
+    rope: createMockItem({ id: 'rope', name: 'Rope' }),
+  }
+
+  const defaultProps = {
+    allItemData,
+    stash: { rubber: 4 },
+    onStashChange: mockOnStashChange,
+    onClearStash: mockOnClearStash,
+    onClose: mockOnClose,
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should list stash entries', () => {
+    render(<StashModal {...defaultProps} />)
+
+    expect(screen.getByText('Rubber')).toBeInTheDocument()
+    expect(screen.getByLabelText('Owned Rubber')).toHaveValue(4)
+  })
+
+  it('should show an empty state', () => {
+    render(<StashModal {...defaultProps} stash={{}} />)
+
+    expect(screen.getByText('Nothing recorded yet')).toBeInTheDocument()
+    expect(screen.getByText('Clear')).toBeDisabled()
+  })
+
+  it('should add items found by search', () => {
+    render(<StashModal {...defaultProps} />)
+
+    fireEvent.change(screen.getByPlaceholderText('Add an item you own...'), { target: { value: 'ro' } })
+    fireEvent.click(screen.getByText('Rope'))
+
+    expect(mockOnStashChange).toHaveBeenCalledWith('rope', 1)
+  })
+
+  it('should not offer items already in the stash', () => {
+    render(<StashModal {...defaultProps} />)
+
+    fireEvent.change(screen.getByPlaceholderText('Add an item you own...'), { target: { value: 'rubber' } })
+
+    expect(screen.getAllByText('Rubber')).toHaveLength(1)
+  })
+
+  it('should update and remove counts', () => {
+    render(<StashModal {...defaultProps} />)
+
+    fireEvent.change(screen.getByLabelText('Owned Rubber'), { target: { value: '9' } })
+    fireEvent.click(screen.getByTitle('Remove'))
+
+    expect(mockOnStashChange).toHaveBeenNthCalledWith(1, 'rubber', 9)
+    expect(mockOnStashChange).toHaveBeenNthCalledWith(2, 'rubber', 0)
+  })
+
+  it('should keep a row while its count is cleared or set to 0, and remove it on blur', () => {
+    render(<StashModal {...defaultProps} />)
+    const input = screen.getByLabelText('Owned Rubber')
+
+    fireEvent.change(input, { target: { value: '' } })
+    expect(input).toHaveValue(null)
+    fireEvent.change(input, { target: { value: '0' } })
+    expect(input).toHaveValue(0)
+    expect(mockOnStashChange).not.toHaveBeenCalled()
+
+    fireEvent.blur(input)
+    expect(mockOnStashChange).toHaveBeenCalledWith('rubber', 0)
+  })
+
+  it('should keep a count typed after clearing the field', () => {
+    render(<StashModal {...defaultProps} />)
+    const input = screen.getByLabelText('Owned Rubber')
+
+    fireEvent.change(input, { target: { value: '' } })
+    fireEvent.change(input, { target: { value: '12' } })
+    fireEvent.blur(input)
+
+    expect(mockOnStashChange).toHaveBeenCalledTimes(1)
+    expect(mockOnStashChange).toHaveBeenCalledWith('rubber', 12)
+  })
+
+  it('should clear the stash', () => {
+    render(<StashModal {...defaultProps} />)
+
+    fireEvent.click(screen.getByText('Clear'))
+
+    expect(mockOnClearStash).toHaveBeenCalledTimes(1)
+  })
+})
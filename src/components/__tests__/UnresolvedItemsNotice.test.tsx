@@ -0,0 +1,27 @@
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/react'
+import { UnresolvedItemsNotice } from '../UnresolvedItemsNotice'
+
+describe('UnresolvedItemsNotice', () => {
+  it('should render nothing when every item resolved', () => {
+    const { container } = render(<UnresolvedItemsNotice itemIds={[]} onDismiss={vi.fn()} />)
+
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('should list the missing item ids', () => {
+    render(<UnresolvedItemsNotice itemIds={['old_rifle', 'old_scope']} onDismiss={vi.fn()} />)
+
+    expect(screen.getByRole('alert')).toHaveTextContent("2 items in this loadout couldn't be found and were left out")
+    expect(screen.getByText('old_rifle, old_scope')).toBeInTheDocument()
+  })
+
+  it('should call onDismiss', () => {
+    const mockOnDismiss = vi.fn()
+    render(<UnresolvedItemsNotice itemIds={['old_rifle']} onDismiss={mockOnDismiss} />)
+
+    fireEvent.click(screen.getByTitle('Dismiss'))
+
+    expect(mockOnDismiss).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useHistoryState } from '../useHistoryState'
+
+describe('useHistoryState', () => {
+  it('should undo and redo changes', () => {
+    const { result } = renderHook(() => useHistoryState({ count: 0 }))
+
+    act(() => result.current.setState({ count: 1 }))
+    act(() => result.current.setState((prev) => ({ count: prev.count + 1 })))
+    expect(result.current.state).toEqual({ count: 2 })
+
+    act(() => result.current.undo())
+    expect(result.current.state).toEqual({ count: 1 })
+    expect(result.current.canRedo).toBe(true)
+
+    act(() => result.current.redo())
+    expect(result.current.state).toEqual({ count: 2 })
+    expect(result.current.canRedo).toBe(false)
+  })
+
+  it('should clear the redo stack on a new change', () => {
+    const { result } = renderHook(() => useHistoryState(0))
+
+    act(() => result.current.setState(1))
+    act(() => result.current.undo())
+    act(() => result.current.setState(5))
+
+    expect(result.current.canRedo).toBe(false)
+    act(() => result.current.undo())
+    expect(result.current.state).toBe(0)
+  })
+
+  it('should not record updates that return the same state', () => {
+    const { result } = renderHook(() => useHistoryState({ count: 0 }))
+
+    act(() => result.current.setState((prev) => prev))
+
+    expect(result.current.canUndo).toBe(false)
+  })
+
+  it('should drop the oldest snapshots past the limit', () => {
+    const { result } = renderHook(() => useHistoryState(0, 3))
+
+    for (let i = 1; i <= 5; i++) act(() => result.current.setState(i))
+    for (let i = 0; i < 5; i++) act(() => result.current.undo())
+
+    expect(result.current.state).toBe(2)
+    expect(result.current.canUndo).toBe(false)
+  })
+
+  it('should replace the current snapshot without recording it', () => {
+    const { result } = renderHook(() => useHistoryState(0))
+
+    act(() => result.current.setState(1))
+    act(() => result.current.replaceState(2))
+    act(() => result.current.undo())
+
+    expect(result.current.state).toBe(0)
+    act(() => result.current.redo())
+    expect(result.current.state).toBe(2)
+  })
+
+  it('should fold consecutive changes with the same merge key into one step', () => {
+    const { result } = renderHook(() => useHistoryState({ title: '', count: 0 }))
+
+    ;['L', 'LO', 'LOO', 'LOOT'].forEach((title) => act(() => result.current.setState((prev) => ({ ...prev, title }), 'title')))
+    expect(result.current.state.title).toBe('LOOT')
+
+    act(() => result.current.undo())
+    expect(result.current.state.title).toBe('')
+    expect(result.current.canUndo).toBe(false)
+  })
+
+  it('should start a new step once another change or an undo comes between', () => {
+    const { result } = renderHook(() => useHistoryState({ title: '', count: 0 }))
+
+    act(() => result.current.setState((prev) => ({ ...prev, title: 'A' }), 'title'))
+    act(() => result.current.setState((prev) => ({ ...prev, count: 1 })))
+    act(() => result.current.setState((prev) => ({ ...prev, title: 'AB' }), 'title'))
+    act(() => result.current.undo())
+    expect(result.current.state).toEqual({ title: 'A', count: 1 })
+
+    act(() => result.current.setState((prev) => ({ ...prev, title: 'AC' }), 'title'))
+    act(() => result.current.undo())
+    expect(result.current.state).toEqual({ title: 'A', count: 1 })
+  })
+
+  it('should start over on reset', () => {
+    const { result } = renderHook(() => useHistoryState(0))
+
+    act(() => result.current.setState(1))
+    act(() => result.current.resetHistory(10))
+
+    expect(result.current.state).toBe(10)
+    expect(result.current.canUndo).toBe(false)
+    expect(result.current.canRedo).toBe(false)
+  })
+})
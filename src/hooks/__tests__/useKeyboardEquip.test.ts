@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { KeyboardEvent } from 'react'
+import { useKeyboardEquip } from '../useKeyboardEquip'
+
+interface Item {
+  id: string
+  name: string
+  count?: number
+  stackSize?: number
+  isIntegrated?: boolean
+}
+
+interface SlotRef {
+  section: string
+  index: number
+  modIndex?: number
+}
+
+const rifle: Item = { id: 'rifle', name: 'Rifle' }
+const bandage: Item = { id: 'bandage', name: 'Bandage', stackSize: 5, count: 3 }
+const binoculars: Item = { id: 'binoculars', name: 'Binoculars', isIntegrated: true }
+
+const weaponSlot: SlotRef = { section: 'weapons', index: 0 }
+const backpackSlot: SlotRef = { section: 'backpack', index: 2 }
+
+const createKeyEvent = (key: string) => {
+  const target = {}
+  return { key, target, currentTarget: target, preventDefault: vi.fn() } as unknown as KeyboardEvent
+}
+
+const createProps = (slots: Record<string, Item | null> = {}) => ({
+  getSlotItem: vi.fn((slot: SlotRef) => slots[`${slot.section}|${slot.index}`] ?? null),
+  getRejection: vi.fn((item: Item, slot: SlotRef) => (slot.section === 'weapons' && item.id !== 'rifle' ? 'Only weapons fit here' : null)),
+  findBestSlot: vi.fn((): SlotRef | null => backpackSlot),
+  getNoSlotReason: vi.fn(() => 'Weapons and Backpack are full'),
+  describeSlot: vi.fn((slot: SlotRef) => `${slot.section} slot ${slot.index + 1}`),
+  onPlace: vi.fn(),
+  onUnequip: vi.fn(),
+  onFocusSlot: vi.fn(),
+  onNavigate: vi.fn(),
+})
+
+describe('useKeyboardEquip', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should pick up an inventory item and focus its best slot', () => {
+    const props = createProps()
+    const { result } = renderHook(() => useKeyboardEquip(props))
+
+    act(() => result.current.pickUp(rifle, null))
+
+    expect(result.current.heldItem).toEqual({ item: rifle, from: null })
+    expect(props.onFocusSlot).toHaveBeenCalledWith(backpackSlot)
+    expect(result.current.announcement).toMatch(/^Picked up Rifle/)
+  })
+
+  it('should place the held item with Enter', () => {
+    const props = createProps()
+    const { result } = renderHook(() => useKeyboardEquip(props))
+
+    act(() => result.current.pickUp(rifle, null))
+    act(() => result.current.handleSlotKeyDown(createKeyEvent('Enter'), weaponSlot))
+
+    expect(props.onPlace).toHaveBeenCalledWith(rifle, null, weaponSlot)
+    expect(result.current.heldItem).toBeNull()
+    expect(result.current.announcement).toBe('Placed Rifle in weapons slot 1')
+  })
+
+  it('should keep holding and announce why a slot is rejected', () => {
+    const props = createProps()
+    const { result } = renderHook(() => useKeyboardEquip(props))
+
+    act(() => result.current.pickUp(bandage, null))
+    act(() => result.current.placeAt(weaponSlot))
+
+    expect(props.onPlace).not.toHaveBeenCalled()
+    expect(result.current.heldItem?.item).toBe(bandage)
+    expect(result.current.announcement).toBe("Can't place Bandage in weapons slot 1: Only weapons fit here")
+  })
+
+  it('should pick up from a slot and move it elsewhere', () => {
+    const props = createProps({ 'weapons|0': rifle })
+    const { result } = renderHook(() => useKeyboardEquip(props))
+
+    act(() => result.current.handleSlotKeyDown(createKeyEvent('Enter'), weaponSlot))
+    expect(result.current.heldItem).toEqual({ item: rifle, from: weaponSlot })
+
+    act(() => result.current.handleSlotKeyDown(createKeyEvent(' '), backpackSlot))
+    expect(props.onPlace).toHaveBeenCalledWith(rifle, weaponSlot, backpackSlot)
+  })
+
+  it('should put the item back when placed on its own slot or cancelled', () => {
+    const props = createProps({ 'weapons|0': rifle })
+    const { result } = renderHook(() => useKeyboardEquip(props))
+
+    act(() => result.current.handleSlotKeyDown(createKeyEvent('Enter'), weaponSlot))
+    act(() => result.current.handleSlotKeyDown(createKeyEvent('Enter'), weaponSlot))
+    expect(result.current.heldItem).toBeNull()
+    expect(result.current.announcement).toBe('Put Rifle back')
+
+    act(() => result.current.pickUp(rifle, weaponSlot))
+    act(() => result.current.handleSlotKeyDown(createKeyEvent('Escape'), backpackSlot))
+    expect(result.current.heldItem).toBeNull()
+    expect(props.onPlace).not.toHaveBeenCalled()
+  })
+
+  it('should send an item straight to its best slot', () => {
+    const props = createProps()
+    const { result } = renderHook(() => useKeyboardEquip(props))
+
+    let target: SlotRef | null = null
+    act(() => {
+      target = result.current.sendToBestSlot(bandage)
+    })
+
+    expect(target).toEqual(backpackSlot)
+    expect(props.onPlace).toHaveBeenCalledWith(bandage, null, backpackSlot)
+    expect(result.current.announcement).toBe('Equipped Bandage in backpack slot 3')
+  })
+
+  it('should announce when there is no free slot', () => {
+    const props = createProps()
+    props.findBestSlot.mockReturnValue(null)
+    const { result } = renderHook(() => useKeyboardEquip(props))
+
+    act(() => result.current.sendToBestSlot(rifle))
+
+    expect(props.onPlace).not.toHaveBeenCalled()
+    expect(result.current.announcement).toBe('No free slot for Rifle: Weapons and Backpack are full')
+  })
+
+  it('should unequip with Delete but leave integrated items alone', () => {
+    const props = createProps({ 'backpack|2': bandage, 'extra|0': binoculars })
+    const { result } = renderHook(() => useKeyboardEquip(props))
+
+    act(() => result.current.handleSlotKeyDown(createKeyEvent('Delete'), backpackSlot))
+    expect(props.onUnequip).toHaveBeenCalledWith(backpackSlot)
+    expect(result.current.announcement).toBe('Removed Bandage ×3 from backpack slot 3')
+
+    act(() => result.current.handleSlotKeyDown(createKeyEvent('Backspace'), { section: 'extra', index: 0 }))
+    expect(props.onUnequip).toHaveBeenCalledTimes(1)
+    expect(result.current.announcement).toBe('Binoculars is built into the augment')
+  })
+
+  it('should navigate with the arrow keys', () => {
+    const props = createProps()
+    const { result } = renderHook(() => useKeyboardEquip(props))
+
+    const event = createKeyEvent('ArrowRight')
+    act(() => result.current.handleSlotKeyDown(event, weaponSlot))
+
+    expect(props.onNavigate).toHaveBeenCalledWith(weaponSlot, 'right')
+    expect(event.preventDefault).toHaveBeenCalled()
+  })
+
+  it('should ignore keys from elements inside the slot', () => {
+    const props = createProps({ 'backpack|2': bandage })
+    const { result } = renderHook(() => useKeyboardEquip(props))
+
+    const event = { key: 'Backspace', target: {}, currentTarget: {}, preventDefault: vi.fn() } as unknown as KeyboardEvent
+    act(() => result.current.handleSlotKeyDown(event, backpackSlot))
+
+    expect(props.onUnequip).not.toHaveBeenCalled()
+  })
+})
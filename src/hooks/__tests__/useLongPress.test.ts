@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook } from '@testing-library/react'
+import { TouchEvent } from 'react'
+import { useLongPress, LONG_PRESS_DELAY } from '../useLongPress'
+
+const createTouchEvent = (x: number, y: number) => ({ touches: [{ clientX: x, clientY: y }] }) as unknown as TouchEvent
+
+describe('useLongPress', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should fire after the finger stays down', () => {
+    const onLongPress = vi.fn()
+    const { result } = renderHook(() => useLongPress())
+
+    result.current.start(createTouchEvent(10, 10), onLongPress)
+    vi.advanceTimersByTime(LONG_PRESS_DELAY - 1)
+    expect(onLongPress).not.toHaveBeenCalled()
+
+    vi.advanceTimersByTime(1)
+    expect(onLongPress).toHaveBeenCalledTimes(1)
+  })
+
+  it('should tolerate a small wobble but cancel on a drag', () => {
+    const onLongPress = vi.fn()
+    const { result } = renderHook(() => useLongPress())
+
+    result.current.start(createTouchEvent(10, 10), onLongPress)
+    result.current.move(createTouchEvent(13, 12))
+    vi.advanceTimersByTime(LONG_PRESS_DELAY)
+    expect(onLongPress).toHaveBeenCalledTimes(1)
+
+    result.current.start(createTouchEvent(10, 10), onLongPress)
+    result.current.move(createTouchEvent(10, 40))
+    vi.advanceTimersByTime(LONG_PRESS_DELAY)
+    expect(onLongPress).toHaveBeenCalledTimes(1)
+  })
+
+  it('should cancel when the finger lifts early', () => {
+    const onLongPress = vi.fn()
+    const { result } = renderHook(() => useLongPress())
+
+    result.current.start(createTouchEvent(10, 10), onLongPress)
+    result.current.cancel()
+    vi.advanceTimersByTime(LONG_PRESS_DELAY)
+
+    expect(onLongPress).not.toHaveBeenCalled()
+  })
+
+  it('should not fire after unmounting', () => {
+    const onLongPress = vi.fn()
+    const { result, unmount } = renderHook(() => useLongPress())
+
+    result.current.start(createTouchEvent(10, 10), onLongPress)
+    unmount()
+    vi.advanceTimersByTime(LONG_PRESS_DELAY)
+
+    expect(onLongPress).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { getLootListKey, useLootChecklist, LOOT_CHECKLIST_STORAGE_KEY } from '../useLootChecklist'
+
+describe('useLootChecklist', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('should build the same key regardless of item order', () => {
+    expect(getLootListKey([{ id: 'rubber', count: 4 }, { id: 'cloth', count: 2 }])).toBe('cloth:2,rubber:4')
+    expect(getLootListKey([{ id: 'cloth', count: 2 }, { id: 'rubber', count: 4 }])).toBe('cloth:2,rubber:4')
+    expect(getLootListKey([{ id: 'cloth', count: 3 }, { id: 'rubber', count: 4 }])).not.toBe('cloth:2,rubber:4')
+  })
+
+  it('should set and persist collected amounts per list', () => {
+    const { result } = renderHook(() => useLootChecklist('rubber:4'))
+
+    act(() => result.current.setCollected('rubber', 3))
+    expect(result.current.collected).toEqual({ rubber: 3 })
+    expect(JSON.parse(localStorage.getItem(LOOT_CHECKLIST_STORAGE_KEY)!)).toEqual({ 'rubber:4': { rubber: 3 } })
+
+    const other = renderHook(() => useLootChecklist('cloth:2'))
+    expect(other.result.current.collected).toEqual({})
+  })
+
+  it('should drop amounts set to zero and reset a list', () => {
+    const { result } = renderHook(() => useLootChecklist('cloth:2,rubber:4'))
+
+    act(() => {
+      result.current.setCollected('rubber', 2)
+      result.current.setCollected('cloth', 1)
+    })
+    act(() => result.current.setCollected('rubber', 0))
+    expect(result.current.collected).toEqual({ cloth: 1 })
+
+    act(() => result.current.resetProgress())
+    expect(result.current.collected).toEqual({})
+    expect(JSON.parse(localStorage.getItem(LOOT_CHECKLIST_STORAGE_KEY)!)).toEqual({})
+  })
+
+  it('should ignore changes without a list', () => {
+    const { result } = renderHook(() => useLootChecklist(null))
+
+    act(() => result.current.setCollected('rubber', 2))
+    expect(result.current.collected).toEqual({})
+  })
+
+  it('should forget the least recently used lists beyond the limit', () => {
+    const saved = Object.fromEntries(Array.from({ length: 20 }, (_, i) => [`item_${i}:1`, { [`item_${i}`]: 1 }]))
+    localStorage.setItem(LOOT_CHECKLIST_STORAGE_KEY, JSON.stringify(saved))
+    const { result } = renderHook(() => useLootChecklist('item_0:1'))
+
+    // Touching the oldest list keeps it; adding a new one pushes out the next oldest
+    act(() => result.current.setCollected('item_0', 1))
+    const next = renderHook(() => useLootChecklist('new:1'))
+    act(() => next.result.current.setCollected('new', 1))
+
+    const stored = JSON.parse(localStorage.getItem(LOOT_CHECKLIST_STORAGE_KEY)!)
+    expect(Object.keys(stored)).toHaveLength(20)
+    expect(stored['item_0:1']).toEqual({ item_0: 1 })
+    expect(stored['item_1:1']).toBeUndefined()
+    expect(stored['new:1']).toEqual({ new: 1 })
+  })
+
+  it('should drop invalid saved amounts', () => {
+    localStorage.setItem(LOOT_CHECKLIST_STORAGE_KEY, JSON.stringify({ 'rubber:4': { rubber: 2, cloth: 'x', wire: -1 }, broken: 5 }))
+
+    const { result } = renderHook(() => useLootChecklist('rubber:4'))
+
+    expect(result.current.collected).toEqual({ rubber: 2 })
+  })
+
+  it('should start fresh when saved progress is corrupt', () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+    localStorage.setItem(LOOT_CHECKLIST_STORAGE_KEY, '{not json')
+
+    const { result } = renderHook(() => useLootChecklist('rubber:4'))
+
+    expect(result.current.collected).toEqual({})
+    expect(consoleSpy).toHaveBeenCalled()
+    consoleSpy.mockRestore()
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useLootPlan, LOOT_PLAN_STORAGE_KEY } from '../useLootPlan'
+
+describe('useLootPlan', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('should default to a single raid keeping only the safe pocket', () => {
+    const { result } = renderHook(() => useLootPlan())
+
+    expect(result.current.raids).toBe(1)
+    expect(result.current.keptSections).toEqual(['safePocket'])
+  })
+
+  it('should clamp and persist the raid count', () => {
+    const { result } = renderHook(() => useLootPlan())
+
+    act(() => result.current.setRaids(0))
+    expect(result.current.raids).toBe(1)
+
+    act(() => result.current.setRaids(5))
+    expect(result.current.raids).toBe(5)
+    expect(JSON.parse(localStorage.getItem(LOOT_PLAN_STORAGE_KEY)!).raids).toBe(5)
+  })
+
+  it('should toggle kept sections', () => {
+    const { result } = renderHook(() => useLootPlan())
+
+    act(() => result.current.toggleKeptSection('augment'))
+    expect(result.current.keptSections).toEqual(['safePocket', 'augment'])
+
+    act(() => result.current.toggleKeptSection('safePocket'))
+    expect(result.current.keptSections).toEqual(['augment'])
+  })
+
+  it('should restore a saved plan and drop unknown sections', () => {
+    localStorage.setItem(LOOT_PLAN_STORAGE_KEY, JSON.stringify({ raids: 3, keptSections: ['backpack', 'pockets'] }))
+
+    const { result } = renderHook(() => useLootPlan())
+
+    expect(result.current.raids).toBe(3)
+    expect(result.current.keptSections).toEqual(['backpack'])
+  })
+  it('should set, clear and persist current tiers', () => {
+    const { result } = renderHook(() => useLootPlan())
+
+    act(() => result.current.setCurrentTier('anvil_iv', 2))
+    expect(result.current.currentTiers).toEqual({ anvil_iv: 2 })
+    expect(JSON.parse(localStorage.getItem(LOOT_PLAN_STORAGE_KEY)!).currentTiers).toEqual({ anvil_iv: 2 })
+
+    act(() => result.current.setCurrentTier('anvil_iv', 0))
+    expect(result.current.currentTiers).toEqual({})
+  })
+
+  it('should drop invalid saved tiers', () => {
+    localStorage.setItem(LOOT_PLAN_STORAGE_KEY, JSON.stringify({ raids: 1, currentTiers: { anvil_iv: 2, ferro_ii: 'x', tempest_iii: -1 } }))
+
+    const { result } = renderHook(() => useLootPlan())
+
+    expect(result.current.currentTiers).toEqual({ anvil_iv: 2 })
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { renderHook } from '@testing-library/react'
+import { useSearchIndex } from '../useSearchIndex'
+
+interface Item {
+  id: string
+  name: string
+  category: string[]
+  rarity: string
+}
+
+const createMockItem = (overrides: Partial<Item> = {}): Item => ({
+  id: 'test-item',
+  name: 'Test Item',
+  category: ['Quick Use'],
+  rarity: 'Common',
+  ...overrides,
+})
+
+const grenade = createMockItem({ id: 'frag_grenade', name: 'Frag Grenade', category: ['Quick Use', 'Grenade'] })
+const ammo = createMockItem({ id: 'light_ammo', name: 'Light Ammo', category: ['Ammunition'] })
+const ammonia = createMockItem({ id: 'ammonia', name: 'Ammonia', category: ['Material'] })
+
+describe('useSearchIndex', () => {
+  it('should return every item while not searching', () => {
+    const items = [grenade, ammo]
+    const { result } = renderHook(() => useSearchIndex(items, ''))
+
+    expect(result.current).toBe(items)
+  })
+
+  it('should return the matching items best first', () => {
+    const items = [ammonia, grenade, ammo]
+    const { result } = renderHook(() => useSearchIndex(items, 'ammo'))
+
+    expect(result.current.map((item) => item.id)).toEqual(['light_ammo', 'ammonia'])
+  })
+
+  it('should follow the search and the item list', () => {
+    const items = [grenade, ammo]
+    const moreItems = [grenade, ammo, ammonia]
+    const { result, rerender } = renderHook(({ items, search }) => useSearchIndex(items, search), {
+      initialProps: { items, search: 'grenda' },
+    })
+    expect(result.current).toEqual([grenade])
+
+    rerender({ items, search: 'light' })
+    expect(result.current).toEqual([ammo])
+
+    rerender({ items: moreItems, search: 'ammo' })
+    expect(result.current.map((item) => item.id)).toEqual(['light_ammo', 'ammonia'])
+  })
+})
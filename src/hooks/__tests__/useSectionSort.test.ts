@@ -0,0 +1,33 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useSectionSort, SECTION_SORT_STORAGE_KEY } from '../useSectionSort'
+
+describe('useSectionSort', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('should default every section to sorting by category', () => {
+    const { result } = renderHook(() => useSectionSort())
+
+    expect(result.current.sortKeys).toEqual({ backpack: 'category', quickUse: 'category', safePocket: 'category' })
+  })
+
+  it('should persist the sort key per section', () => {
+    const { result } = renderHook(() => useSectionSort())
+
+    act(() => result.current.setSortKey('backpack', 'rarity'))
+
+    expect(result.current.sortKeys.backpack).toBe('rarity')
+    expect(result.current.sortKeys.quickUse).toBe('category')
+    expect(JSON.parse(localStorage.getItem(SECTION_SORT_STORAGE_KEY)!).backpack).toBe('rarity')
+  })
+
+  it('should restore saved keys and ignore unknown ones', () => {
+    localStorage.setItem(SECTION_SORT_STORAGE_KEY, JSON.stringify({ quickUse: 'name', safePocket: 'weight' }))
+
+    const { result } = renderHook(() => useSectionSort())
+
+    expect(result.current.sortKeys).toEqual({ backpack: 'category', quickUse: 'name', safePocket: 'category' })
+  })
+})
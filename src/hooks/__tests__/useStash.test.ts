@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useStash, STASH_STORAGE_KEY } from '../useStash'
+
+describe('useStash', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('should start empty', () => {
+    const { result } = renderHook(() => useStash())
+
+    expect(result.current.stash).toEqual({})
+  })
+
+  it('should persist counts', () => {
+    const { result } = renderHook(() => useStash())
+
+    act(() => result.current.setStashCount('rubber', 3))
+
+    expect(result.current.stash).toEqual({ rubber: 3 })
+    expect(JSON.parse(localStorage.getItem(STASH_STORAGE_KEY)!)).toEqual({ rubber: 3 })
+  })
+
+  it('should restore saved counts and drop invalid entries', () => {
+    localStorage.setItem(STASH_STORAGE_KEY, JSON.stringify({ rubber: 2, rope: -1, springs: 'x' }))
+
+    const { result } = renderHook(() => useStash())
+
+    expect(result.current.stash).toEqual({ rubber: 2 })
+  })
+
+  it('should remove an item when its count reaches zero', () => {
+    const { result } = renderHook(() => useStash())
+
+    act(() => result.current.setStashCount('rubber', 3))
+    act(() => result.current.setStashCount('rubber', 0))
+
+    expect(result.current.stash).toEqual({})
+  })
+
+  it('should clear everything', () => {
+    const { result } = renderHook(() => useStash())
+
+    act(() => result.current.setStashCount('rubber', 3))
+    act(() => result.current.clearStash())
+
+    expect(result.current.stash).toEqual({})
+  })
+})
@@ -0,0 +1,78 @@
+import { useState, useCallback } from 'react'
+
+// State with a bounded undo/redo history of snapshots
+
+export const HISTORY_LIMIT = 50
+
+type Updater<T> = T | ((prev: T) => T)
+
+interface History<T> {
+  past: T[]
+  present: T
+  future: T[]
+  // Set by the last recorded change; a following change with the same key is folded into it
+  mergeKey?: string
+}
+
+const resolve = <T>(updater: Updater<T>, prev: T): T =>
+  typeof updater === 'function' ? (updater as (prev: T) => T)(prev) : updater
+
+export function useHistoryState<T>(initial: T | (() => T), limit: number = HISTORY_LIMIT) {
+  const [history, setHistory] = useState<History<T>>(() => ({
+    past: [],
+    present: typeof initial === 'function' ? (initial as () => T)() : initial,
+    future: [],
+  }))
+
+  // Records the previous state so it can be undone. Consecutive changes passing the same mergeKey
+  // (e.g. each keystroke in one text field) share a single undo step.
+  const setState = useCallback(
+    (updater: Updater<T>, mergeKey?: string) => {
+      setHistory((h) => {
+        const next = resolve(updater, h.present)
+        if (next === h.present) return h
+        if (mergeKey !== undefined && mergeKey === h.mergeKey) return { ...h, present: next, future: [] }
+        return { past: [...h.past, h.present].slice(-limit), present: next, future: [], mergeKey }
+      })
+    },
+    [limit]
+  )
+
+  // Updates the current snapshot in place, for changes that follow from an edit rather than being one
+  const replaceState = useCallback((updater: Updater<T>) => {
+    setHistory((h) => {
+      const next = resolve(updater, h.present)
+      return next === h.present ? h : { ...h, present: next }
+    })
+  }, [])
+
+  // Starts a fresh history, e.g. when a different loadout is loaded
+  const resetHistory = useCallback((state: T) => {
+    setHistory({ past: [], present: state, future: [] })
+  }, [])
+
+  const undo = useCallback(() => {
+    setHistory((h) =>
+      h.past.length === 0
+        ? h
+        : { past: h.past.slice(0, -1), present: h.past[h.past.length - 1], future: [h.present, ...h.future] }
+    )
+  }, [])
+
+  const redo = useCallback(() => {
+    setHistory((h) =>
+      h.future.length === 0 ? h : { past: [...h.past, h.present], present: h.future[0], future: h.future.slice(1) }
+    )
+  }, [])
+
+  return {
+    state: history.present,
+    setState,
+    replaceState,
+    resetHistory,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  }
+}
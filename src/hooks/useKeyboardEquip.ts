@@ -0,0 +1,161 @@
+import { useState, useCallback, KeyboardEvent } from 'react'
+import { ARROW_DIRECTIONS, Direction } from '../utils/spatialNavigation'
+
+// Pointer-free equipping: pick an item up with Enter, move between slots with the arrow keys and
+// place it with Enter again. Every step is announced through a live region.
+
+interface Item {
+  id: string
+  name: string
+  count?: number
+  stackSize?: number
+  isIntegrated?: boolean
+}
+
+interface SlotRef {
+  section: string
+  index: number
+  modIndex?: number
+}
+
+export interface HeldItem<T extends Item, S extends SlotRef = SlotRef> {
+  item: T
+  // Slot the item was picked up from, or null when it came from the inventory
+  from: S | null
+}
+
+interface UseKeyboardEquipProps<T extends Item, S extends SlotRef> {
+  getSlotItem: (slot: S) => T | null
+  getRejection: (item: T, slot: S) => string | null
+  findBestSlot: (item: T) => S | null
+  getNoSlotReason: (item: T) => string
+  describeSlot: (slot: S) => string
+  onPlace: (item: T, from: S | null, target: S) => void
+  onUnequip: (slot: S) => void
+  onFocusSlot: (slot: S) => void
+  onNavigate: (slot: S, direction: Direction) => void
+}
+
+const isSameSlot = (a: SlotRef, b: SlotRef) =>
+  a.section === b.section && a.index === b.index && (a.modIndex ?? -1) === (b.modIndex ?? -1)
+
+const describeItem = (item: Item) => (item.stackSize && (item.count || 1) > 1 ? `${item.name} ×${item.count}` : item.name)
+
+export function useKeyboardEquip<T extends Item, S extends SlotRef = SlotRef>({
+  getSlotItem,
+  getRejection,
+  findBestSlot,
+  getNoSlotReason,
+  describeSlot,
+  onPlace,
+  onUnequip,
+  onFocusSlot,
+  onNavigate,
+}: UseKeyboardEquipProps<T, S>) {
+  const [heldItem, setHeldItem] = useState<HeldItem<T, S> | null>(null)
+  const [announcement, setAnnouncement] = useState('')
+
+  const pickUp = useCallback(
+    (item: T, from: S | null) => {
+      setHeldItem({ item, from })
+      setAnnouncement(`Picked up ${describeItem(item)}. Arrow keys choose a slot, Enter places it, Escape cancels.`)
+      // From the inventory, start at the slot the item would go to anyway
+      if (!from) {
+        const best = findBestSlot(item)
+        if (best) onFocusSlot(best)
+      }
+    },
+    [findBestSlot, onFocusSlot]
+  )
+
+  const cancel = useCallback(() => {
+    if (!heldItem) return
+    setHeldItem(null)
+    setAnnouncement(`Put ${heldItem.item.name} back`)
+  }, [heldItem])
+
+  const placeAt = (target: S) => {
+    if (!heldItem) return
+    const { item, from } = heldItem
+    if (from && isSameSlot(from, target)) {
+      cancel()
+      return
+    }
+    const rejection = getRejection(item, target)
+    if (rejection) {
+      setAnnouncement(`Can't place ${item.name} in ${describeSlot(target)}: ${rejection}`)
+      return
+    }
+    onPlace(item, from, target)
+    setHeldItem(null)
+    setAnnouncement(`Placed ${describeItem(item)} in ${describeSlot(target)}`)
+  }
+
+  // Returns the slot the item went to, or null when nothing could take it
+  const sendToBestSlot = (item: T): S | null => {
+    const target = findBestSlot(item)
+    if (!target) {
+      setAnnouncement(`No free slot for ${item.name}: ${getNoSlotReason(item)}`)
+      return null
+    }
+    onPlace(item, null, target)
+    setAnnouncement(`Equipped ${item.name} in ${describeSlot(target)}`)
+    return target
+  }
+
+  const unequipAt = (slot: S) => {
+    const item = getSlotItem(slot)
+    if (!item) return
+    if (item.isIntegrated) {
+      setAnnouncement(`${item.name} is built into the augment`)
+      return
+    }
+    onUnequip(slot)
+    setAnnouncement(`Removed ${describeItem(item)} from ${describeSlot(slot)}`)
+  }
+
+  // Keys on a focused loadout slot. Keys from inputs inside the slot (stack counts) are left alone.
+  const handleSlotKeyDown = (e: KeyboardEvent, slot: S) => {
+    if (e.target !== e.currentTarget) return
+
+    const direction = ARROW_DIRECTIONS[e.key]
+    if (direction) {
+      e.preventDefault()
+      onNavigate(slot, direction)
+      return
+    }
+
+    switch (e.key) {
+      case 'Enter':
+      case ' ': {
+        e.preventDefault()
+        if (heldItem) {
+          placeAt(slot)
+        } else {
+          const item = getSlotItem(slot)
+          if (item && !item.isIntegrated) pickUp(item, slot)
+        }
+        break
+      }
+      case 'Delete':
+      case 'Backspace':
+        e.preventDefault()
+        unequipAt(slot)
+        break
+      case 'Escape':
+        cancel()
+        break
+    }
+  }
+
+  return {
+    heldItem,
+    announcement,
+    pickUp,
+    cancel,
+    placeAt,
+    sendToBestSlot,
+    unequipAt,
+    handleSlotKeyDown,
+  }
+}
@@ -0,0 +1,46 @@
+import { useRef, useCallback, useEffect, TouchEvent } from 'react'
+
+// Long-press detection for touch: fires after the finger has stayed put for `delay` ms. Moving
+// further than a few pixels (a drag or a scroll) or lifting the finger cancels it.
+
+export const LONG_PRESS_DELAY = 500 // ms
+const LONG_PRESS_MAX_MOVE = 10 // px
+
+export function useLongPress(delay: number = LONG_PRESS_DELAY) {
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const origin = useRef<{ x: number; y: number } | null>(null)
+
+  const cancel = useCallback(() => {
+    if (timer.current) clearTimeout(timer.current)
+    timer.current = null
+    origin.current = null
+  }, [])
+
+  const start = useCallback(
+    (e: TouchEvent, onLongPress: () => void) => {
+      cancel()
+      const touch = e.touches[0]
+      origin.current = { x: touch.clientX, y: touch.clientY }
+      timer.current = setTimeout(() => {
+        timer.current = null
+        origin.current = null
+        onLongPress()
+      }, delay)
+    },
+    [delay, cancel]
+  )
+
+  const move = useCallback(
+    (e: TouchEvent) => {
+      if (!origin.current) return
+      const touch = e.touches[0]
+      const moved = Math.abs(touch.clientX - origin.current.x) + Math.abs(touch.clientY - origin.current.y)
+      if (moved > LONG_PRESS_MAX_MOVE) cancel()
+    },
+    [cancel]
+  )
+
+  useEffect(() => cancel, [cancel])
+
+  return { start, move, cancel }
+}
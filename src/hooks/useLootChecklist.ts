@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback } from 'react'
+
+// Collected amounts on shared mobile loot lists, so progress made during a raid survives reloads.
+// Each list is saved under a key built from its contents; opening a different link starts fresh.
+
+export const LOOT_CHECKLIST_STORAGE_KEY = 'arc_raiders_loot_checklist'
+
+// Oldest lists are forgotten beyond this
+const MAX_SAVED_LISTS = 20
+
+type Checklists = Record<string, Record<string, number>>
+
+export const getLootListKey = (items: { id: string; count: number }[]) =>
+  items
+    .map(({ id, count }) => `${id}:${count}`)
+    .sort()
+    .join(',')
+
+const loadChecklists = (): Checklists => {
+  try {
+    const saved = localStorage.getItem(LOOT_CHECKLIST_STORAGE_KEY)
+    if (!saved) return {}
+    const parsed = JSON.parse(saved)
+    const checklists: Checklists = {}
+    Object.entries(parsed).forEach(([listKey, collected]) => {
+      if (!collected || typeof collected !== 'object') return
+      checklists[listKey] = {}
+      Object.entries(collected).forEach(([id, count]) => {
+        if (typeof count === 'number' && count > 0) checklists[listKey][id] = Math.floor(count)
+      })
+    })
+    return checklists
+  } catch (e) {
+    console.error('[LootChecklist] Failed to load saved progress', e)
+    return {}
+  }
+}
+
+export function useLootChecklist(listKey: string | null) {
+  const [checklists, setChecklists] = useState<Checklists>(loadChecklists)
+
+  useEffect(() => {
+    localStorage.setItem(LOOT_CHECKLIST_STORAGE_KEY, JSON.stringify(checklists))
+  }, [checklists])
+
+  const updateList = useCallback(
+    (update: (collected: Record<string, number>) => Record<string, number>) => {
+      if (listKey === null) return
+      setChecklists((prev) => {
+        const { [listKey]: current = {}, ...others } = prev
+        const collected = update(current)
+        // Re-inserted last so the most recently used lists are the ones kept
+        const next = Object.keys(collected).length > 0 ? { ...others, [listKey]: collected } : others
+        const keys = Object.keys(next)
+        return keys.length > MAX_SAVED_LISTS
+          ? Object.fromEntries(keys.slice(-MAX_SAVED_LISTS).map((key) => [key, next[key]]))
+          : next
+      })
+    },
+    [listKey]
+  )
+
+  const setCollected = useCallback(
+    (id: string, count: number) => {
+      updateList((collected) => {
+        const next = { ...collected }
+        if (!Number.isFinite(count) || count <= 0) delete next[id]
+        else next[id] = Math.floor(count)
+        return next
+      })
+    },
+    [updateList]
+  )
+
+  const resetProgress = useCallback(() => updateList(() => ({})), [updateList])
+
+  return { collected: (listKey !== null && checklists[listKey]) || {}, setCollected, resetProgress }
+}
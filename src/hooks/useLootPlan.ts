@@ -0,0 +1,79 @@
+import { useState, useEffect, useCallback } from 'react'
+import { DEFAULT_KEPT_SECTIONS, LOADOUT_SECTIONS, LoadoutSection } from '../utils/lootTable'
+
+// How many raids the loot table plans for, which loadout sections survive between them, and the
+// tier already owned of equipped tiered items
+
+export const LOOT_PLAN_STORAGE_KEY = 'arc_raiders_loot_plan'
+
+interface LootPlan {
+  raids: number
+  keptSections: LoadoutSection[]
+  currentTiers: Record<string, number>
+}
+
+const DEFAULT_PLAN: LootPlan = { raids: 1, keptSections: [...DEFAULT_KEPT_SECTIONS], currentTiers: {} }
+
+const isTierEntry = (entry: [string, unknown]): entry is [string, number] =>
+  typeof entry[1] === 'number' && Number.isInteger(entry[1]) && entry[1] > 0
+
+const loadLootPlan = (): LootPlan => {
+  try {
+    const saved = localStorage.getItem(LOOT_PLAN_STORAGE_KEY)
+    if (!saved) return DEFAULT_PLAN
+    const parsed = JSON.parse(saved)
+    return {
+      raids: typeof parsed.raids === 'number' && parsed.raids >= 1 ? Math.floor(parsed.raids) : 1,
+      keptSections: Array.isArray(parsed.keptSections)
+        ? parsed.keptSections.filter((section: string) => (LOADOUT_SECTIONS as readonly string[]).includes(section))
+        : DEFAULT_PLAN.keptSections,
+      currentTiers:
+        parsed.currentTiers && typeof parsed.currentTiers === 'object'
+          ? Object.fromEntries(Object.entries(parsed.currentTiers).filter(isTierEntry))
+          : {},
+    }
+  } catch (e) {
+    console.error('[LootPlan] Failed to load saved plan', e)
+    return DEFAULT_PLAN
+  }
+}
+
+export function useLootPlan() {
+  const [plan, setPlan] = useState<LootPlan>(loadLootPlan)
+
+  useEffect(() => {
+    localStorage.setItem(LOOT_PLAN_STORAGE_KEY, JSON.stringify(plan))
+  }, [plan])
+
+  const setRaids = useCallback((raids: number) => {
+    setPlan((prev) => ({ ...prev, raids: Number.isFinite(raids) ? Math.max(1, Math.floor(raids)) : 1 }))
+  }, [])
+
+  const toggleKeptSection = useCallback((section: LoadoutSection) => {
+    setPlan((prev) => ({
+      ...prev,
+      keptSections: prev.keptSections.includes(section)
+        ? prev.keptSections.filter((s) => s !== section)
+        : [...prev.keptSections, section],
+    }))
+  }, [])
+
+  // Tier 0 means the item isn't owned yet
+  const setCurrentTier = useCallback((itemId: string, tier: number) => {
+    setPlan((prev) => {
+      const currentTiers = { ...prev.currentTiers }
+      if (tier > 0) currentTiers[itemId] = Math.floor(tier)
+      else delete currentTiers[itemId]
+      return { ...prev, currentTiers }
+    })
+  }, [])
+
+  return {
+    raids: plan.raids,
+    keptSections: plan.keptSections,
+    currentTiers: plan.currentTiers,
+    setRaids,
+    toggleKeptSection,
+    setCurrentTier,
+  }
+}
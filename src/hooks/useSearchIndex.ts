@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { createSearchHandler, SearchRequest, SearchResponse } from '../utils/searchIndex'
+
+// Ranked inventory search. The index is built in a worker whenever the item list changes, and
+// each search is answered there so typing never waits on matching. Without worker support
+// (tests, very old browsers) the same index runs on the main thread.
+
+interface Item {
+  id: string
+  name: string
+  category: string[]
+  rarity: string
+  variants?: Item[]
+}
+
+export function useSearchIndex<T extends Item>(items: T[], search: string): T[] {
+  const workerRef = useRef<Worker | null>(null)
+  const fallbackRef = useRef<ReturnType<typeof createSearchHandler> | null>(null)
+  // Id of the latest query; answers to older ones are dropped
+  const latestQuery = useRef(0)
+  const [response, setResponse] = useState<SearchResponse | null>(null)
+
+  useEffect(() => {
+    if (typeof Worker === 'undefined') return
+    const worker = new Worker(new URL('../workers/searchWorker.ts', import.meta.url), { type: 'module' })
+    worker.onmessage = (e: MessageEvent<SearchResponse>) => {
+      if (e.data.id === latestQuery.current) setResponse(e.data)
+    }
+    worker.onerror = (e) => console.error('[Search] Worker failed', e.message)
+    workerRef.current = worker
+    return () => {
+      worker.terminate()
+      workerRef.current = null
+    }
+  }, [])
+
+  const send = useCallback((request: SearchRequest) => {
+    if (workerRef.current) {
+      workerRef.current.postMessage(request)
+      return
+    }
+    if (!fallbackRef.current) fallbackRef.current = createSearchHandler()
+    const answer = fallbackRef.current(request)
+    if (answer && answer.id === latestQuery.current) setResponse(answer)
+  }, [])
+
+  // Rebuild the index for new items, then ask again so the results match them
+  useEffect(() => {
+    send({ type: 'index', items })
+  }, [items, send])
+
+  useEffect(() => {
+    if (!search.trim()) return
+    latestQuery.current += 1
+    send({ type: 'query', id: latestQuery.current, search })
+  }, [items, search, send])
+
+  return useMemo(() => {
+    if (!search.trim()) return items
+    // Until the first answer arrives there is nothing to rank
+    if (!response) return []
+    const byId = new Map(items.map((item) => [item.id, item]))
+    return response.ids.map((id) => byId.get(id)).filter((item): item is T => item !== undefined)
+  }, [items, search, response])
+}
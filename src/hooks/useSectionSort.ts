@@ -0,0 +1,42 @@
+import { useState, useEffect, useCallback } from 'react'
+import { SORT_KEYS, SORTABLE_SECTIONS, SortableSection, SortKey } from '../utils/sectionSort'
+
+// The sort key picked for each section's "Sort & Merge", remembered between visits
+
+export const SECTION_SORT_STORAGE_KEY = 'arc_raiders_section_sort'
+
+type SectionSortKeys = Record<SortableSection, SortKey>
+
+const DEFAULT_SORT_KEYS: SectionSortKeys = { backpack: 'category', quickUse: 'category', safePocket: 'category' }
+
+const isSortKey = (value: unknown): value is SortKey => SORT_KEYS.some(({ key }) => key === value)
+
+const loadSortKeys = (): SectionSortKeys => {
+  try {
+    const saved = localStorage.getItem(SECTION_SORT_STORAGE_KEY)
+    if (!saved) return DEFAULT_SORT_KEYS
+    const parsed = JSON.parse(saved)
+    const keys = { ...DEFAULT_SORT_KEYS }
+    SORTABLE_SECTIONS.forEach((section) => {
+      if (isSortKey(parsed?.[section])) keys[section] = parsed[section]
+    })
+    return keys
+  } catch (e) {
+    console.error('[SectionSort] Failed to load saved sort keys', e)
+    return DEFAULT_SORT_KEYS
+  }
+}
+
+export function useSectionSort() {
+  const [sortKeys, setSortKeys] = useState<SectionSortKeys>(loadSortKeys)
+
+  useEffect(() => {
+    localStorage.setItem(SECTION_SORT_STORAGE_KEY, JSON.stringify(sortKeys))
+  }, [sortKeys])
+
+  const setSortKey = useCallback((section: SortableSection, sortKey: SortKey) => {
+    setSortKeys((prev) => ({ ...prev, [section]: sortKey }))
+  }, [])
+
+  return { sortKeys, setSortKey }
+}
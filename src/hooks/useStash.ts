@@ -0,0 +1,42 @@
+import { useState, useEffect, useCallback } from 'react'
+
+// "My Stash": quantities of materials and crafted items the player already owns, persisted locally
+
+export const STASH_STORAGE_KEY = 'arc_raiders_stash'
+
+const loadStash = (): Record<string, number> => {
+  try {
+    const saved = localStorage.getItem(STASH_STORAGE_KEY)
+    if (!saved) return {}
+    const parsed = JSON.parse(saved)
+    const stash: Record<string, number> = {}
+    Object.entries(parsed).forEach(([id, count]) => {
+      if (typeof count === 'number' && count > 0) stash[id] = Math.floor(count)
+    })
+    return stash
+  } catch (e) {
+    console.error('[Stash] Failed to load saved stash', e)
+    return {}
+  }
+}
+
+export function useStash() {
+  const [stash, setStash] = useState<Record<string, number>>(loadStash)
+
+  useEffect(() => {
+    localStorage.setItem(STASH_STORAGE_KEY, JSON.stringify(stash))
+  }, [stash])
+
+  const setStashCount = useCallback((id: string, count: number) => {
+    setStash((prev) => {
+      const next = { ...prev }
+      if (!Number.isFinite(count) || count <= 0) delete next[id]
+      else next[id] = Math.floor(count)
+      return next
+    })
+  }, [])
+
+  const clearStash = useCallback(() => setStash({}), [])
+
+  return { stash, setStashCount, clearStash }
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { loadItemCache, saveItemCache, CachedItemData } from '../itemCache'
+
+interface MockItem {
+  id: string
+  name: string
+}
+
+// Minimal in-memory stand-in for the parts of IndexedDB the cache uses
+const createFakeIndexedDB = () => {
+  const stores = new Map<string, Map<string, unknown>>()
+
+  const createRequest = <T>(run: () => T) => {
+    const request: { result?: T; error: unknown; onsuccess?: () => void; onerror?: () => void } = { error: null }
+    setTimeout(() => {
+      request.result = run()
+      request.onsuccess?.()
+    })
+    return request
+  }
+
+  const db = {
+    objectStoreNames: { contains: (name: string) => stores.has(name) },
+    createObjectStore: (name: string) => stores.set(name, new Map()),
+    close: vi.fn(),
+    transaction: (name: string) => {
+      const transaction: { error: unknown; oncomplete?: () => void; onerror?: () => void; objectStore: () => unknown } = {
+        error: null,
+        objectStore: () => ({
+          get: (key: string) => createRequest(() => stores.get(name)?.get(key)),
+          put: (value: unknown, key: string) => {
+            stores.get(name)?.set(key, structuredClone(value))
+            setTimeout(() => transaction.oncomplete?.())
+          },
+        }),
+      }
+      return transaction
+    },
+  }
+
+  return {
+    open: () => {
+      const request: { result?: typeof db; error: unknown; onupgradeneeded?: () => void; onsuccess?: () => void } = { error: null }
+      setTimeout(() => {
+        request.result = db
+        request.onupgradeneeded?.()
+        request.onsuccess?.()
+      })
+      return request
+    },
+  }
+}
+
+const createMockData = (overrides: Partial<CachedItemData<MockItem>> = {}): CachedItemData<MockItem> => ({
+  items: { anvil_i: { id: 'anvil_i', name: 'Anvil I' } },
+  inventory: [{ id: 'anvil_i', name: 'Anvil I' }],
+  fetchedAt: 1700000000000,
+  ...overrides,
+})
+
+describe('itemCache', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  describe('without IndexedDB', () => {
+    it('should resolve null when loading', async () => {
+      vi.stubGlobal('indexedDB', undefined)
+
+      expect(await loadItemCache<MockItem>('github')).toBeNull()
+    })
+
+    it('should not throw when saving', async () => {
+      vi.stubGlobal('indexedDB', undefined)
+
+      await expect(saveItemCache('github', createMockData())).resolves.toBeUndefined()
+    })
+  })
+
+  describe('with IndexedDB', () => {
+    it('should resolve null when nothing has been cached', async () => {
+      vi.stubGlobal('indexedDB', createFakeIndexedDB())
+
+      expect(await loadItemCache<MockItem>('github')).toBeNull()
+    })
+
+    it('should round-trip the saved dataset', async () => {
+      vi.stubGlobal('indexedDB', createFakeIndexedDB())
+      const data = createMockData()
+
+      await saveItemCache('github', data)
+
+      expect(await loadItemCache<MockItem>('github')).toEqual(data)
+    })
+
+    it('should replace the previous dataset on save', async () => {
+      vi.stubGlobal('indexedDB', createFakeIndexedDB())
+
+      await saveItemCache('github', createMockData())
+      await saveItemCache('github', createMockData({ fetchedAt: 1800000000000, inventory: [] }))
+
+      const cached = await loadItemCache<MockItem>('github')
+      expect(cached?.fetchedAt).toBe(1800000000000)
+      expect(cached?.inventory).toEqual([])
+    })
+
+    it('should keep datasets from different sources apart', async () => {
+      vi.stubGlobal('indexedDB', createFakeIndexedDB())
+
+      await saveItemCache('github', createMockData())
+
+      expect(await loadItemCache<MockItem>('snapshot')).toBeNull()
+      expect(await loadItemCache<MockItem>('github')).not.toBeNull()
+    })
+
+    it('should resolve null when opening the database fails', async () => {
+      vi.stubGlobal('indexedDB', {
+        open: () => {
+          const request: { error: Error; onerror?: () => void } = { error: new Error('blocked') }
+          setTimeout(() => request.onerror?.())
+          return request
+        },
+      })
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      expect(await loadItemCache<MockItem>('github')).toBeNull()
+      expect(consoleSpy).toHaveBeenCalled()
+      consoleSpy.mockRestore()
+    })
+  })
+})
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest'
+import { getItemTier, normalizeItemFiles, RawItemFile } from '../itemData'
+import { validateItemFiles } from '../itemValidation'
+
+const createRawFile = (fileName: string, data: RawItemFile['data'] = {}): RawItemFile => ({ fileName, data })
+
+describe('normalizeItemFiles', () => {
+  describe('Lookup', () => {
+    it('should derive ids from file names when missing', () => {
+      const { items } = normalizeItemFiles([createRawFile('metal_parts.json', { name: { en: 'Metal Parts' } })])
+
+      expect(items['metal_parts']).toBeDefined()
+      expect(items['metal_parts'].name).toBe('Metal Parts')
+    })
+
+    it('should default rarity, icon and category', () => {
+      const { items } = normalizeItemFiles([createRawFile('rubber.json')])
+
+      expect(items['rubber']).toMatchObject({
+        name: 'rubber',
+        rarity: 'Common',
+        icon: '📦',
+        isImage: false,
+        category: ['Material'],
+      })
+    })
+
+    it('should categorize weapons and add the Gun category', () => {
+      const { items } = normalizeItemFiles([createRawFile('anvil_i.json', { isWeapon: true })])
+
+      expect(items['anvil_i'].category).toEqual(['Weapon', 'Gun'])
+    })
+
+    it('should categorize the raider hatch key as a Key', () => {
+      const { items } = normalizeItemFiles([createRawFile('raider_hatch_key.json')])
+
+      expect(items['raider_hatch_key'].category).toEqual(['Key'])
+    })
+
+    it('should mark items with an image filename as images', () => {
+      const { items } = normalizeItemFiles([createRawFile('rope.json', { imageFilename: 'https://img/rope.png' })])
+
+      expect(items['rope'].isImage).toBe(true)
+      expect(items['rope'].icon).toBe('https://img/rope.png')
+    })
+  })
+
+  describe('Tiered recipes', () => {
+    it('should sum the base recipe with each upgrade cost up to the tier', () => {
+      const { items } = normalizeItemFiles([
+        createRawFile('anvil_i.json', { isWeapon: true, recipe: { metal_parts: 5 } }),
+        createRawFile('anvil_ii.json', { isWeapon: true, upgradeCost: { metal_parts: 2, springs: 1 } }),
+        createRawFile('anvil_iii.json', { isWeapon: true, upgradeCost: { springs: 3 } }),
+      ])
+
+      expect(items['anvil_i'].recipe).toEqual({ metal_parts: 5 })
+      expect(items['anvil_ii'].recipe).toEqual({ metal_parts: 7, springs: 1 })
+      expect(items['anvil_iii'].recipe).toEqual({ metal_parts: 7, springs: 4 })
+    })
+
+    it('should keep the item recipe when there is no tier I item', () => {
+      const { items } = normalizeItemFiles([createRawFile('thing_ii.json', { recipe: { rope: 1 } })])
+
+      expect(items['thing_ii'].recipe).toEqual({ rope: 1 })
+      expect(items['thing_ii'].tierCosts).toBeUndefined()
+    })
+
+    it('should keep what each tier adds', () => {
+      const { items, inventory } = normalizeItemFiles([
+        createRawFile('anvil_i.json', { isWeapon: true, recipe: { metal_parts: 5 } }),
+        createRawFile('anvil_ii.json', { isWeapon: true, upgradeCost: { metal_parts: 2, springs: 1 } }),
+        createRawFile('anvil_iii.json', { isWeapon: true }),
+      ])
+
+      expect(items['anvil_i'].tierCosts).toEqual([{ metal_parts: 5 }])
+      expect(items['anvil_iii'].tierCosts).toEqual([{ metal_parts: 5 }, { metal_parts: 2, springs: 1 }, {}])
+      expect(inventory[0].variants?.[1].tierCosts).toEqual([{ metal_parts: 5 }, { metal_parts: 2, springs: 1 }])
+    })
+  })
+
+  describe('Inventory', () => {
+    it('should only include equippable types', () => {
+      const { inventory } = normalizeItemFiles([
+        createRawFile('bandage.json', { type: 'Quick Use', name: { en: 'Bandage' } }),
+        createRawFile('rubber.json', { type: 'Material' }),
+      ])
+
+      expect(inventory.map((item) => item.id)).toEqual(['bandage'])
+    })
+
+    it('should group tiers into variants on the tier I item', () => {
+      const { inventory } = normalizeItemFiles([
+        createRawFile('anvil_ii.json', { isWeapon: true, name: { en: 'Anvil II' } }),
+        createRawFile('anvil_i.json', { isWeapon: true, name: { en: 'Anvil I' } }),
+      ])
+
+      expect(inventory).toHaveLength(1)
+      expect(inventory[0].id).toBe('anvil_i')
+      expect(inventory[0].variants?.map((v) => v.id)).toEqual(['anvil_i', 'anvil_ii'])
+    })
+
+    it('should sort inventory items by name', () => {
+      const { inventory } = normalizeItemFiles([
+        createRawFile('b.json', { type: 'Shield', name: { en: 'Zeta' } }),
+        createRawFile('a.json', { type: 'Shield', name: { en: 'Alpha' } }),
+      ])
+
+      expect(inventory.map((item) => item.name)).toEqual(['Alpha', 'Zeta'])
+    })
+  })
+
+  describe('Malformed files', () => {
+    // Shapes the declared types rule out but fetched JSON can still contain
+    const malformed = {
+      categories: 5,
+      recipe: 'rubber',
+      slots: ['backpack'],
+      supportedModifications: 'muzzle',
+      stackSize: -2,
+      ammoType: 3,
+    } as unknown as RawItemFile['data']
+
+    it('should report a malformed file and still load the others', () => {
+      const files = [
+        createRawFile('broken.json', malformed),
+        createRawFile('anvil_i.json', { isWeapon: true, name: { en: 'Anvil I' }, recipe: { metal_parts: 6 } }),
+      ]
+
+      expect(validateItemFiles(files).map((d) => d.code)).toEqual(
+        expect.arrayContaining(['invalid-categories', 'invalid-recipe', 'invalid-slots', 'invalid-ammo-type'])
+      )
+      const { items, inventory } = normalizeItemFiles(files)
+      expect(items.anvil_i.recipe).toEqual({ metal_parts: 6 })
+      expect(inventory.map((item) => item.id)).toEqual(['anvil_i'])
+    })
+
+    it('should drop invalid fields instead of spreading them', () => {
+      const { items } = normalizeItemFiles([
+        createRawFile('broken.json', malformed),
+        createRawFile('tag.json', { categories: 'Key' as unknown as string[] }),
+      ])
+
+      expect(items.broken).toMatchObject({ category: ['Material'], recipe: {}, slots: undefined, stackSize: undefined, ammoType: undefined })
+      expect(items.broken.supportedModifications).toBeUndefined()
+      expect(items.tag.category).toEqual(['Material'])
+    })
+  })
+})
+
+describe('getItemTier', () => {
+  it('should read the tier from the id suffix', () => {
+    expect(getItemTier('anvil_iii')).toBe(3)
+    expect(getItemTier('anvil_v')).toBe(5)
+    expect(getItemTier('light_ammo')).toBe(1)
+  })
+})
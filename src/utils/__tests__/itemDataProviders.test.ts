@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest'
+import {
+  createBaseUrlProvider,
+  createGitHubProvider,
+  createLocalFilesProvider,
+  createLocalStorageSnapshotProvider,
+  createProviderFromSpec,
+  createSnapshotProvider,
+  getItemSourceSpec,
+  readZipEntries,
+  ITEM_SOURCE_STORAGE_KEY,
+} from '../itemDataProviders'
+
+const jsonResponse = (body: unknown, status = 200, contentType = 'application/json') =>
+  ({ ok: status >= 200 && status < 300, status, headers: new Headers({ 'content-type': contentType }), json: async () => body }) as Response
+
+// Builds an uncompressed (stored) zip archive
+const createStoredZip = (files: Record<string, string>): ArrayBuffer => {
+  const encoder = new TextEncoder()
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  Object.entries(files).forEach(([name, text]) => {
+    const nameBytes = encoder.encode(name)
+    const data = encoder.encode(text)
+
+    const local = new Uint8Array(30 + nameBytes.length + data.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    localView.setUint32(18, data.length, true)
+    localView.setUint32(22, data.length, true)
+    localView.setUint16(26, nameBytes.length, true)
+    local.set(nameBytes, 30)
+    local.set(data, 30 + nameBytes.length)
+
+    const central = new Uint8Array(46 + nameBytes.length)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, 0x02014b50, true)
+    centralView.setUint32(20, data.length, true)
+    centralView.setUint32(24, data.length, true)
+    centralView.setUint16(28, nameBytes.length, true)
+    centralView.setUint32(42, offset, true)
+    central.set(nameBytes, 46)
+
+    localParts.push(local)
+    centralParts.push(central)
+    offset += local.length
+  })
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0)
+  const eocd = new Uint8Array(22)
+  const eocdView = new DataView(eocd.buffer)
+  eocdView.setUint32(0, 0x06054b50, true)
+  eocdView.setUint16(8, centralParts.length, true)
+  eocdView.setUint16(10, centralParts.length, true)
+  eocdView.setUint32(12, centralSize, true)
+  eocdView.setUint32(16, offset, true)
+
+  const parts = [...localParts, ...centralParts, eocd]
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let position = 0
+  parts.forEach((part) => {
+    result.set(part, position)
+    position += part.length
+  })
+  return result.buffer
+}
+
+describe('itemDataProviders', () => {
+  const mockFetch = vi.fn()
+
+  beforeEach(() => {
+    mockFetch.mockReset()
+    vi.stubGlobal('fetch', mockFetch)
+    localStorage.clear()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  describe('createGitHubProvider', () => {
+    it('should fetch every JSON file listed by the contents API', async () => {
+      mockFetch.mockImplementation(async (url: string) => {
+        if (url === 'https://api.github.com/repos/RohitMoni/arc-raiders-data/contents/items') {
+          return jsonResponse([
+            { name: 'rope.json', download_url: 'https://raw/rope.json' },
+            { name: 'README.md', download_url: 'https://raw/README.md' },
+          ])
+        }
+        return jsonResponse({ id: 'rope' })
+      })
+
+      const files = await createGitHubProvider().fetchItemFiles()
+
+      expect(files).toEqual([{ fileName: 'rope.json', data: { id: 'rope' } }])
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should reject when the API is rate limited', async () => {
+      mockFetch.mockResolvedValue(jsonResponse({ message: 'API rate limit exceeded' }, 403))
+
+      await expect(createGitHubProvider().fetchItemFiles()).rejects.toThrow('403')
+    })
+
+    it('should use a distinct id for forks', () => {
+      expect(createGitHubProvider().id).toBe('github')
+      expect(createGitHubProvider('me/fork').id).toBe('github:me/fork/items')
+    })
+  })
+
+  describe('createBaseUrlProvider', () => {
+    it('should read the file index and fetch each file from the base URL', async () => {
+      mockFetch.mockImplementation(async (url: string) => {
+        if (url === 'https://example.com/items/index.json') return jsonResponse(['rope.json'])
+        if (url === 'https://example.com/items/rope.json') return jsonResponse({ name: { en: 'Rope' } })
+        return jsonResponse(null, 404)
+      })
+
+      const files = await createBaseUrlProvider('https://example.com/items/').fetchItemFiles()
+
+      expect(files).toEqual([{ fileName: 'rope.json', data: { name: { en: 'Rope' } } }])
+    })
+  })
+
+  describe('createSnapshotProvider', () => {
+    it('should expand a snapshot document into files', async () => {
+      mockFetch.mockResolvedValue(jsonResponse({ 'rope.json': { id: 'rope' } }))
+
+      const files = await createSnapshotProvider().fetchItemFiles()
+
+      expect(files).toEqual([{ fileName: 'rope.json', data: { id: 'rope' } }])
+    })
+
+    it('should report a missing snapshot served as the app page instead of failing to parse it', async () => {
+      mockFetch.mockResolvedValue(jsonResponse(null, 200, 'text/html; charset=utf-8'))
+
+      await expect(createSnapshotProvider().fetchItemFiles()).rejects.toThrow(
+        'Expected JSON from /item-data-snapshot.json but got an HTML page'
+      )
+    })
+  })
+
+  describe('createLocalStorageSnapshotProvider', () => {
+    it('should read the responses captured by the e2e setup', async () => {
+      localStorage.setItem('e2e_api_files', JSON.stringify([{ name: 'rope.json', download_url: 'x' }]))
+      localStorage.setItem('e2e_api_item_rope.json', JSON.stringify({ id: 'rope' }))
+
+      const files = await createLocalStorageSnapshotProvider().fetchItemFiles()
+
+      expect(files).toEqual([{ fileName: 'rope.json', data: { id: 'rope' } }])
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should reject when nothing was captured', async () => {
+      await expect(createLocalStorageSnapshotProvider().fetchItemFiles()).rejects.toThrow()
+    })
+  })
+
+  describe('Local files', () => {
+    it('should read entries from a stored zip archive', async () => {
+      const zip = createStoredZip({ 'items/': '', 'items/rope.json': '{"id":"rope"}' })
+
+      const entries = await readZipEntries(zip)
+
+      expect(entries).toEqual([{ name: 'items/rope.json', text: '{"id":"rope"}' }])
+    })
+
+    it('should reject data that is not a zip archive', async () => {
+      await expect(readZipEntries(new ArrayBuffer(30))).rejects.toThrow('Not a zip archive')
+    })
+
+    it('should combine JSON files and zipped items', async () => {
+      const zip = createStoredZip({ 'items/rope.json': '{"id":"rope"}' })
+      const files = [
+        new File(['{"id":"rubber"}'], 'rubber.json'),
+        new File([zip], 'items.zip'),
+        new File(['# notes'], 'README.md'),
+      ]
+
+      const result = await createLocalFilesProvider(files).fetchItemFiles()
+
+      expect(result).toEqual([
+        { fileName: 'rubber.json', data: { id: 'rubber' } },
+        { fileName: 'rope.json', data: { id: 'rope' } },
+      ])
+    })
+  })
+
+  describe('Source selection', () => {
+    it('should default to GitHub', () => {
+      expect(createProviderFromSpec(null).id).toBe('github')
+      expect(createProviderFromSpec('github').id).toBe('github')
+    })
+
+    it('should parse known source specs', () => {
+      expect(createProviderFromSpec('snapshot').id).toBe('snapshot')
+      expect(createProviderFromSpec('e2e-cache').id).toBe('e2e-cache')
+      expect(createProviderFromSpec('github:me/fork').id).toBe('github:me/fork/items')
+      expect(createProviderFromSpec('github:me/fork/data/items').id).toBe('github:me/fork/data/items')
+      expect(createProviderFromSpec('https://example.com/items').id).toBe('url:https://example.com/items')
+    })
+
+    it('should fall back to GitHub for unknown specs', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      expect(createProviderFromSpec('ftp://nope').id).toBe('github')
+      warnSpy.mockRestore()
+    })
+
+    it('should prefer the query param over the saved setting', () => {
+      localStorage.setItem(ITEM_SOURCE_STORAGE_KEY, 'snapshot')
+
+      expect(getItemSourceSpec('?itemSource=github:me/fork')).toBe('github:me/fork')
+      expect(getItemSourceSpec('')).toBe('snapshot')
+    })
+  })
+})
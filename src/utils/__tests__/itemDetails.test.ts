@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { getItemDetails } from '../itemDetails'
+
+interface Item {
+  id: string
+  name: string
+  icon: string
+  isImage: boolean
+  category: string[]
+  recipe?: Record<string, number>
+  recyclesInto?: Record<string, number>
+  shieldCompatibility?: string[]
+  slots?: Record<string, number>
+  supportedModifications?: string[]
+  modifications?: (Item | null)[]
+}
+
+const createMockItem = (overrides: Partial<Item> = {}): Item => ({
+  id: 'test-item',
+  name: 'Test Item',
+  icon: '📦',
+  isImage: false,
+  category: ['Quick Use'],
+  ...overrides,
+})
+
+const allItemData: Record<string, Item> = {
+  metal_parts: createMockItem({ id: 'metal_parts', name: 'Metal Parts', icon: '/metal.png', isImage: true }),
+  rubber: createMockItem({ id: 'rubber', name: 'Rubber', icon: '⚫' }),
+}
+
+describe('getItemDetails', () => {
+  it('should resolve recipe and recycling materials, largest first', () => {
+    const item = createMockItem({ recipe: { rubber: 2, metal_parts: 5 }, recyclesInto: { rubber: 1, scrap: 3 } })
+
+    const details = getItemDetails(item, allItemData)
+
+    expect(details.recipe.map(({ name, count, icon }) => [name, count, icon])).toEqual([
+      ['Metal Parts', 5, '/metal.png'],
+      ['Rubber', 2, '⚫'],
+    ])
+    // Unknown ids fall back to the id
+    expect(details.recyclesInto.map(({ name, count }) => [name, count])).toEqual([
+      ['scrap', 3],
+      ['Rubber', 1],
+    ])
+  })
+
+  it('should list weapon mod slots with what is fitted', () => {
+    const silencer = createMockItem({ id: 'silencer', name: 'Silencer' })
+    const rifle = createMockItem({ category: ['Weapon'], supportedModifications: ['Muzzle', 'Stock'], modifications: [silencer, null] })
+
+    expect(getItemDetails(rifle, allItemData).modSlots).toEqual([
+      { type: 'Muzzle', equipped: 'Silencer' },
+      { type: 'Stock', equipped: null },
+    ])
+  })
+
+  it('should describe what an augment allows', () => {
+    const augment = createMockItem({
+      category: ['Augment'],
+      shieldCompatibility: ['medium', 'heavy'],
+      slots: { backpack: 20, quick_use: 4, safe_pocket: 2, grenade: 2, integrated_binoculars: 1 },
+    })
+
+    const details = getItemDetails(augment, allItemData)
+
+    expect(details.shieldTypes).toEqual(['light', 'medium', 'heavy'])
+    expect(details.grantedSlots).toEqual([
+      { label: 'Backpack', count: 20 },
+      { label: 'Quick Use', count: 4 },
+      { label: 'Safe Pocket', count: 2 },
+      { label: 'Grenade', count: 2 },
+      { label: 'Integrated binoculars', count: 1 },
+    ])
+  })
+
+  it('should leave augment details empty for other items', () => {
+    const details = getItemDetails(createMockItem({ shieldCompatibility: ['heavy'] }), allItemData)
+
+    expect(details.shieldTypes).toEqual([])
+    expect(details.grantedSlots).toEqual([])
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { buildReverseIndex, lookupItem } from '../itemLookup'
+
+interface Item {
+  id: string
+  name: string
+  icon: string
+  isImage: boolean
+  recipe?: Record<string, number>
+  recyclesInto?: Record<string, number>
+}
+
+const createMockItem = (overrides: Partial<Item> = {}): Item => ({
+  id: 'test-item',
+  name: 'Test Item',
+  icon: '📦',
+  isImage: false,
+  ...overrides,
+})
+
+const allItemData: Record<string, Item> = {
+  metal_parts: createMockItem({ id: 'metal_parts', name: 'Metal Parts' }),
+  rubber: createMockItem({ id: 'rubber', name: 'Rubber' }),
+  // Tier recipes arrive already summed with their upgrade costs
+  anvil_i: createMockItem({ id: 'anvil_i', name: 'Anvil I', recipe: { metal_parts: 6 } }),
+  anvil_ii: createMockItem({ id: 'anvil_ii', name: 'Anvil II', recipe: { metal_parts: 14, rubber: 2 } }),
+  bandage: createMockItem({ id: 'bandage', name: 'Bandage', recipe: { rubber: 1 } }),
+  old_engine: createMockItem({ id: 'old_engine', name: 'Old Engine', recyclesInto: { metal_parts: 5, rubber: 1 } }),
+  tire: createMockItem({ id: 'tire', name: 'Tire', recyclesInto: { rubber: 3 } }),
+}
+
+const index = buildReverseIndex(allItemData)
+const summarize = (items: { id: string; count: number }[]) => items.map(({ id, count }) => [id, count])
+
+describe('buildReverseIndex', () => {
+  it('should index recipes and recycling outputs by material', () => {
+    expect(index.usedIn.metal_parts).toEqual({ anvil_i: 6, anvil_ii: 14 })
+    expect(index.usedIn.rubber).toEqual({ anvil_ii: 2, bandage: 1 })
+    expect(index.recycledFrom.rubber).toEqual({ old_engine: 1, tire: 3 })
+  })
+})
+
+describe('lookupItem', () => {
+  it('should list where a material is used and where it comes from, largest amounts first', () => {
+    const lookup = lookupItem('rubber', allItemData, index)
+
+    expect(summarize(lookup.usedIn)).toEqual([['anvil_ii', 2], ['bandage', 1]])
+    expect(summarize(lookup.recycledFrom)).toEqual([['tire', 3], ['old_engine', 1]])
+    expect(lookup.usedIn[0]).toMatchObject({ name: 'Anvil II', icon: '📦' })
+  })
+
+  it("should include the item's own recipe and recycling outputs", () => {
+    expect(summarize(lookupItem('anvil_ii', allItemData, index).recipe)).toEqual([['metal_parts', 14], ['rubber', 2]])
+    expect(summarize(lookupItem('old_engine', allItemData, index).recyclesInto)).toEqual([['metal_parts', 5], ['rubber', 1]])
+  })
+
+  it('should return empty lists for unknown items', () => {
+    expect(lookupItem('unknown', allItemData, index)).toEqual({ usedIn: [], recycledFrom: [], recipe: [], recyclesInto: [] })
+  })
+})
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import { validateItemFiles } from '../itemValidation'
+import { RawItemFile } from '../itemData'
+
+const createRawFile = (fileName: string, data: unknown): RawItemFile => ({ fileName, data: data as RawItemFile['data'] })
+
+const validMaterial = (id: string) => createRawFile(`${id}.json`, { id, name: { en: id }, type: 'Material', rarity: 'Common' })
+
+const codesFor = (files: RawItemFile[], itemId: string) =>
+  validateItemFiles(files)
+    .filter((d) => d.itemId === itemId)
+    .map((d) => d.code)
+
+describe('validateItemFiles', () => {
+  it('should report nothing for well-formed items', () => {
+    const files = [
+      validMaterial('metal_parts'),
+      createRawFile('anvil_i.json', {
+        name: { en: 'Anvil I' },
+        isWeapon: true,
+        rarity: 'Rare',
+        recipe: { metal_parts: 5 },
+        stackSize: 1,
+        supportedModifications: ['Muzzle'],
+      }),
+      createRawFile('anvil_ii.json', { name: { en: 'Anvil II' }, isWeapon: true, upgradeCost: { metal_parts: 2 } }),
+    ]
+
+    expect(validateItemFiles(files)).toEqual([])
+  })
+
+  it('should reject files that are not objects', () => {
+    const diagnostics = validateItemFiles([createRawFile('broken.json', ['not', 'an', 'item'])])
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ fileName: 'broken.json', itemId: 'broken', severity: 'error', code: 'invalid-shape' }),
+    ])
+  })
+
+  it('should warn about a missing name', () => {
+    expect(codesFor([createRawFile('rope.json', { type: 'Material' })], 'rope')).toContain('missing-name')
+  })
+
+  it('should warn about unknown and missing types', () => {
+    const files = [
+      createRawFile('thing.json', { name: { en: 'Thing' }, type: 'Gizmo' }),
+      createRawFile('other.json', { name: { en: 'Other' } }),
+    ]
+
+    expect(codesFor(files, 'thing')).toEqual(['unknown-type'])
+    expect(codesFor(files, 'other')).toEqual(['missing-type'])
+  })
+
+  it('should not flag the raider hatch key or items with categories', () => {
+    const files = [
+      createRawFile('raider_hatch_key.json', { name: { en: 'Raider Hatch Key' } }),
+      createRawFile('grenade.json', { name: { en: 'Grenade' }, type: 'Grenade', categories: ['Quick Use', 'grenade'] }),
+    ]
+
+    expect(validateItemFiles(files)).toEqual([])
+  })
+
+  it('should report recipe references to non-existent ids', () => {
+    const files = [createRawFile('bandage.json', { name: { en: 'Bandage' }, type: 'Quick Use', recipe: { fabric: 2 } })]
+
+    expect(validateItemFiles(files)).toEqual([
+      expect.objectContaining({ severity: 'error', code: 'unknown-reference', message: expect.stringContaining('"fabric"') }),
+    ])
+  })
+
+  it('should report bad upgradeCost values', () => {
+    const files = [
+      validMaterial('metal_parts'),
+      createRawFile('anvil_i.json', { name: { en: 'Anvil I' }, isWeapon: true }),
+      createRawFile('anvil_ii.json', { name: { en: 'Anvil II' }, isWeapon: true, upgradeCost: { metal_parts: -1 } }),
+      createRawFile('anvil_iii.json', { name: { en: 'Anvil III' }, isWeapon: true, upgradeCost: 'lots' }),
+    ]
+
+    expect(codesFor(files, 'anvil_ii')).toEqual(['invalid-upgrade-cost'])
+    expect(codesFor(files, 'anvil_iii')).toEqual(['invalid-upgrade-cost'])
+  })
+
+  it('should warn when a higher tier has no upgradeCost', () => {
+    const files = [
+      createRawFile('anvil_i.json', { name: { en: 'Anvil I' }, isWeapon: true }),
+      createRawFile('anvil_ii.json', { name: { en: 'Anvil II' }, isWeapon: true }),
+    ]
+
+    expect(codesFor(files, 'anvil_ii')).toEqual(['missing-upgrade-cost'])
+  })
+
+  it('should warn when upgradeCost is set on a non-upgradeable item', () => {
+    const files = [validMaterial('metal_parts'), createRawFile('rope.json', { name: { en: 'Rope' }, type: 'Material', upgradeCost: { metal_parts: 1 } })]
+
+    expect(codesFor(files, 'rope')).toEqual(['unused-upgrade-cost'])
+  })
+
+  it('should report duplicate ids', () => {
+    const files = [validMaterial('rope'), createRawFile('rope_copy.json', { id: 'rope', name: { en: 'Rope' }, type: 'Material' })]
+
+    expect(validateItemFiles(files)).toEqual([
+      expect.objectContaining({ fileName: 'rope_copy.json', code: 'duplicate-id' }),
+    ])
+  })
+
+  it('should report invalid numeric and list fields', () => {
+    const files = [
+      createRawFile('ammo.json', {
+        name: { en: 'Ammo' },
+        type: 'Ammunition',
+        stackSize: 0,
+        craftQuantity: 2.5,
+        supportedModifications: 'Muzzle',
+        ammoType: 3,
+        slots: { backpack: 'many' },
+      }),
+    ]
+
+    expect(codesFor(files, 'ammo')).toEqual([
+      'invalid-stack-size',
+      'invalid-craft-quantity',
+      'invalid-supported-modifications',
+      'invalid-ammo-type',
+      'invalid-slots',
+    ])
+  })
+
+  it('should treat unknown recyclesInto references as warnings', () => {
+    const files = [createRawFile('junk.json', { name: { en: 'Junk' }, type: 'Recyclable', recyclesInto: { gold: 1 } })]
+
+    expect(validateItemFiles(files)).toEqual([expect.objectContaining({ severity: 'warning', code: 'unknown-reference' })])
+  })
+})
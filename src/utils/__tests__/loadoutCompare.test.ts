@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import { compareLoadouts, getMaterialDelta } from '../loadoutCompare'
+
+interface MockItem {
+  id: string
+  name: string
+  icon: string
+  isImage: boolean
+  count?: number
+  modifications?: (MockItem | null)[]
+}
+
+interface MockLoadout {
+  augment: MockItem | null
+  shield: MockItem | null
+  weapons: (MockItem | null)[]
+  backpack: (MockItem | null)[]
+  quickUse: (MockItem | null)[]
+  extra: (MockItem | null)[]
+  safePocket: (MockItem | null)[]
+}
+
+const createMockItem = (id: string, overrides: Partial<MockItem> = {}): MockItem => ({
+  id,
+  name: id,
+  icon: '📦',
+  isImage: false,
+  ...overrides,
+})
+
+const createLoadout = (overrides: Partial<MockLoadout> = {}): MockLoadout => ({
+  augment: null,
+  shield: null,
+  weapons: [null, null],
+  backpack: [null, null, null],
+  quickUse: [null, null, null],
+  extra: [],
+  safePocket: [],
+  ...overrides,
+})
+
+const createLootItem = (id: string, count: number) => ({ id, count, name: id, icon: '📦', isImage: false })
+
+describe('loadoutCompare', () => {
+  describe('compareLoadouts', () => {
+    it('should skip slots empty on both sides', () => {
+      expect(compareLoadouts(createLoadout(), createLoadout())).toEqual([])
+    })
+
+    it('should classify added, removed and replaced items', () => {
+      const left = createLoadout({ shield: createMockItem('light_shield'), backpack: [createMockItem('bandage'), createMockItem('grenade'), null] })
+      const right = createLoadout({ augment: createMockItem('looting'), backpack: [createMockItem('bandage'), createMockItem('smoke'), null] })
+
+      const changes = compareLoadouts(left, right).map((row) => [row.section, row.index, row.change])
+
+      expect(changes).toEqual([
+        ['augment', -1, 'added'],
+        ['shield', -1, 'removed'],
+        ['backpack', 0, 'same'],
+        ['backpack', 1, 'replaced'],
+      ])
+    })
+
+    it('should detect count changes', () => {
+      const left = createLoadout({ backpack: [createMockItem('ammo', { count: 40 }), null, null] })
+      const right = createLoadout({ backpack: [createMockItem('ammo', { count: 80 }), null, null] })
+
+      expect(compareLoadouts(left, right)[0].change).toBe('count')
+    })
+
+    it('should list changed mod slots', () => {
+      const rifle = (mods: (MockItem | null)[]) => createMockItem('rifle', { modifications: mods })
+      const left = createLoadout({ weapons: [rifle([createMockItem('silencer'), null, createMockItem('grip')]), null] })
+      const right = createLoadout({ weapons: [rifle([createMockItem('silencer'), createMockItem('stock'), null]), null] })
+
+      const [row] = compareLoadouts(left, right)
+
+      expect(row.change).toBe('mods')
+      expect(row.changedMods).toEqual([1, 2])
+    })
+
+    it('should compare sections of different lengths', () => {
+      const left = createLoadout({ backpack: [null, null] })
+      const right = createLoadout({ backpack: [null, null, null, createMockItem('bandage')] })
+
+      expect(compareLoadouts(left, right)).toEqual([expect.objectContaining({ section: 'backpack', index: 3, change: 'added', left: null })])
+    })
+  })
+
+  describe('getMaterialDelta', () => {
+    it('should pair materials and sort by the size of the change', () => {
+      const rows = getMaterialDelta(
+        [createLootItem('metal_parts', 10), createLootItem('rubber', 4), createLootItem('wires', 2)],
+        [createLootItem('metal_parts', 12), createLootItem('wires', 2), createLootItem('battery', 5)]
+      )
+
+      expect(rows.map(({ id, left, right, delta }) => [id, left, right, delta])).toEqual([
+        ['battery', 0, 5, 5],
+        ['rubber', 4, 0, -4],
+        ['metal_parts', 10, 12, 2],
+        ['wires', 2, 2, 0],
+      ])
+    })
+  })
+})
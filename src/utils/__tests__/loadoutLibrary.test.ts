@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  ACTIVE_LOADOUT_STORAGE_KEY,
+  addLoadout,
+  createLibrary,
+  deleteLoadout,
+  duplicateLoadout,
+  getActiveLoadout,
+  getLoadoutName,
+  LEGACY_LOADOUT_STORAGE_KEY,
+  loadLoadoutLibrary,
+  LOADOUT_LIBRARY_STORAGE_KEY,
+  mergeStoredLibrary,
+  renameLoadout,
+  saveLoadoutLibrary,
+  setActiveLoadout,
+  updateActiveLoadout,
+} from '../loadoutLibrary'
+
+interface SerializedLoadout {
+  title?: string
+  backpack?: ({ id: string; count?: number } | null)[]
+}
+
+describe('loadoutLibrary', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    sessionStorage.clear()
+  })
+
+  describe('Editing', () => {
+    it('should add a loadout after the active one and switch to it', () => {
+      const first = createLibrary<SerializedLoadout>({ title: 'FIRST' })
+      const withThird = addLoadout(first, { title: 'THIRD' })
+      const library = addLoadout(setActiveLoadout(withThird, first.activeId), { title: 'SECOND' })
+
+      expect(library.loadouts.map(getLoadoutName)).toEqual(['FIRST', 'SECOND', 'THIRD'])
+      expect(getLoadoutName(getActiveLoadout(library))).toBe('SECOND')
+    })
+
+    it('should update only the active loadout', () => {
+      const library = updateActiveLoadout(addLoadout(createLibrary<SerializedLoadout>({ title: 'A' }), { title: 'B' }), {
+        title: 'B',
+        backpack: [{ id: 'rope' }],
+      })
+
+      expect(library.loadouts.map((saved) => saved.data)).toEqual([{ title: 'A' }, { title: 'B', backpack: [{ id: 'rope' }] }])
+    })
+
+    it('should ignore switching to an unknown id', () => {
+      const library = createLibrary<SerializedLoadout>({})
+
+      expect(setActiveLoadout(library, 'missing')).toBe(library)
+    })
+
+    it('should duplicate a loadout and switch to the copy', () => {
+      const source = createLibrary<SerializedLoadout>({ title: 'RUSH', backpack: [{ id: 'rope' }] })
+      const library = duplicateLoadout(source, source.activeId)
+
+      expect(library.loadouts).toHaveLength(2)
+      expect(getActiveLoadout(library).data).toEqual({ title: 'RUSH (COPY)', backpack: [{ id: 'rope' }] })
+    })
+
+    it('should name untitled loadouts', () => {
+      expect(getLoadoutName(getActiveLoadout(createLibrary<SerializedLoadout>({})))).toBe('LOADOUT')
+    })
+
+    it('should rename a loadout', () => {
+      const library = createLibrary<SerializedLoadout>({ title: 'OLD' })
+
+      expect(getLoadoutName(getActiveLoadout(renameLoadout(library, library.activeId, 'NEW')))).toBe('NEW')
+    })
+  })
+
+  describe('Deleting', () => {
+    it('should switch to the next loadout when deleting the active one', () => {
+      const first = createLibrary<SerializedLoadout>({ title: 'A' })
+      const library = addLoadout(addLoadout(first, { title: 'B' }), { title: 'C' })
+      const middle = setActiveLoadout(library, library.loadouts[1].id)
+
+      const next = deleteLoadout(middle, middle.activeId, {})
+
+      expect(next.loadouts.map(getLoadoutName)).toEqual(['A', 'C'])
+      expect(getLoadoutName(getActiveLoadout(next))).toBe('C')
+    })
+
+    it('should keep the active loadout when deleting another', () => {
+      const first = createLibrary<SerializedLoadout>({ title: 'A' })
+      const library = addLoadout(first, { title: 'B' })
+
+      expect(deleteLoadout(library, first.activeId, {}).activeId).toBe(library.activeId)
+    })
+
+    it('should leave an empty loadout when deleting the last one', () => {
+      const library = createLibrary<SerializedLoadout>({ title: 'ONLY' })
+
+      const next = deleteLoadout(library, library.activeId, {})
+
+      expect(next.loadouts).toHaveLength(1)
+      expect(getActiveLoadout(next).data).toEqual({})
+    })
+  })
+
+  describe('Storage', () => {
+    it('should migrate the legacy single saved loadout', () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      localStorage.setItem(LEGACY_LOADOUT_STORAGE_KEY, JSON.stringify({ title: 'MY KIT' }))
+
+      const library = loadLoadoutLibrary<SerializedLoadout>({})
+
+      expect(library.loadouts.map((saved) => saved.data)).toEqual([{ title: 'MY KIT' }])
+      expect(localStorage.getItem(LEGACY_LOADOUT_STORAGE_KEY)).toBeNull()
+      expect(JSON.parse(localStorage.getItem(LOADOUT_LIBRARY_STORAGE_KEY)!)).toEqual({ loadouts: library.loadouts })
+      expect(sessionStorage.getItem(ACTIVE_LOADOUT_STORAGE_KEY)).toBe(library.activeId)
+    })
+
+    it('should prefer an existing library over the legacy key', () => {
+      const saved = createLibrary<SerializedLoadout>({ title: 'SAVED' })
+      localStorage.setItem(LOADOUT_LIBRARY_STORAGE_KEY, JSON.stringify(saved))
+      localStorage.setItem(LEGACY_LOADOUT_STORAGE_KEY, JSON.stringify({ title: 'LEGACY' }))
+
+      expect(loadLoadoutLibrary<SerializedLoadout>({})).toEqual(saved)
+    })
+
+    it('should keep the active id out of the shared library', () => {
+      const library = addLoadout(createLibrary<SerializedLoadout>({ title: 'FIRST' }), { title: 'SECOND' })
+      saveLoadoutLibrary(library)
+
+      expect(JSON.parse(localStorage.getItem(LOADOUT_LIBRARY_STORAGE_KEY)!)).toEqual({ loadouts: library.loadouts })
+      expect(loadLoadoutLibrary<SerializedLoadout>({})).toEqual(library)
+    })
+
+    it("should prefer this tab's active loadout, then the last used one", () => {
+      const library = addLoadout(createLibrary<SerializedLoadout>({ title: 'FIRST' }), { title: 'SECOND' })
+      const [first, second] = library.loadouts
+      localStorage.setItem(LOADOUT_LIBRARY_STORAGE_KEY, JSON.stringify({ activeId: first.id, loadouts: library.loadouts }))
+
+      expect(loadLoadoutLibrary<SerializedLoadout>({}).activeId).toBe(first.id)
+      localStorage.setItem(ACTIVE_LOADOUT_STORAGE_KEY, second.id)
+      expect(loadLoadoutLibrary<SerializedLoadout>({}).activeId).toBe(second.id)
+      sessionStorage.setItem(ACTIVE_LOADOUT_STORAGE_KEY, first.id)
+      expect(loadLoadoutLibrary<SerializedLoadout>({}).activeId).toBe(first.id)
+    })
+
+    it('should start with an empty loadout when nothing is saved', () => {
+      const library = loadLoadoutLibrary<SerializedLoadout>({})
+
+      expect(library.loadouts).toHaveLength(1)
+      expect(getActiveLoadout(library).data).toEqual({})
+    })
+
+    it('should ignore a malformed library', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      localStorage.setItem(LOADOUT_LIBRARY_STORAGE_KEY, JSON.stringify({ activeId: 'x', loadouts: [] }))
+
+      expect(loadLoadoutLibrary<SerializedLoadout>({}).loadouts).toHaveLength(1)
+      expect(errorSpy).toHaveBeenCalled()
+      errorSpy.mockRestore()
+    })
+  })
+
+  describe('Other tabs', () => {
+    it('should take entries saved by another tab and stay on the active loadout', () => {
+      const library = addLoadout(createLibrary<SerializedLoadout>({ title: 'FIRST' }), { title: 'SECOND' })
+      const [first, second] = library.loadouts
+      const fromOtherTab = addLoadout(setActiveLoadout(renameLoadout(library, first.id, 'RENAMED'), first.id), { title: 'NEW' })
+
+      const merged = mergeStoredLibrary(library, JSON.stringify(fromOtherTab))!
+
+      expect(merged.activeId).toBe(second.id)
+      expect(merged.loadouts.map(getLoadoutName)).toEqual(['RENAMED', 'NEW', 'SECOND'])
+    })
+
+    it('should move to the neighbouring loadout when another tab deleted the active one', () => {
+      const library = addLoadout(createLibrary<SerializedLoadout>({ title: 'FIRST' }), { title: 'SECOND' })
+      const fromOtherTab = deleteLoadout(library, library.activeId, {})
+
+      const merged = mergeStoredLibrary(library, JSON.stringify(fromOtherTab))!
+
+      expect(merged.activeId).toBe(library.loadouts[0].id)
+      expect(merged.loadouts.map(getLoadoutName)).toEqual(['FIRST'])
+    })
+
+    it('should not write back a library received from another tab on a different active loadout', () => {
+      const tabA = addLoadout(createLibrary<SerializedLoadout>({ title: 'FIRST' }), { title: 'SECOND' })
+      const tabB = setActiveLoadout(tabA, tabA.loadouts[0].id)
+      saveLoadoutLibrary(tabB)
+
+      // Tab A renames its loadout and saves; tab B gets the storage event, merges and saves in turn
+      saveLoadoutLibrary(renameLoadout(tabA, tabA.activeId, 'RENAMED'))
+      const newValue = localStorage.getItem(LOADOUT_LIBRARY_STORAGE_KEY)!
+      const setItemSpy = vi.spyOn(Storage.prototype, 'setItem')
+      const merged = mergeStoredLibrary(tabB, newValue)!
+      saveLoadoutLibrary(merged)
+
+      expect(merged.activeId).toBe(tabB.activeId)
+      expect(setItemSpy).not.toHaveBeenCalledWith(LOADOUT_LIBRARY_STORAGE_KEY, expect.anything())
+      expect(localStorage.getItem(LOADOUT_LIBRARY_STORAGE_KEY)).toBe(newValue)
+      setItemSpy.mockRestore()
+    })
+
+    it('should ignore an unreadable library', () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const library = createLibrary<SerializedLoadout>({ title: 'FIRST' })
+
+      expect(mergeStoredLibrary(library, '{not json')).toBeNull()
+      expect(mergeStoredLibrary(library, JSON.stringify({ activeId: 'x', loadouts: [] }))).toBeNull()
+      errorSpy.mockRestore()
+    })
+  })
+})
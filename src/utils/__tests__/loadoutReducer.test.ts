@@ -0,0 +1,494 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { findBestSlot, getNoSlotReason, getSlotItem, Item, LoadoutState, loadoutReducer } from '../loadoutReducer'
+
+const createMockItem = (overrides: Partial<Item> = {}): Item => ({
+  id: 'test-item',
+  name: 'Test Item',
+  category: ['Quick Use'],
+  ...overrides,
+})
+
+const createLoadout = (overrides: Partial<LoadoutState> = {}): LoadoutState => ({
+  title: 'LOADOUT',
+  augment: null,
+  shield: null,
+  weapons: [null, null],
+  backpack: [null, null, null, null],
+  quickUse: [null, null, null],
+  extra: [],
+  safePocket: [],
+  ...overrides,
+})
+
+const bandage = createMockItem({ id: 'bandage', name: 'Bandage', stackSize: 5 })
+const grenade = createMockItem({ id: 'grenade', name: 'Grenade', category: ['Quick Use', 'Grenade'] })
+const ammo = createMockItem({ id: 'light_ammo', name: 'Light Ammo', category: ['Ammunition'], stackSize: 100 })
+const rifle = createMockItem({
+  id: 'rifle',
+  name: 'Rifle',
+  category: ['Weapon'],
+  supportedModifications: ['Muzzle', 'Stock'],
+  modifications: [null, null],
+})
+const silencer = createMockItem({ id: 'silencer', name: 'Silencer', category: ['Modification', 'Muzzle'] })
+const stock = createMockItem({ id: 'stock', name: 'Stock', category: ['Modification', 'Stock'] })
+const lightShield = createMockItem({ id: 'light_shield', name: 'Light Shield', category: ['Shield'] })
+const heavyShield = createMockItem({ id: 'heavy_shield', name: 'Heavy Shield', category: ['Shield'] })
+const tacticalAugment = createMockItem({
+  id: 'tactical',
+  name: 'Tactical',
+  category: ['Augment'],
+  shieldCompatibility: ['medium', 'heavy'],
+  slots: { grenade: 1, integrated_binoculars: 1 },
+})
+const lootingAugment = createMockItem({ id: 'looting', name: 'Looting', category: ['Augment'], shieldCompatibility: [] })
+
+describe('loadoutReducer', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  describe('EQUIP', () => {
+    it('should place an item from the inventory', () => {
+      const next = loadoutReducer(createLoadout(), { type: 'EQUIP', item: { ...bandage, count: 3 }, target: { section: 'quickUse', index: 0 } })
+
+      expect(next.quickUse[0]).toMatchObject({ id: 'bandage', count: 3 })
+    })
+
+    it('should not mutate the previous state', () => {
+      const prev = createLoadout()
+      const quickUse = prev.quickUse
+
+      loadoutReducer(prev, { type: 'EQUIP', item: bandage, target: { section: 'quickUse', index: 0 } })
+
+      expect(prev.quickUse).toBe(quickUse)
+      expect(quickUse[0]).toBeNull()
+    })
+
+    it('should merge onto a matching stack up to the stack size', () => {
+      const prev = createLoadout({ quickUse: [{ ...bandage, count: 4 }, null, null] })
+
+      const next = loadoutReducer(prev, { type: 'EQUIP', item: { ...bandage, count: 3 }, target: { section: 'quickUse', index: 0 } })
+
+      expect(next.quickUse[0]?.count).toBe(5)
+    })
+
+    it('should do nothing when the matching stack is full', () => {
+      const prev = createLoadout({ quickUse: [{ ...bandage, count: 5 }, null, null] })
+
+      expect(loadoutReducer(prev, { type: 'EQUIP', item: bandage, target: { section: 'quickUse', index: 0 } })).toBe(prev)
+    })
+
+    it('should replace a different item', () => {
+      const prev = createLoadout({ quickUse: [grenade, null, null] })
+
+      const next = loadoutReducer(prev, { type: 'EQUIP', item: bandage, target: { section: 'quickUse', index: 0 } })
+
+      expect(next.quickUse[0]?.id).toBe('bandage')
+    })
+
+    it('should reject items not allowed in the slot', () => {
+      const prev = createLoadout()
+
+      expect(loadoutReducer(prev, { type: 'EQUIP', item: ammo, target: { section: 'quickUse', index: 0 } })).toBe(prev)
+      expect(loadoutReducer(prev, { type: 'EQUIP', item: rifle, target: { section: 'augment', index: -1 } })).toBe(prev)
+    })
+
+    it('should reject integrated extra slots', () => {
+      const prev = createLoadout({ augment: tacticalAugment, extra: [null, null] })
+
+      expect(
+        loadoutReducer(prev, { type: 'EQUIP', item: grenade, target: { section: 'extra', index: 1 } })
+      ).toBe(prev)
+      expect(loadoutReducer(prev, { type: 'EQUIP', item: grenade, target: { section: 'extra', index: 0 } }).extra[0]?.id).toBe(
+        'grenade'
+      )
+    })
+
+    it('should equip a mod onto a weapon', () => {
+      const prev = createLoadout({ weapons: [rifle, null] })
+
+      const next = loadoutReducer(prev, { type: 'EQUIP', item: silencer, target: { section: 'weapons', index: 0, modIndex: 0 } })
+
+      expect(next.weapons[0]?.modifications).toEqual([{ ...silencer, count: 1 }, null])
+      expect(prev.weapons[0]?.modifications).toEqual([null, null])
+    })
+
+    it('should reject a mod for the wrong mod slot or a missing weapon', () => {
+      const prev = createLoadout({ weapons: [rifle, null] })
+
+      expect(loadoutReducer(prev, { type: 'EQUIP', item: silencer, target: { section: 'weapons', index: 0, modIndex: 1 } })).toBe(prev)
+      expect(loadoutReducer(prev, { type: 'EQUIP', item: silencer, target: { section: 'weapons', index: 1, modIndex: 0 } })).toBe(prev)
+    })
+
+    it('should reject a shield the augment cannot carry', () => {
+      const prev = createLoadout({ augment: lootingAugment })
+
+      expect(loadoutReducer(prev, { type: 'EQUIP', item: heavyShield, target: { section: 'shield', index: -1 } })).toBe(prev)
+      expect(loadoutReducer(prev, { type: 'EQUIP', item: lightShield, target: { section: 'shield', index: -1 } }).shield?.id).toBe(
+        'light_shield'
+      )
+    })
+
+    it('should drop an incompatible shield when the augment is replaced', () => {
+      const prev = createLoadout({ augment: tacticalAugment, shield: heavyShield })
+
+      const next = loadoutReducer(prev, { type: 'EQUIP', item: lootingAugment, target: { section: 'augment', index: -1 } })
+
+      expect(next.augment?.id).toBe('looting')
+      expect(next.shield).toBeNull()
+    })
+  })
+
+  describe('MOVE', () => {
+    it('should move a stack into an empty slot', () => {
+      const prev = createLoadout({ backpack: [{ ...bandage, count: 3 }, null, null, null] })
+
+      const next = loadoutReducer(prev, { type: 'MOVE', from: { section: 'backpack', index: 0 }, target: { section: 'quickUse', index: 1 } })
+
+      expect(next.backpack[0]).toBeNull()
+      expect(next.quickUse[1]).toMatchObject({ id: 'bandage', count: 3 })
+    })
+
+    it('should move within the same section', () => {
+      const prev = createLoadout({ backpack: [ammo, null, null, null] })
+
+      const next = loadoutReducer(prev, { type: 'MOVE', from: { section: 'backpack', index: 0 }, target: { section: 'backpack', index: 3 } })
+
+      expect(next.backpack.map((item) => item?.id ?? null)).toEqual([null, null, null, 'light_ammo'])
+    })
+
+    it('should ignore a move onto the same slot', () => {
+      const prev = createLoadout({ backpack: [ammo, null, null, null] })
+
+      expect(loadoutReducer(prev, { type: 'MOVE', from: { section: 'backpack', index: 0 }, target: { section: 'backpack', index: 0 } })).toBe(prev)
+    })
+
+    it('should swap with a different item', () => {
+      const prev = createLoadout({ backpack: [grenade, null, null, null], quickUse: [bandage, null, null] })
+
+      const next = loadoutReducer(prev, { type: 'MOVE', from: { section: 'backpack', index: 0 }, target: { section: 'quickUse', index: 0 } })
+
+      expect(next.quickUse[0]?.id).toBe('grenade')
+      expect(next.backpack[0]?.id).toBe('bandage')
+    })
+
+    it('should swap two identical unstackable items without losing one', () => {
+      const prev = createLoadout({ weapons: [rifle, rifle] })
+
+      const next = loadoutReducer(prev, { type: 'MOVE', from: { section: 'weapons', index: 0 }, target: { section: 'weapons', index: 1 } })
+
+      expect(next.weapons.map((item) => item?.id)).toEqual(['rifle', 'rifle'])
+    })
+
+    it('should reject a swap that would put the displaced item in an invalid slot', () => {
+      const prev = createLoadout({ backpack: [ammo, null, null, null], weapons: [rifle, null] })
+
+      expect(loadoutReducer(prev, { type: 'MOVE', from: { section: 'backpack', index: 0 }, target: { section: 'weapons', index: 0 } })).toBe(prev)
+    })
+
+    it('should merge stacks and leave the remainder behind', () => {
+      const prev = createLoadout({ backpack: [{ ...bandage, count: 4 }, null, null, null], quickUse: [{ ...bandage, count: 3 }, null, null] })
+
+      const next = loadoutReducer(prev, { type: 'MOVE', from: { section: 'backpack', index: 0 }, target: { section: 'quickUse', index: 0 } })
+
+      expect(next.quickUse[0]?.count).toBe(5)
+      expect(next.backpack[0]?.count).toBe(2)
+    })
+
+    it('should carry weapon mods along', () => {
+      const moddedRifle = { ...rifle, modifications: [silencer, null] }
+      const prev = createLoadout({ weapons: [moddedRifle, null] })
+
+      const next = loadoutReducer(prev, { type: 'MOVE', from: { section: 'weapons', index: 0 }, target: { section: 'backpack', index: 0 } })
+
+      expect(next.backpack[0]?.modifications).toEqual([silencer, null])
+    })
+
+    it('should move a mod between weapons', () => {
+      const prev = createLoadout({ weapons: [{ ...rifle, modifications: [silencer, null] }, rifle] })
+
+      const next = loadoutReducer(prev, {
+        type: 'MOVE',
+        from: { section: 'weapons', index: 0, modIndex: 0 },
+        target: { section: 'weapons', index: 1, modIndex: 0 },
+      })
+
+      expect(next.weapons[0]?.modifications).toEqual([null, null])
+      expect(next.weapons[1]?.modifications?.[0]?.id).toBe('silencer')
+    })
+
+    it('should move a mod from the backpack onto a weapon one at a time', () => {
+      const prev = createLoadout({ weapons: [rifle, null], backpack: [{ ...stock, count: 2 }, null, null, null] })
+
+      const next = loadoutReducer(prev, {
+        type: 'MOVE',
+        from: { section: 'backpack', index: 0 },
+        target: { section: 'weapons', index: 0, modIndex: 1 },
+      })
+
+      expect(next.weapons[0]?.modifications?.[1]).toMatchObject({ id: 'stock', count: 1 })
+      expect(next.backpack[0]?.count).toBe(1)
+    })
+
+    it('should unequip a mod into the backpack', () => {
+      const prev = createLoadout({ weapons: [{ ...rifle, modifications: [silencer, null] }, null] })
+
+      const next = loadoutReducer(prev, {
+        type: 'MOVE',
+        from: { section: 'weapons', index: 0, modIndex: 0 },
+        target: { section: 'backpack', index: 0 },
+      })
+
+      expect(next.weapons[0]?.modifications).toEqual([null, null])
+      expect(next.backpack[0]?.id).toBe('silencer')
+    })
+
+    it('should drop an incompatible shield when the augment is moved away', () => {
+      const prev = createLoadout({ augment: tacticalAugment, shield: heavyShield })
+
+      // Augments can't go anywhere but the augment slot, so unequipping is the only way out
+      const next = loadoutReducer(prev, { type: 'UNEQUIP', slot: { section: 'augment', index: -1 } })
+
+      expect(next.shield).toBeNull()
+    })
+
+    it('should do nothing when the source slot is empty', () => {
+      const prev = createLoadout()
+
+      expect(loadoutReducer(prev, { type: 'MOVE', from: { section: 'backpack', index: 0 }, target: { section: 'backpack', index: 1 } })).toBe(prev)
+    })
+  })
+
+  describe('SPLIT', () => {
+    it('should move part of a stack into an empty slot', () => {
+      const prev = createLoadout({ backpack: [{ ...ammo, count: 60 }, null, null, null] })
+
+      const next = loadoutReducer(prev, {
+        type: 'SPLIT',
+        from: { section: 'backpack', index: 0 },
+        target: { section: 'backpack', index: 1 },
+        count: 20,
+      })
+
+      expect(next.backpack[0]?.count).toBe(40)
+      expect(next.backpack[1]?.count).toBe(20)
+    })
+
+    it('should split onto a matching stack', () => {
+      const prev = createLoadout({ backpack: [{ ...ammo, count: 60 }, { ...ammo, count: 90 }, null, null] })
+
+      const next = loadoutReducer(prev, {
+        type: 'SPLIT',
+        from: { section: 'backpack', index: 0 },
+        target: { section: 'backpack', index: 1 },
+        count: 30,
+      })
+
+      expect(next.backpack[0]?.count).toBe(50)
+      expect(next.backpack[1]?.count).toBe(100)
+    })
+
+    it('should not split onto a different item', () => {
+      const prev = createLoadout({ backpack: [{ ...ammo, count: 60 }, bandage, null, null] })
+
+      expect(
+        loadoutReducer(prev, { type: 'SPLIT', from: { section: 'backpack', index: 0 }, target: { section: 'backpack', index: 1 }, count: 10 })
+      ).toBe(prev)
+    })
+
+    it('should clamp the count to the stack', () => {
+      const prev = createLoadout({ backpack: [{ ...ammo, count: 10 }, null, null, null] })
+
+      const next = loadoutReducer(prev, {
+        type: 'SPLIT',
+        from: { section: 'backpack', index: 0 },
+        target: { section: 'backpack', index: 1 },
+        count: 50,
+      })
+
+      expect(next.backpack[0]).toBeNull()
+      expect(next.backpack[1]?.count).toBe(10)
+    })
+  })
+
+  describe('UNEQUIP', () => {
+    it('should clear a slot', () => {
+      const prev = createLoadout({ quickUse: [bandage, null, null] })
+
+      expect(loadoutReducer(prev, { type: 'UNEQUIP', slot: { section: 'quickUse', index: 0 } }).quickUse[0]).toBeNull()
+    })
+
+    it('should remove part of a stack', () => {
+      const prev = createLoadout({ backpack: [{ ...ammo, count: 60 }, null, null, null] })
+
+      expect(loadoutReducer(prev, { type: 'UNEQUIP', slot: { section: 'backpack', index: 0 }, count: 20 }).backpack[0]?.count).toBe(40)
+    })
+
+    it('should clear a single-item section', () => {
+      const prev = createLoadout({ shield: lightShield })
+
+      expect(loadoutReducer(prev, { type: 'UNEQUIP', slot: { section: 'shield', index: -1 } }).shield).toBeNull()
+    })
+
+    it('should clear a mod slot', () => {
+      const prev = createLoadout({ weapons: [{ ...rifle, modifications: [silencer, stock] }, null] })
+
+      const next = loadoutReducer(prev, { type: 'UNEQUIP', slot: { section: 'weapons', index: 0, modIndex: 1 } })
+
+      expect(next.weapons[0]?.modifications).toEqual([silencer, null])
+    })
+
+    it('should keep integrated items', () => {
+      const binoculars = createMockItem({ id: 'binoculars', isIntegrated: true })
+      const prev = createLoadout({ augment: tacticalAugment, extra: [null, binoculars] })
+
+      expect(loadoutReducer(prev, { type: 'UNEQUIP', slot: { section: 'extra', index: 1 } })).toBe(prev)
+    })
+
+    it('should ignore empty slots', () => {
+      const prev = createLoadout()
+
+      expect(loadoutReducer(prev, { type: 'UNEQUIP', slot: { section: 'backpack', index: 2 } })).toBe(prev)
+    })
+  })
+
+  describe('SET_COUNT', () => {
+    it('should set a stack size', () => {
+      const prev = createLoadout({ backpack: [{ ...ammo, count: 10 }, null, null, null] })
+
+      expect(loadoutReducer(prev, { type: 'SET_COUNT', slot: { section: 'backpack', index: 0 }, count: 42 }).backpack[0]?.count).toBe(42)
+    })
+
+    it('should clamp to the stack size', () => {
+      const prev = createLoadout({ backpack: [{ ...ammo, count: 10 }, null, null, null] })
+
+      expect(loadoutReducer(prev, { type: 'SET_COUNT', slot: { section: 'backpack', index: 0 }, count: 500 }).backpack[0]?.count).toBe(100)
+    })
+
+    it('should allow an empty value while typing', () => {
+      const prev = createLoadout({ backpack: [{ ...ammo, count: 10 }, null, null, null] })
+
+      const next = loadoutReducer(prev, { type: 'SET_COUNT', slot: { section: 'backpack', index: 0 }, count: undefined })
+
+      expect(next.backpack[0]).not.toBeNull()
+      expect(next.backpack[0]?.count).toBeUndefined()
+    })
+
+    it('should ignore empty slots', () => {
+      const prev = createLoadout()
+
+      expect(loadoutReducer(prev, { type: 'SET_COUNT', slot: { section: 'backpack', index: 0 }, count: 3 })).toBe(prev)
+    })
+  })
+
+  describe('SET_AUGMENT', () => {
+    it('should set and clear the augment', () => {
+      const withAugment = loadoutReducer(createLoadout(), { type: 'SET_AUGMENT', augment: tacticalAugment })
+      expect(withAugment.augment?.id).toBe('tactical')
+
+      expect(loadoutReducer(withAugment, { type: 'SET_AUGMENT', augment: null }).augment).toBeNull()
+    })
+
+    it('should drop a shield the new augment cannot carry', () => {
+      const prev = createLoadout({ augment: tacticalAugment, shield: heavyShield })
+
+      expect(loadoutReducer(prev, { type: 'SET_AUGMENT', augment: null }).shield).toBeNull()
+    })
+
+    it('should keep a light shield', () => {
+      const prev = createLoadout({ augment: tacticalAugment, shield: lightShield })
+
+      expect(loadoutReducer(prev, { type: 'SET_AUGMENT', augment: lootingAugment }).shield?.id).toBe('light_shield')
+    })
+
+    it('should reject items that are not augments', () => {
+      const prev = createLoadout()
+
+      expect(loadoutReducer(prev, { type: 'SET_AUGMENT', augment: rifle })).toBe(prev)
+    })
+  })
+
+  describe('SORT_SECTION', () => {
+    it('should merge and compact only the given section', () => {
+      const prev = createLoadout({
+        backpack: [null, { ...bandage, count: 2 }, ammo, { ...bandage, count: 2 }],
+        quickUse: [null, { ...bandage, count: 1 }, null],
+      })
+
+      const next = loadoutReducer(prev, { type: 'SORT_SECTION', section: 'backpack', sortKey: 'name' })
+
+      expect(next.backpack.map((item) => item && [item.id, item.count])).toEqual([['bandage', 4], ['light_ammo', 1], null, null])
+      expect(next.quickUse).toBe(prev.quickUse)
+    })
+  })
+})
+
+describe('getSlotItem', () => {
+  it('should read items and mods from slot refs', () => {
+    const loadout = createLoadout({ shield: lightShield, weapons: [{ ...rifle, modifications: [silencer, null] }, null] })
+
+    expect(getSlotItem(loadout, { section: 'shield', index: -1 })?.id).toBe('light_shield')
+    expect(getSlotItem(loadout, { section: 'weapons', index: 0, modIndex: 0 })?.id).toBe('silencer')
+    expect(getSlotItem(loadout, { section: 'weapons', index: 1 })).toBeNull()
+  })
+})
+
+describe('findBestSlot', () => {
+  it('should top up an existing stack before using a free slot', () => {
+    const loadout = createLoadout({ backpack: [null, { ...bandage, count: 2 }, null, null] })
+
+    expect(findBestSlot(loadout, bandage)).toEqual({ section: 'backpack', index: 1 })
+  })
+
+  it('should skip full stacks', () => {
+    const loadout = createLoadout({ quickUse: [{ ...bandage, count: 5 }, null, null] })
+
+    expect(findBestSlot(loadout, bandage)).toEqual({ section: 'quickUse', index: 1 })
+  })
+
+  it('should prefer the item\'s own section over the backpack', () => {
+    expect(findBestSlot(createLoadout(), rifle)).toEqual({ section: 'weapons', index: 0 })
+    expect(findBestSlot(createLoadout(), ammo)).toEqual({ section: 'backpack', index: 0 })
+  })
+
+  it('should fill quick use before augment slots', () => {
+    const loadout = createLoadout({ augment: tacticalAugment, extra: [null, null] })
+
+    expect(findBestSlot(loadout, grenade)).toEqual({ section: 'quickUse', index: 0 })
+    expect(findBestSlot({ ...loadout, quickUse: [bandage, bandage, bandage] }, grenade)).toEqual({ section: 'extra', index: 0 })
+  })
+
+  it('should put mods on the first weapon with a free matching slot', () => {
+    const loadout = createLoadout({ weapons: [{ ...rifle, modifications: [silencer, null] }, { ...rifle }] })
+
+    expect(findBestSlot(loadout, silencer)).toEqual({ section: 'weapons', index: 1, modIndex: 0 })
+    expect(findBestSlot(loadout, stock)).toEqual({ section: 'weapons', index: 0, modIndex: 1 })
+  })
+
+  it('should replace the shield when nothing is free', () => {
+    const loadout = createLoadout({ augment: tacticalAugment, shield: lightShield, backpack: [] })
+
+    expect(findBestSlot(loadout, heavyShield)).toEqual({ section: 'shield', index: -1 })
+  })
+
+  it('should return null when the item fits nowhere', () => {
+    const loadout = createLoadout({ backpack: [rifle, rifle, rifle, rifle], weapons: [rifle, rifle] })
+
+    expect(findBestSlot(loadout, { ...rifle, id: 'shotgun' })).toBeNull()
+  })
+})
+
+describe('getNoSlotReason', () => {
+  it('should list the full sections the item could go in', () => {
+    const loadout = createLoadout({ backpack: [rifle, rifle, rifle, rifle], weapons: [rifle, rifle] })
+
+    expect(getNoSlotReason(loadout, rifle)).toBe('Weapons and Backpack are full')
+  })
+
+  it('should give the rule when no slot would ever take the item', () => {
+    const loadout = createLoadout({ backpack: [] })
+
+    expect(getNoSlotReason(loadout, ammo)).toBe('Ammunition only fits in Backpack or Safe Pocket')
+  })
+})
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Item, LoadoutState } from '../loadoutReducer'
+import { fixAllLoadoutIssues, fixLoadoutIssue, validateLoadout } from '../loadoutValidation'
+
+const createMockItem = (overrides: Partial<Item> = {}): Item => ({
+  id: 'test-item',
+  name: 'Test Item',
+  category: ['Quick Use'],
+  ...overrides,
+})
+
+const createLoadout = (overrides: Partial<LoadoutState> = {}): LoadoutState => ({
+  title: 'LOADOUT',
+  augment: null,
+  shield: null,
+  weapons: [null, null],
+  backpack: Array(16).fill(null),
+  quickUse: [null, null, null],
+  extra: [],
+  safePocket: [],
+  ...overrides,
+})
+
+const bandage = createMockItem({ id: 'bandage', name: 'Bandage', stackSize: 5 })
+const ammo = createMockItem({ id: 'light_ammo', name: 'Light Ammo', category: ['Ammunition'], stackSize: 100 })
+const rifle = createMockItem({
+  id: 'rifle',
+  name: 'Rifle',
+  category: ['Weapon'],
+  supportedModifications: ['Muzzle'],
+  modifications: [null],
+})
+const stock = createMockItem({ id: 'stock', name: 'Stock', category: ['Modification', 'Stock'] })
+const mediumShield = createMockItem({ id: 'medium_shield', name: 'Medium Shield', category: ['Shield'] })
+const lootingAugment = createMockItem({
+  id: 'looting',
+  name: 'Looting Mk. 1',
+  category: ['Augment'],
+  shieldCompatibility: ['light'],
+  slots: { backpack: 2, quick_use: 3 },
+})
+
+describe('loadoutValidation', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  describe('validateLoadout', () => {
+    it('should report nothing for a valid loadout', () => {
+      const loadout = createLoadout({ weapons: [rifle, null], backpack: [{ ...ammo, count: 50 }, ...Array(15).fill(null)] })
+
+      expect(validateLoadout(loadout)).toEqual([])
+    })
+
+    it('should report a shield the augment cannot carry', () => {
+      const issues = validateLoadout(createLoadout({ augment: lootingAugment, shield: mediumShield, backpack: [null, null] }))
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          type: 'incompatible-shield',
+          slot: { section: 'shield', index: -1 },
+          message: "Looting Mk. 1 can't carry a medium shield",
+          fixLabel: 'Move to Backpack',
+        }),
+      ])
+    })
+
+    it('should report over-stacked items', () => {
+      const issues = validateLoadout(createLoadout({ quickUse: [{ ...bandage, count: 12 }, null, null] }))
+
+      expect(issues).toEqual([
+        expect.objectContaining({ type: 'over-stacked', message: '12 in a stack of 5', fixLabel: 'Reduce to 5' }),
+      ])
+    })
+
+    it('should report items in slots their category does not allow', () => {
+      const issues = validateLoadout(createLoadout({ weapons: [ammo, null] }))
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          type: 'invalid-slot',
+          slot: { section: 'weapons', index: 0 },
+          message: 'Ammunition only fits in Backpack or Safe Pocket',
+        }),
+      ])
+    })
+
+    it('should report mods in unsupported slots', () => {
+      const issues = validateLoadout(createLoadout({ weapons: [{ ...rifle, modifications: [stock] }, null] }))
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          type: 'unsupported-mod',
+          slot: { section: 'weapons', index: 0, modIndex: 0 },
+          message: 'Rifle: Only Muzzle modifications fit here',
+        }),
+      ])
+    })
+
+    it('should report items in slots the augment does not provide', () => {
+      const issues = validateLoadout(createLoadout({ augment: lootingAugment, backpack: [null, null, bandage] }))
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          type: 'missing-slot',
+          slot: { section: 'backpack', index: 2 },
+          message: "Backpack slot 3 doesn't exist with Looting Mk. 1",
+          fixLabel: 'Move to Backpack',
+        }),
+      ])
+    })
+
+    it('should offer removal when the backpack is full', () => {
+      const issues = validateLoadout(createLoadout({ augment: lootingAugment, backpack: [ammo, ammo, bandage] }))
+
+      expect(issues[0].fixLabel).toBe('Remove')
+    })
+
+    it('should skip integrated items', () => {
+      const binoculars = createMockItem({ id: 'binoculars', category: ['Utility'], isIntegrated: true })
+
+      expect(validateLoadout(createLoadout({ extra: [binoculars] }))).toEqual([])
+    })
+  })
+
+  describe('fixLoadoutIssue', () => {
+    it('should clamp over-stacked items', () => {
+      const loadout = createLoadout({ quickUse: [{ ...bandage, count: 12 }, null, null] })
+
+      const fixed = fixLoadoutIssue(loadout, validateLoadout(loadout)[0])
+
+      expect(fixed.quickUse[0]?.count).toBe(5)
+    })
+
+    it('should move a misplaced item to the backpack', () => {
+      const loadout = createLoadout({ weapons: [ammo, null] })
+
+      const fixed = fixLoadoutIssue(loadout, validateLoadout(loadout)[0])
+
+      expect(fixed.weapons[0]).toBeNull()
+      expect(fixed.backpack[0]?.id).toBe('light_ammo')
+    })
+
+    it('should move an unsupported mod off the weapon', () => {
+      const loadout = createLoadout({ weapons: [{ ...rifle, modifications: [stock] }, null] })
+
+      const fixed = fixLoadoutIssue(loadout, validateLoadout(loadout)[0])
+
+      expect(fixed.weapons[0]?.modifications).toEqual([null])
+      expect(fixed.backpack[0]?.id).toBe('stock')
+    })
+
+    it('should remove an item and trim the missing slots when the backpack is full', () => {
+      const loadout = createLoadout({ augment: lootingAugment, backpack: [ammo, ammo, bandage] })
+
+      const fixed = fixLoadoutIssue(loadout, validateLoadout(loadout)[0])
+
+      expect(fixed.backpack.map((item) => item?.id)).toEqual(['light_ammo', 'light_ammo'])
+    })
+
+    it('should ignore issues for items that have since moved', () => {
+      const loadout = createLoadout({ weapons: [ammo, null] })
+      const [issue] = validateLoadout(loadout)
+      const changed = createLoadout({ weapons: [rifle, null] })
+
+      expect(fixLoadoutIssue(changed, issue)).toBe(changed)
+    })
+  })
+
+  describe('fixAllLoadoutIssues', () => {
+    it('should leave a valid loadout', () => {
+      const loadout = createLoadout({
+        augment: lootingAugment,
+        shield: mediumShield,
+        weapons: [{ ...ammo, count: 300 }, null],
+        backpack: [null, null, bandage, null],
+      })
+
+      const fixed = fixAllLoadoutIssues(loadout)
+
+      expect(validateLoadout(fixed)).toEqual([])
+      expect(fixed.shield).toBeNull()
+      expect(fixed.backpack).toHaveLength(2)
+      expect(fixed.backpack.map((item) => item?.id)).toEqual(['medium_shield', 'light_ammo'])
+      expect(fixed.backpack[1]?.count).toBe(100)
+    })
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import { exportLootList } from '../lootExport'
+
+const createLootItem = (id: string, name: string, count: number, owned?: number) => ({
+  id,
+  name,
+  count,
+  icon: '📦',
+  isImage: false,
+  ...(owned !== undefined && { owned }),
+})
+
+const allItemData = {
+  rubber: { id: 'rubber', rarity: 'Common' },
+  wires: { id: 'wires', rarity: 'Uncommon' },
+  arc_alloy: { id: 'arc_alloy', rarity: 'Rare' },
+  tire: { id: 'tire', rarity: 'Common' },
+}
+
+const lootTable = [
+  createLootItem('rubber', 'Rubber', 10, 4),
+  createLootItem('arc_alloy', 'ARC Alloy', 2),
+  createLootItem('wires', 'Wires', 3, 3),
+]
+
+const recyclePlan = {
+  steps: [{ ...createLootItem('tire', 'Tire', 2), yields: [createLootItem('rubber', 'Rubber', 6)] }],
+  leftovers: [],
+  uncovered: [createLootItem('arc_alloy', 'ARC Alloy', 2)],
+}
+
+describe('exportLootList', () => {
+  it('should export what is still needed and the recycle plan as CSV', () => {
+    expect(exportLootList(lootTable, recyclePlan, allItemData, { format: 'csv', groupByRarity: false })).toBe(
+      [
+        'Section,Item,Rarity,Quantity,Details',
+        'Required loot,Rubber,Common,6,4 of 10 owned',
+        'Required loot,ARC Alloy,Rare,2,',
+        'Recycle,Tire,Common,2,Yields 6 Rubber',
+        'Not from recycling,ARC Alloy,Rare,2,',
+      ].join('\r\n')
+    )
+  })
+
+  it('should quote CSV fields containing separators or quotes', () => {
+    const csv = exportLootList([createLootItem('rubber', 'Rubber, "Heavy"', 1)], { steps: [], leftovers: [], uncovered: [] }, allItemData, {
+      format: 'csv',
+      groupByRarity: false,
+    })
+
+    expect(csv.split('\r\n')[1]).toBe('Required loot,"Rubber, ""Heavy""",Common,1,')
+  })
+
+  it('should export Markdown tables grouped by rarity, rarest first', () => {
+    const markdown = exportLootList(lootTable, { steps: [], leftovers: [], uncovered: [] }, allItemData, {
+      format: 'markdown',
+      groupByRarity: true,
+    })
+
+    expect(markdown).toBe(
+      [
+        '## Required loot',
+        '',
+        '### Rare',
+        '| Item | Rarity | Quantity | Details |',
+        '| --- | --- | ---: | --- |',
+        '| ARC Alloy | Rare | 2 |  |',
+        '',
+        '### Common',
+        '| Item | Rarity | Quantity | Details |',
+        '| --- | --- | ---: | --- |',
+        '| Rubber | Common | 6 | 4 of 10 owned |',
+      ].join('\n')
+    )
+  })
+
+  it('should escape pipes in Markdown cells', () => {
+    const markdown = exportLootList([createLootItem('rubber', 'A | B', 1)], { steps: [], leftovers: [], uncovered: [] }, allItemData, {
+      format: 'markdown',
+      groupByRarity: false,
+    })
+
+    expect(markdown).toContain('| A \\| B | Common | 1 |  |')
+  })
+
+  it('should export plain text lines', () => {
+    expect(exportLootList(lootTable, recyclePlan, allItemData, { format: 'text', groupByRarity: false })).toBe(
+      [
+        'REQUIRED LOOT',
+        '6 × Rubber (4 of 10 owned)',
+        '2 × ARC Alloy',
+        '',
+        'RECYCLE',
+        '2 × Tire (Yields 6 Rubber)',
+        '',
+        'NOT FROM RECYCLING',
+        '2 × ARC Alloy',
+      ].join('\n')
+    )
+  })
+
+  it('should indent plain text under rarity headings and list unknown rarities last', () => {
+    const text = exportLootList(
+      [createLootItem('mystery', 'Mystery', 1), createLootItem('rubber', 'Rubber', 2)],
+      { steps: [], leftovers: [createLootItem('rubber', 'Rubber', 1)], uncovered: [] },
+      allItemData,
+      { format: 'text', groupByRarity: true }
+    )
+
+    expect(text).toBe(
+      [
+        'REQUIRED LOOT',
+        'Common:',
+        '  2 × Rubber',
+        'Unknown:',
+        '  1 × Mystery',
+        '',
+        'LEFTOVERS',
+        'Common:',
+        '  1 × Rubber (Left over from recycling)',
+      ].join('\n')
+    )
+  })
+})
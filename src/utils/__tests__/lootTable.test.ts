@@ -0,0 +1,289 @@
+import { describe, it, expect, vi } from 'vitest'
+import { computeLootRequirements, getStillNeeded, getUpgradeCost, toCraftSteps, toLootItems } from '../lootTable'
+
+interface Item {
+  id: string
+  name: string
+  icon: string
+  isImage: boolean
+  recipe?: Record<string, number>
+  tierCosts?: Record<string, number>[]
+  craftQuantity?: number
+  count?: number
+  modifications?: (Item | null)[]
+}
+
+const createMockItem = (overrides: Partial<Item> = {}): Item => ({
+  id: 'test-item',
+  name: 'Test Item',
+  icon: '📦',
+  isImage: false,
+  ...overrides,
+})
+
+const createLoadout = (overrides = {}) => ({
+  augment: null,
+  shield: null,
+  weapons: [null, null],
+  backpack: [],
+  quickUse: [],
+  extra: [],
+  safePocket: [],
+  ...overrides,
+})
+
+const allItemData: Record<string, Item> = {
+  metal_parts: createMockItem({ id: 'metal_parts', name: 'Metal Parts' }),
+  rubber: createMockItem({ id: 'rubber', name: 'Rubber' }),
+  springs: createMockItem({ id: 'springs', name: 'Springs' }),
+  mechanical_components: createMockItem({
+    id: 'mechanical_components',
+    name: 'Mechanical Components',
+    recipe: { metal_parts: 3, rubber: 1 },
+  }),
+  gunpowder: createMockItem({ id: 'gunpowder', name: 'Gunpowder', recipe: { springs: 1 }, craftQuantity: 4 }),
+  anvil_i: createMockItem({ id: 'anvil_i', name: 'Anvil I', recipe: { mechanical_components: 2, metal_parts: 1 } }),
+  light_ammo: createMockItem({ id: 'light_ammo', name: 'Light Ammo', recipe: { gunpowder: 3 }, craftQuantity: 10 }),
+  silencer: createMockItem({ id: 'silencer', name: 'Silencer', recipe: { rubber: 2 } }),
+  ferro_iii: createMockItem({
+    id: 'ferro_iii',
+    name: 'Ferro III',
+    recipe: { metal_parts: 9, springs: 3 },
+    tierCosts: [{ metal_parts: 5 }, { metal_parts: 4, springs: 1 }, { springs: 2 }],
+  }),
+}
+
+describe('computeLootRequirements', () => {
+  describe('Direct ingredients', () => {
+    it('should sum recipes of equipped items', () => {
+      const loadout = createLoadout({ weapons: [allItemData.anvil_i, allItemData.anvil_i] })
+
+      const { materials, crafts } = computeLootRequirements(loadout, allItemData)
+
+      expect(materials).toEqual({ mechanical_components: 4, metal_parts: 2 })
+      expect(crafts).toEqual({})
+    })
+
+    it('should round crafts up against craftQuantity', () => {
+      const loadout = createLoadout({ backpack: [{ ...allItemData.light_ammo, count: 25 }] })
+
+      expect(computeLootRequirements(loadout, allItemData).materials).toEqual({ gunpowder: 9 })
+    })
+
+    it('should include weapon modifications', () => {
+      const loadout = createLoadout({ weapons: [{ ...allItemData.anvil_i, modifications: [allItemData.silencer, null] }, null] })
+
+      expect(computeLootRequirements(loadout, allItemData).materials).toEqual({
+        mechanical_components: 2,
+        metal_parts: 1,
+        rubber: 2,
+      })
+    })
+
+    it('should ignore items without recipes', () => {
+      const loadout = createLoadout({ backpack: [allItemData.rubber, null] })
+
+      expect(computeLootRequirements(loadout, allItemData).materials).toEqual({})
+    })
+  })
+
+  describe('Break down to raw materials', () => {
+    it('should expand intermediate components', () => {
+      const loadout = createLoadout({ weapons: [allItemData.anvil_i, null] })
+
+      const { materials, crafts } = computeLootRequirements(loadout, allItemData, { breakDown: true })
+
+      expect(materials).toEqual({ metal_parts: 7, rubber: 2 })
+      expect(crafts).toEqual({ mechanical_components: { needed: 2, owned: 0, crafts: 2, produced: 2 } })
+    })
+
+    it('should round each level against the total demand', () => {
+      // 25 ammo -> 3 crafts -> 9 gunpowder -> 3 gunpowder crafts (4 each) -> 3 springs
+      const loadout = createLoadout({ backpack: [{ ...allItemData.light_ammo, count: 25 }] })
+
+      const { materials, crafts } = computeLootRequirements(loadout, allItemData, { breakDown: true })
+
+      expect(materials).toEqual({ springs: 3 })
+      expect(crafts.gunpowder).toEqual({ needed: 9, owned: 0, crafts: 3, produced: 12 })
+    })
+
+    it('should combine demand for an intermediate used in several places before rounding', () => {
+      const loadout = createLoadout({
+        backpack: [
+          { ...allItemData.light_ammo, count: 10 },
+          { ...allItemData.light_ammo, count: 10 },
+        ],
+      })
+
+      const { materials, crafts } = computeLootRequirements(loadout, allItemData, { breakDown: true })
+
+      // 6 gunpowder total needs 2 crafts, not 1 + 1 rounded separately per stack
+      expect(crafts.gunpowder).toEqual({ needed: 6, owned: 0, crafts: 2, produced: 8 })
+      expect(materials).toEqual({ springs: 2 })
+    })
+
+    it('should leave items in a recipe cycle as raw materials', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const cyclicData: Record<string, Item> = {
+        ...allItemData,
+        a: createMockItem({ id: 'a', recipe: { b: 1 } }),
+        b: createMockItem({ id: 'b', recipe: { a: 1, rubber: 1 } }),
+        widget: createMockItem({ id: 'widget', recipe: { a: 2, metal_parts: 1 } }),
+      }
+      const loadout = createLoadout({ backpack: [cyclicData.widget] })
+
+      const { materials } = computeLootRequirements(loadout, cyclicData, { breakDown: true })
+
+      expect(materials).toEqual({ a: 2, metal_parts: 1 })
+      expect(warnSpy).toHaveBeenCalled()
+      warnSpy.mockRestore()
+    })
+  })
+
+  describe('Stash', () => {
+    it('should skip crafting equipped items that are already owned', () => {
+      const loadout = createLoadout({ weapons: [allItemData.anvil_i, allItemData.anvil_i] })
+
+      const { materials, owned } = computeLootRequirements(loadout, allItemData, { stash: { anvil_i: 1 } })
+
+      expect(materials).toEqual({ mechanical_components: 2, metal_parts: 1 })
+      expect(owned).toEqual({ anvil_i: 1 })
+    })
+
+    it('should report owned materials without removing them from the requirement', () => {
+      const loadout = createLoadout({ weapons: [allItemData.anvil_i, allItemData.anvil_i] })
+
+      const { materials, owned } = computeLootRequirements(loadout, allItemData, { stash: { metal_parts: 5, rubber: 3 } })
+
+      expect(materials).toEqual({ mechanical_components: 4, metal_parts: 2 })
+      expect(owned).toEqual({ metal_parts: 2 })
+    })
+
+    it('should use owned intermediates before breaking them down', () => {
+      const loadout = createLoadout({ backpack: [{ ...allItemData.light_ammo, count: 25 }] })
+
+      const { materials, crafts } = computeLootRequirements(loadout, allItemData, {
+        breakDown: true,
+        stash: { gunpowder: 5, springs: 1 },
+      })
+
+      // 9 gunpowder needed, 5 owned -> 1 craft of 4 -> 1 spring, which is also owned
+      expect(crafts.gunpowder).toEqual({ needed: 9, owned: 5, crafts: 1, produced: 4 })
+      expect(materials).toEqual({ springs: 1 })
+    })
+
+    it('should not break down an intermediate that is fully owned', () => {
+      const loadout = createLoadout({ weapons: [allItemData.anvil_i, null] })
+
+      const { materials, crafts } = computeLootRequirements(loadout, allItemData, {
+        breakDown: true,
+        stash: { mechanical_components: 3 },
+      })
+
+      expect(crafts.mechanical_components).toEqual({ needed: 2, owned: 2, crafts: 0, produced: 0 })
+      expect(materials).toEqual({ metal_parts: 1 })
+    })
+  })
+
+  describe('Raids', () => {
+    it('should scale lost sections by the number of raids', () => {
+      const loadout = createLoadout({ weapons: [allItemData.anvil_i, null] })
+
+      expect(computeLootRequirements(loadout, allItemData, { raids: 3 }).materials).toEqual({
+        mechanical_components: 6,
+        metal_parts: 3,
+      })
+    })
+
+    it('should only count kept sections once', () => {
+      const loadout = createLoadout({
+        backpack: [allItemData.silencer],
+        safePocket: [allItemData.silencer],
+      })
+
+      // Backpack is lost every raid (3 silencers), the safe pocket copy survives
+      expect(computeLootRequirements(loadout, allItemData, { raids: 3 }).materials).toEqual({ rubber: 8 })
+      expect(
+        computeLootRequirements(loadout, allItemData, { raids: 3, keptSections: ['backpack', 'safePocket'] }).materials
+      ).toEqual({ rubber: 4 })
+    })
+
+    it('should scale modifications with their weapon', () => {
+      const loadout = createLoadout({ weapons: [{ ...allItemData.anvil_i, modifications: [allItemData.silencer] }, null] })
+
+      expect(computeLootRequirements(loadout, allItemData, { raids: 2 }).materials.rubber).toBe(4)
+    })
+
+    it('should round crafts against the total across raids', () => {
+      // 4 ammo per raid over 5 raids is 20 ammo: 2 crafts, not 5 rounded up per raid
+      const loadout = createLoadout({ quickUse: [{ ...allItemData.light_ammo, count: 4 }] })
+
+      expect(computeLootRequirements(loadout, allItemData, { raids: 5 }).materials).toEqual({ gunpowder: 6 })
+    })
+  })
+
+  describe('Current tiers', () => {
+    it('should only count the remaining upgrades for an owned lower tier', () => {
+      const loadout = createLoadout({ weapons: [allItemData.ferro_iii, null] })
+
+      expect(computeLootRequirements(loadout, allItemData, { currentTiers: { ferro_iii: 2 } }).materials).toEqual({
+        springs: 2,
+      })
+    })
+
+    it('should craft every other copy from scratch', () => {
+      const loadout = createLoadout({ weapons: [allItemData.ferro_iii, allItemData.ferro_iii] })
+
+      expect(computeLootRequirements(loadout, allItemData, { currentTiers: { ferro_iii: 1 } }).materials).toEqual({
+        metal_parts: 13,
+        springs: 6,
+      })
+    })
+
+    it('should ignore current tiers for items outside a tier line', () => {
+      const loadout = createLoadout({ weapons: [allItemData.anvil_i, null] })
+
+      expect(computeLootRequirements(loadout, allItemData, { currentTiers: { anvil_i: 1 } }).materials).toEqual({
+        mechanical_components: 2,
+        metal_parts: 1,
+      })
+    })
+  })
+})
+
+describe('getUpgradeCost', () => {
+  it('should sum the tiers above the one owned', () => {
+    expect(getUpgradeCost(allItemData.ferro_iii, 0)).toEqual({ metal_parts: 9, springs: 3 })
+    expect(getUpgradeCost(allItemData.ferro_iii, 1)).toEqual({ metal_parts: 4, springs: 3 })
+    expect(getUpgradeCost(allItemData.ferro_iii, 3)).toEqual({})
+  })
+})
+
+describe('toLootItems', () => {
+  it('should resolve names and sort by count', () => {
+    const lootItems = toLootItems({ rubber: 1, metal_parts: 5, unknown: 2 }, allItemData)
+
+    expect(lootItems.map((item) => [item.id, item.name, item.count])).toEqual([
+      ['metal_parts', 'Metal Parts', 5],
+      ['unknown', 'unknown', 2],
+      ['rubber', 'Rubber', 1],
+    ])
+  })
+
+  it('should attach owned counts when given', () => {
+    const [lootItem] = toLootItems({ rubber: 4 }, allItemData, { rubber: 3 })
+
+    expect(lootItem.owned).toBe(3)
+    expect(getStillNeeded(lootItem)).toBe(1)
+  })
+})
+
+describe('toCraftSteps', () => {
+  it('should attach craft counts to the loot items', () => {
+    const steps = toCraftSteps({ gunpowder: { needed: 9, owned: 4, crafts: 2, produced: 8 } }, allItemData)
+
+    expect(steps).toEqual([
+      { id: 'gunpowder', count: 9, name: 'Gunpowder', icon: '📦', isImage: false, owned: 4, crafts: 2, produced: 8 },
+    ])
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import { planRecycling } from '../recyclePlan'
+
+interface Item {
+  id: string
+  name: string
+  category: string[]
+  icon: string
+  isImage: boolean
+  recyclesInto?: Record<string, number>
+}
+
+const createMockItem = (overrides: Partial<Item> = {}): Item => ({
+  id: 'test-item',
+  name: 'Test Item',
+  category: ['Basic Material'],
+  icon: '📦',
+  isImage: false,
+  ...overrides,
+})
+
+const createRecyclable = (id: string, name: string, recyclesInto: Record<string, number>) =>
+  createMockItem({ id, name, category: ['Recyclable'], recyclesInto })
+
+const allItemData: Record<string, Item> = {
+  metal_parts: createMockItem({ id: 'metal_parts', name: 'Metal Parts' }),
+  rubber: createMockItem({ id: 'rubber', name: 'Rubber' }),
+  arc_alloy: createMockItem({ id: 'arc_alloy', name: 'ARC Alloy' }),
+  scrap: createRecyclable('scrap', 'Scrap', { metal_parts: 2 }),
+  engine: createRecyclable('engine', 'Engine', { metal_parts: 5, rubber: 1 }),
+  tire: createRecyclable('tire', 'Tire', { rubber: 3 }),
+  // Recycles into something but can't be recycled
+  gun: createMockItem({ id: 'gun', name: 'Gun', category: ['Weapon'], recyclesInto: { metal_parts: 20 } }),
+}
+
+const summarize = (plan: ReturnType<typeof planRecycling>) => ({
+  steps: Object.fromEntries(plan.steps.map((step) => [step.id, step.count])),
+  leftovers: Object.fromEntries(plan.leftovers.map((item) => [item.id, item.count])),
+  uncovered: Object.fromEntries(plan.uncovered.map((item) => [item.id, item.count])),
+})
+
+describe('planRecycling', () => {
+  it('should cover the shortfall with as few recycles as it can', () => {
+    const plan = planRecycling({ metal_parts: 6 }, allItemData)
+
+    expect(summarize(plan)).toEqual({
+      steps: { engine: 1, scrap: 1 },
+      leftovers: { metal_parts: 1, rubber: 1 },
+      uncovered: {},
+    })
+  })
+
+  it('should count repeated recycles of the same item', () => {
+    const plan = planRecycling({ rubber: 7 }, allItemData)
+
+    expect(summarize(plan)).toEqual({ steps: { tire: 3 }, leftovers: { rubber: 2 }, uncovered: {} })
+    expect(plan.steps[0]).toMatchObject({ count: 3, yields: [{ id: 'rubber', count: 9, name: 'Rubber' }] })
+  })
+
+  it('should drop recycles the rest of the plan already covers', () => {
+    // Greedy takes the crate first for covering the most, then needs both halves anyway
+    const materials = ['a', 'b', 'c', 'd', 'e', 'f'].map((id) => createMockItem({ id, name: id.toUpperCase() }))
+    const itemData: Record<string, Item> = {
+      ...Object.fromEntries(materials.map((material) => [material.id, material])),
+      crate: createRecyclable('crate', 'Crate', { a: 1, b: 1, d: 1, e: 1 }),
+      left: createRecyclable('left', 'Left Half', { a: 1, b: 1, c: 1 }),
+      right: createRecyclable('right', 'Right Half', { d: 1, e: 1, f: 1 }),
+    }
+
+    const plan = planRecycling({ a: 1, b: 1, c: 1, d: 1, e: 1, f: 1 }, itemData)
+
+    expect(summarize(plan)).toEqual({ steps: { left: 1, right: 1 }, leftovers: {}, uncovered: {} })
+  })
+
+  it('should report materials nothing recycles into', () => {
+    const plan = planRecycling({ arc_alloy: 3, rubber: 3 }, allItemData)
+
+    expect(summarize(plan)).toEqual({ steps: { tire: 1 }, leftovers: {}, uncovered: { arc_alloy: 3 } })
+  })
+
+  it('should only use recyclables', () => {
+    expect(planRecycling({ metal_parts: 20 }, allItemData).steps.map((step) => step.id)).not.toContain('gun')
+  })
+
+  it('should plan nothing when nothing is missing', () => {
+    expect(planRecycling({ metal_parts: 0 }, allItemData)).toEqual({ steps: [], leftovers: [], uncovered: [] })
+  })
+})
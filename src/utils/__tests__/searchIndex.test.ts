@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { buildSearchIndex, createSearchHandler, querySearchIndex } from '../searchIndex'
+import { parseSearchQuery } from '../searchQuery'
+
+interface Item {
+  id: string
+  name: string
+  category: string[]
+  rarity: string
+  recipe?: Record<string, number>
+  variants?: Item[]
+}
+
+const createMockItem = (overrides: Partial<Item> = {}): Item => ({
+  id: 'test-item',
+  name: 'Test Item',
+  category: ['Quick Use'],
+  rarity: 'Common',
+  ...overrides,
+})
+
+const anvilTiers = [
+  createMockItem({ id: 'anvil_i', name: 'Anvil', category: ['Weapon'], rarity: 'Rare', recipe: { metal_parts: 6 } }),
+  createMockItem({ id: 'anvil_ii', name: 'Anvil', category: ['Weapon'], rarity: 'Rare', recipe: { metal_parts: 8, gun_parts: 2 } }),
+  createMockItem({ id: 'anvil_iii', name: 'Anvil', category: ['Weapon'], rarity: 'Epic', recipe: { metal_parts: 10, gun_parts: 4 } }),
+]
+const anvil = { ...anvilTiers[0], variants: anvilTiers }
+const silencer = createMockItem({ id: 'silencer_i', name: 'Silencer', category: ['Modification', 'Muzzle'], rarity: 'Uncommon', recipe: { rubber: 2 } })
+const grenade = createMockItem({ id: 'frag_grenade', name: 'Frag Grenade', category: ['Quick Use', 'Grenade'] })
+const lightAmmo = createMockItem({ id: 'light_ammo', name: 'Light Ammo', category: ['Ammunition'] })
+
+const items = [anvil, silencer, grenade, lightAmmo]
+const index = buildSearchIndex(items)
+const search = (input: string, searchIndex = index) => querySearchIndex(searchIndex, parseSearchQuery(input))
+
+describe('querySearchIndex', () => {
+  it('should match everything in inventory order for an empty query', () => {
+    expect(search('  ')).toEqual(items.map((item) => item.id))
+  })
+
+  it('should match words with typos', () => {
+    expect(search('grenda')).toEqual(['frag_grenade'])
+    expect(search('attachment')).toEqual(['silencer_i'])
+  })
+
+  it('should bound typos by word length', () => {
+    expect(search('ammx')).toEqual(['light_ammo'])
+    expect(search('amxx')).toEqual([])
+    expect(search('gx')).toEqual([])
+  })
+
+  it('should match quoted phrases exactly', () => {
+    expect(search('"light ammo"')).toEqual(['light_ammo'])
+    expect(search('"ammo light"')).toEqual([])
+    expect(search('"grenda"')).toEqual([])
+  })
+
+  it('should exclude negated words without typo tolerance', () => {
+    expect(search('cat:quick -grenade')).toEqual([])
+    expect(search('-grenade -ammo')).toEqual(['anvil_i', 'silencer_i'])
+    expect(search('-grenda')).toEqual(items.map((item) => item.id))
+  })
+
+  it('should filter by rarity, category, material and tier', () => {
+    expect(search('rarity:epic')).toEqual(['anvil_i'])
+    expect(search('cat:quick_use')).toEqual(['frag_grenade'])
+    expect(search('uses:gun')).toEqual(['anvil_i'])
+    expect(search('-tier:>1')).toEqual(['silencer_i', 'frag_grenade', 'light_ammo'])
+  })
+
+  it('should combine terms', () => {
+    expect(search('cat:weapon uses:gun_parts tier:2')).toEqual(['anvil_i'])
+    expect(search('cat:weapon rarity:uncommon')).toEqual([])
+    expect(search('light ammo')).toEqual(['light_ammo'])
+  })
+
+  it('should rank whole words over prefixes over substrings over typos', () => {
+    const ranked = buildSearchIndex([
+      createMockItem({ id: 'hammock', name: 'Hammock', category: ['Material'] }),
+      createMockItem({ id: 'amo_pouch', name: 'Amo Pouch', category: ['Material'] }),
+      createMockItem({ id: 'ammonia', name: 'Ammonia', category: ['Material'] }),
+      lightAmmo,
+    ])
+    expect(search('ammo', ranked)).toEqual(['light_ammo', 'ammonia', 'hammock', 'amo_pouch'])
+  })
+
+  it('should rank closer typos first', () => {
+    const ranked = buildSearchIndex([
+      createMockItem({ id: 'frag_grenade', name: 'Frag Grenade' }),
+      createMockItem({ id: 'smoke_grenades', name: 'Smoke Grenades' }),
+    ])
+    expect(search('grenadss', ranked)).toEqual(['smoke_grenades', 'frag_grenade'])
+  })
+})
+
+describe('createSearchHandler', () => {
+  it('should answer queries against the latest item list', () => {
+    const handle = createSearchHandler()
+
+    expect(handle({ type: 'query', id: 1, search: 'anvil' })).toEqual({ id: 1, ids: [] })
+    expect(handle({ type: 'index', items })).toBeNull()
+    expect(handle({ type: 'query', id: 2, search: 'anvil' })).toEqual({ id: 2, ids: ['anvil_i'] })
+  })
+})
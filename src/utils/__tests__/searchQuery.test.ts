@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildSearchVocabulary,
+  getSearchSuggestions,
+  matchesFilter,
+  parseSearchQuery,
+  SearchVocabulary,
+} from '../searchQuery'
+
+interface Item {
+  id: string
+  name: string
+  category: string[]
+  rarity: string
+  recipe?: Record<string, number>
+  variants?: Item[]
+}
+
+const createMockItem = (overrides: Partial<Item> = {}): Item => ({
+  id: 'test-item',
+  name: 'Test Item',
+  category: ['Quick Use'],
+  rarity: 'Common',
+  ...overrides,
+})
+
+const anvilTiers = [
+  createMockItem({ id: 'anvil_i', name: 'Anvil', category: ['Weapon'], rarity: 'Rare', recipe: { metal_parts: 6 } }),
+  createMockItem({ id: 'anvil_ii', name: 'Anvil', category: ['Weapon'], rarity: 'Rare', recipe: { metal_parts: 8, gun_parts: 2 } }),
+  createMockItem({ id: 'anvil_iii', name: 'Anvil', category: ['Weapon'], rarity: 'Epic', recipe: { metal_parts: 10, gun_parts: 4 } }),
+]
+const anvil = { ...anvilTiers[0], variants: anvilTiers }
+const silencer = createMockItem({ id: 'silencer_i', name: 'Silencer', category: ['Modification', 'Muzzle'], rarity: 'Uncommon', recipe: { rubber: 2 } })
+const grenade = createMockItem({ id: 'frag_grenade', name: 'Frag Grenade', category: ['Quick Use', 'Grenade'] })
+const lightAmmo = createMockItem({ id: 'light_ammo', name: 'Light Ammo', category: ['Ammunition'] })
+
+const items = [anvil, silencer, grenade, lightAmmo]
+
+describe('parseSearchQuery', () => {
+  it('should parse plain words', () => {
+    expect(parseSearchQuery('Frag  grenade').terms).toEqual([
+      { kind: 'text', text: 'frag', exact: false, negated: false },
+      { kind: 'text', text: 'grenade', exact: false, negated: false },
+    ])
+  })
+
+  it('should keep quoted phrases together', () => {
+    expect(parseSearchQuery('"light ammo" anvil').terms).toEqual([
+      { kind: 'text', text: 'light ammo', exact: true, negated: false },
+      { kind: 'text', text: 'anvil', exact: false, negated: false },
+    ])
+  })
+
+  it('should read an unclosed quote to the end', () => {
+    expect(parseSearchQuery('"light am').terms).toEqual([{ kind: 'text', text: 'light am', exact: true, negated: false }])
+  })
+
+  it('should parse negation', () => {
+    expect(parseSearchQuery('-grenade -rarity:common').terms).toEqual([
+      { kind: 'text', text: 'grenade', exact: false, negated: true },
+      { kind: 'rarity', value: 'common', negated: true },
+    ])
+  })
+
+  it('should parse field filters and their aliases', () => {
+    expect(parseSearchQuery('Rarity:Epic cat:modification category:"quick use" uses:metal_parts').terms).toEqual([
+      { kind: 'rarity', value: 'epic', negated: false },
+      { kind: 'category', value: 'modification', negated: false },
+      { kind: 'category', value: 'quick use', negated: false },
+      { kind: 'uses', value: 'metal_parts', negated: false },
+    ])
+  })
+
+  it('should parse tier comparisons in numbers or numerals', () => {
+    expect(parseSearchQuery('tier:>=3 tier:<2 tier:ii').terms).toEqual([
+      { kind: 'tier', comparator: '>=', tier: 3, negated: false },
+      { kind: 'tier', comparator: '<', tier: 2, negated: false },
+      { kind: 'tier', comparator: '=', tier: 2, negated: false },
+    ])
+  })
+
+  it('should report unreadable tiers and leave them out', () => {
+    const query = parseSearchQuery('tier:high anvil')
+
+    expect(query.terms).toEqual([{ kind: 'text', text: 'anvil', exact: false, negated: false }])
+    expect(query.errors).toEqual([`"high" isn't a tier; try tier:3 or tier:>=2`])
+  })
+
+  it('should skip filters that are still being typed', () => {
+    expect(parseSearchQuery('rarity: -').terms).toEqual([])
+  })
+
+  it('should treat unknown fields as text', () => {
+    expect(parseSearchQuery('foo:bar').terms).toEqual([{ kind: 'text', text: 'foo:bar', exact: false, negated: false }])
+  })
+
+  it('should not read a colon inside quotes as a field', () => {
+    expect(parseSearchQuery('"cat:x"').terms).toEqual([{ kind: 'text', text: 'cat:x', exact: true, negated: false }])
+  })
+})
+
+describe('matchesFilter', () => {
+  it('should match tiered items when any tier does', () => {
+    expect(matchesFilter(anvil, { kind: 'rarity', value: 'epic', negated: false })).toBe(true)
+    expect(matchesFilter(anvil, { kind: 'tier', comparator: '>=', tier: 3, negated: false })).toBe(true)
+    expect(matchesFilter(silencer, { kind: 'tier', comparator: '>', tier: 1, negated: false })).toBe(false)
+  })
+
+  it('should ignore negation, which the caller applies', () => {
+    expect(matchesFilter(silencer, { kind: 'uses', value: 'rubber', negated: true })).toBe(true)
+  })
+})
+
+describe('getSearchSuggestions', () => {
+  const vocabulary: SearchVocabulary = buildSearchVocabulary(items, { metal_parts: { name: 'Metal Parts' } })
+  const values = (input: string) => getSearchSuggestions(input, vocabulary).map((suggestion) => suggestion.value)
+
+  it('should gather values from the inventory', () => {
+    expect(vocabulary.rarities).toEqual(['common', 'epic', 'rare', 'uncommon'])
+    expect(vocabulary.categories).toContain('quick use')
+    expect(vocabulary.materials).toEqual([
+      { id: 'gun_parts', name: 'gun_parts' },
+      { id: 'metal_parts', name: 'Metal Parts' },
+      { id: 'rubber', name: 'rubber' },
+    ])
+  })
+
+  it('should offer the fields for an empty search', () => {
+    expect(values('')).toEqual(['rarity:', 'cat:', 'uses:', 'tier:'])
+  })
+
+  it('should complete a field name', () => {
+    expect(values('anvil ra')).toEqual(['anvil rarity:'])
+    expect(values('-t')).toEqual(['-tier:'])
+  })
+
+  it('should complete field values and keep the rest of the input', () => {
+    expect(values('anvil rarity:e')).toEqual(['anvil rarity:epic '])
+    expect(values('-rarity:')).toHaveLength(4)
+  })
+
+  it('should quote values with spaces', () => {
+    expect(values('cat:qu')).toEqual(['cat:"quick use" '])
+    expect(values('cat:"quick u')).toEqual(['cat:"quick use" '])
+  })
+
+  it('should match materials by id or name', () => {
+    expect(getSearchSuggestions('uses:metal p', vocabulary)).toEqual([])
+    expect(getSearchSuggestions('uses:metal', vocabulary)).toEqual([
+      { label: 'uses:metal_parts', detail: 'Metal Parts', value: 'uses:metal_parts ' },
+    ])
+  })
+
+  it('should suggest tiers after a comparator', () => {
+    expect(values('tier:>=')).toEqual(['tier:>=1 ', 'tier:>=2 ', 'tier:>=3 ', 'tier:>=4 ', 'tier:>=5 '])
+  })
+
+  it('should stay quiet after a finished word or value', () => {
+    expect(values('anvil ')).toEqual([])
+    expect(values('rarity:epic')).toEqual([])
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest'
+import { sortAndMerge } from '../sectionSort'
+
+interface Item {
+  id: string
+  name: string
+  category: string[]
+  rarity?: string
+  stackSize?: number
+  count?: number
+}
+
+const createMockItem = (overrides: Partial<Item> = {}): Item => ({
+  id: 'test-item',
+  name: 'Test Item',
+  category: ['Quick Use'],
+  rarity: 'Common',
+  ...overrides,
+})
+
+const bandage = createMockItem({ id: 'bandage', name: 'Bandage', stackSize: 5 })
+const ammo = createMockItem({ id: 'light_ammo', name: 'Light Ammo', category: ['Ammunition'], stackSize: 100 })
+const rifle = createMockItem({ id: 'rifle', name: 'Rifle', category: ['Weapon'], rarity: 'Epic' })
+const shield = createMockItem({ id: 'light_shield', name: 'Light Shield', category: ['Shield'], rarity: 'Uncommon' })
+
+const ids = (section: (Item | null)[]) => section.map((item) => (item ? `${item.id}${item.count ? `×${item.count}` : ''}` : null))
+
+describe('sortAndMerge', () => {
+  it('should merge same-id stacks up to the stack size', () => {
+    const section = [{ ...bandage, count: 3 }, null, { ...bandage, count: 4 }, { ...bandage, count: 1 }]
+
+    expect(ids(sortAndMerge(section, 'name'))).toEqual(['bandage×5', 'bandage×3', null, null])
+  })
+
+  it('should leave items without a stack size separate', () => {
+    expect(ids(sortAndMerge([rifle, null, rifle], 'name'))).toEqual(['rifle', 'rifle', null])
+  })
+
+  it('should keep the section length and move empty slots to the end', () => {
+    const sorted = sortAndMerge([null, null, rifle, null], 'category')
+
+    expect(sorted).toHaveLength(4)
+    expect(ids(sorted)).toEqual(['rifle', null, null, null])
+  })
+
+  it('should order by category following the slot rules', () => {
+    const section = [{ ...bandage, count: 1 }, { ...ammo, count: 20 }, rifle, shield]
+
+    expect(ids(sortAndMerge(section, 'category'))).toEqual(['light_shield', 'rifle', 'light_ammo×20', 'bandage×1'])
+  })
+
+  it('should order by rarity, rarest first', () => {
+    const section = [{ ...bandage, count: 1 }, shield, rifle]
+
+    expect(ids(sortAndMerge(section, 'rarity'))).toEqual(['rifle', 'light_shield', 'bandage×1'])
+  })
+
+  it('should order by name', () => {
+    const section = [rifle, shield, { ...ammo, count: 20 }, { ...bandage, count: 2 }]
+
+    expect(ids(sortAndMerge(section, 'name'))).toEqual(['bandage×2', 'light_ammo×20', 'light_shield', 'rifle'])
+  })
+
+  it('should not mutate the input', () => {
+    const first = { ...bandage, count: 2 }
+    const section = [first, { ...bandage, count: 2 }]
+
+    sortAndMerge(section, 'name')
+
+    expect(first.count).toBe(2)
+    expect(section).toHaveLength(2)
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import { decodeShareCode, encodeShareCode, extractShareCode } from '../shareCode'
+
+const loadout = {
+  title: 'SOLO RUSH',
+  augment: { id: 'looting_mk_2' },
+  weapons: [{ id: 'anvil_i', modifications: [{ id: 'silencer_i', count: 1 }, null] }, null, { id: 'anvil_i' }],
+  backpack: [null, { id: 'light_ammo', count: 200 }, { id: 'bandage', count: 3 }],
+  safePocket: [{ id: 'bandage', count: 1 }],
+}
+
+describe('shareCode', () => {
+  describe('Round trip', () => {
+    it('should decode what it encodes', () => {
+      expect(decodeShareCode(encodeShareCode(loadout))).toEqual({
+        ...loadout,
+        safePocket: [{ id: 'bandage' }],
+      })
+    })
+
+    it('should round trip an empty loadout', () => {
+      expect(decodeShareCode(encodeShareCode({}))).toEqual({})
+    })
+
+    it('should keep non-Latin titles', () => {
+      expect(decodeShareCode(encodeShareCode({ title: 'Рейд 🚀' })).title).toBe('Рейд 🚀')
+    })
+
+    it('should encode large counts as multi-byte varints', () => {
+      const decoded = decodeShareCode(encodeShareCode({ backpack: [{ id: 'light_ammo', count: 100000 }] }))
+
+      expect(decoded.backpack).toEqual([{ id: 'light_ammo', count: 100000 }])
+    })
+  })
+
+  describe('Format', () => {
+    it('should be URL-safe', () => {
+      expect(encodeShareCode(loadout)).toMatch(/^[A-Za-z0-9_-]+$/)
+    })
+
+    it('should be shorter than the legacy base64 JSON', () => {
+      expect(encodeShareCode(loadout).length).toBeLessThan(btoa(JSON.stringify(loadout)).length)
+    })
+
+    it('should store each item id once', () => {
+      const code = encodeShareCode({ backpack: Array(8).fill({ id: 'bandage' }) })
+      const bytes = atob(code.replace(/-/g, '+').replace(/_/g, '/'))
+
+      expect(bytes.split('bandage')).toHaveLength(2)
+    })
+
+    it('should start with the version byte', () => {
+      const bytes = atob(encodeShareCode({}).replace(/-/g, '+').replace(/_/g, '/'))
+
+      expect(bytes.charCodeAt(0)).toBe(1)
+    })
+  })
+
+  describe('Legacy links', () => {
+    it('should decode percent-encoded base64 JSON', () => {
+      const legacy = encodeURIComponent(btoa(JSON.stringify(loadout)))
+
+      expect(decodeShareCode(legacy)).toEqual(loadout)
+    })
+
+    it('should decode Latin-1 titles made with btoa', () => {
+      const legacy = encodeURIComponent(btoa(JSON.stringify({ title: 'Café' })))
+
+      expect(decodeShareCode(legacy)).toEqual({ title: 'Café' })
+    })
+  })
+
+  describe('Errors', () => {
+    it('should reject unknown versions', () => {
+      expect(() => decodeShareCode('Bw')).toThrow('Unsupported share code version 7')
+    })
+
+    it('should reject truncated codes', () => {
+      const code = encodeShareCode(loadout)
+
+      expect(() => decodeShareCode(code.slice(0, code.length / 2))).toThrow()
+    })
+
+    it('should reject an empty code', () => {
+      expect(() => decodeShareCode('')).toThrow('Share code is empty')
+    })
+  })
+
+  describe('Pasted links', () => {
+    it('should take the code out of a full link', () => {
+      expect(extractShareCode(' https://example.com/loadout/AbC-_1?ref=x ')).toBe('AbC-_1')
+    })
+
+    it('should accept a bare code', () => {
+      expect(extractShareCode('AbC-_1\n')).toBe('AbC-_1')
+    })
+  })
+})
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest'
+import {
+  canEquip,
+  getCompatibleShieldTypes,
+  getEquipRejection,
+  getExtraSlotConfig,
+  getShieldType,
+  isIntegratedSlot,
+  isShieldCompatible,
+} from '../slotRules'
+
+interface MockItem {
+  id: string
+  name: string
+  category: string[]
+  shieldCompatibility?: string[]
+  slots?: Record<string, number>
+  supportedModifications?: string[]
+}
+
+interface MockLoadout {
+  augment: MockItem | null
+  weapons: (MockItem | null)[]
+}
+
+const createMockItem = (overrides: Partial<MockItem> = {}): MockItem => ({
+  id: 'test-item',
+  name: 'Test Item',
+  category: ['Quick Use'],
+  ...overrides,
+})
+
+const createLoadout = (overrides: Partial<MockLoadout> = {}): MockLoadout => ({
+  augment: null,
+  weapons: [null, null],
+  ...overrides,
+})
+
+const ammo = createMockItem({ id: 'light_ammo', name: 'Light Ammo', category: ['Ammunition'] })
+const grenade = createMockItem({ id: 'grenade', name: 'Grenade', category: ['Quick Use', 'Grenade'] })
+const rifle = createMockItem({ id: 'rifle', name: 'Rifle', category: ['Weapon'], supportedModifications: ['Muzzle'] })
+const silencer = createMockItem({ id: 'silencer', name: 'Silencer', category: ['Modification', 'Muzzle'] })
+const lightShield = createMockItem({ id: 'light_shield', name: 'Light Shield', category: ['Shield'] })
+const mediumShield = createMockItem({ id: 'medium_shield', name: 'Medium Shield', category: ['Shield'] })
+const heavyShield = createMockItem({ id: 'heavy_shield', name: 'Heavy Shield', category: ['Shield'] })
+const tacticalAugment = createMockItem({
+  id: 'tactical',
+  name: 'Tactical Mk. 1',
+  category: ['Augment'],
+  shieldCompatibility: ['medium'],
+  slots: { grenade: 1, integrated_binoculars: 1 },
+})
+
+describe('slotRules', () => {
+  describe('Sections', () => {
+    it('should allow categories in their sections', () => {
+      const loadout = createLoadout()
+
+      expect(canEquip(loadout, ammo, 'backpack')).toBe(true)
+      expect(canEquip(loadout, ammo, 'safePocket')).toBe(true)
+      expect(canEquip(loadout, grenade, 'quickUse')).toBe(true)
+      expect(canEquip(loadout, rifle, 'weapons', 0)).toBe(true)
+      expect(canEquip(loadout, tacticalAugment, 'augment')).toBe(true)
+      expect(canEquip(loadout, lightShield, 'safePocket')).toBe(true)
+    })
+
+    it('should explain where a category fits', () => {
+      const loadout = createLoadout()
+
+      expect(getEquipRejection(loadout, ammo, 'quickUse')).toBe('Ammunition only fits in Backpack or Safe Pocket')
+      expect(getEquipRejection(loadout, rifle, 'safePocket')).toBe('Weapon only fits in Weapons or Backpack')
+      expect(getEquipRejection(loadout, lightShield, 'weapons')).toBe('Shield only fits in Shield, Backpack or Safe Pocket')
+    })
+
+    it('should reject items no rule covers', () => {
+      const material = createMockItem({ name: 'Metal Parts', category: ['Material'] })
+
+      expect(getEquipRejection(createLoadout(), material, 'backpack')).toBe("Metal Parts can't be equipped")
+    })
+
+    it('should allow an item when any of its categories fits', () => {
+      const loadout = createLoadout()
+
+      expect(canEquip(loadout, grenade, 'backpack')).toBe(true)
+    })
+  })
+
+  describe('Shields', () => {
+    it('should read the shield weight from the id', () => {
+      expect(getShieldType(heavyShield)).toBe('heavy')
+      expect(getShieldType(createMockItem({ id: 'medium_shield_ii' }))).toBe('medium')
+      expect(getShieldType(createMockItem({ id: 'shield_recharger' }))).toBeNull()
+    })
+
+    it('should always allow light shields', () => {
+      expect(isShieldCompatible(lightShield, null)).toBe(true)
+      expect(canEquip(createLoadout(), lightShield, 'shield')).toBe(true)
+    })
+
+    it('should gate heavier shields on the augment', () => {
+      expect(getEquipRejection(createLoadout(), mediumShield, 'shield')).toBe('A medium shield needs a compatible augment')
+      expect(canEquip(createLoadout({ augment: tacticalAugment }), mediumShield, 'shield')).toBe(true)
+      expect(getEquipRejection(createLoadout({ augment: tacticalAugment }), heavyShield, 'shield')).toBe(
+        "Tactical Mk. 1 can't carry a heavy shield"
+      )
+    })
+
+    it('should list the shield weights an augment carries', () => {
+      expect(getCompatibleShieldTypes(null)).toEqual(['light'])
+      expect(getCompatibleShieldTypes(tacticalAugment)).toEqual(['light', 'medium'])
+    })
+
+    it('should not gate shields carried in the backpack', () => {
+      expect(canEquip(createLoadout(), heavyShield, 'backpack')).toBe(true)
+    })
+  })
+
+  describe('Mod slots', () => {
+    it('should match the weapon supported modification', () => {
+      const loadout = createLoadout({ weapons: [rifle, null] })
+
+      expect(canEquip(loadout, silencer, 'weapons', 0, 0)).toBe(true)
+      expect(getEquipRejection(loadout, ammo, 'weapons', 0, 0)).toBe('Only Muzzle modifications fit here')
+    })
+
+    it('should need a weapon with that slot', () => {
+      const loadout = createLoadout({ weapons: [rifle, null] })
+
+      expect(getEquipRejection(loadout, silencer, 'weapons', 1, 0)).toBe('Equip a weapon first')
+      expect(getEquipRejection(loadout, silencer, 'weapons', 0, 1)).toBe('Rifle has no modification slot here')
+    })
+  })
+
+  describe('Augment slots', () => {
+    it('should lay out extra slots from the augment', () => {
+      expect(getExtraSlotConfig(tacticalAugment)).toEqual({
+        types: ['GRENADE', 'INTEGRATED BINOCULARS'],
+        count: 2,
+        slotTypes: ['grenade', 'integrated_binoculars'],
+      })
+      expect(getExtraSlotConfig(null).count).toBe(0)
+    })
+
+    it('should match the slot type', () => {
+      const loadout = createLoadout({ augment: tacticalAugment })
+
+      expect(canEquip(loadout, grenade, 'extra', 0)).toBe(true)
+      expect(getEquipRejection(loadout, ammo, 'extra', 0)).toBe('Only grenade items fit here')
+    })
+
+    it('should keep integrated slots fixed', () => {
+      const loadout = createLoadout({ augment: tacticalAugment })
+
+      expect(isIntegratedSlot(tacticalAugment, 'extra', 1)).toBe(true)
+      expect(isIntegratedSlot(tacticalAugment, 'extra', 0)).toBe(false)
+      expect(getEquipRejection(loadout, grenade, 'extra', 1)).toBe('Built into the augment')
+    })
+
+    it('should reject slots the augment does not have', () => {
+      expect(getEquipRejection(createLoadout(), grenade, 'extra', 0)).toBe('No augment slot here')
+    })
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { findNeighbor, NavRect } from '../spatialNavigation'
+
+const rect = (left: number, top: number, width = 50, height = 50): NavRect => ({ left, top, width, height })
+
+// 3x2 grid of 50px cells with 10px gaps
+const grid = [
+  { key: 'a', rect: rect(0, 0) },
+  { key: 'b', rect: rect(60, 0) },
+  { key: 'c', rect: rect(120, 0) },
+  { key: 'd', rect: rect(0, 60) },
+  { key: 'e', rect: rect(60, 60) },
+  { key: 'f', rect: rect(120, 60) },
+]
+
+describe('findNeighbor', () => {
+  it('should move to the adjacent cell in each direction', () => {
+    const from = rect(60, 0)
+
+    expect(findNeighbor(from, grid, 'left')).toBe('a')
+    expect(findNeighbor(from, grid, 'right')).toBe('c')
+    expect(findNeighbor(from, grid, 'down')).toBe('e')
+  })
+
+  it('should return null at the edge', () => {
+    expect(findNeighbor(rect(0, 0), grid, 'up')).toBeNull()
+    expect(findNeighbor(rect(120, 60), grid, 'right')).toBeNull()
+  })
+
+  it('should prefer a slot straight ahead over a nearer one off to the side', () => {
+    const candidates = [
+      { key: 'diagonal', rect: rect(60, 60) },
+      { key: 'below', rect: rect(0, 140) },
+    ]
+
+    expect(findNeighbor(rect(0, 0), candidates, 'down')).toBe('below')
+  })
+
+  it('should skip hidden elements', () => {
+    const candidates = [
+      { key: 'hidden', rect: rect(60, 0, 0, 0) },
+      { key: 'visible', rect: rect(120, 0) },
+    ]
+
+    expect(findNeighbor(rect(0, 0), candidates, 'right')).toBe('visible')
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { getUpgradePlan, getUpgradePlans } from '../upgradePath'
+
+interface Item {
+  id: string
+  name: string
+  icon: string
+  isImage: boolean
+  recipe?: Record<string, number>
+  tierCosts?: Record<string, number>[]
+  modifications?: (Item | null)[]
+}
+
+const createMockItem = (overrides: Partial<Item> = {}): Item => ({
+  id: 'test-item',
+  name: 'Test Item',
+  icon: '📦',
+  isImage: false,
+  ...overrides,
+})
+
+const createLoadout = (overrides = {}) => ({
+  augment: null,
+  shield: null,
+  weapons: [null, null],
+  backpack: [],
+  quickUse: [],
+  extra: [],
+  safePocket: [],
+  ...overrides,
+})
+
+const allItemData: Record<string, Item> = {
+  metal_parts: createMockItem({ id: 'metal_parts', name: 'Metal Parts' }),
+  springs: createMockItem({ id: 'springs', name: 'Springs' }),
+  ferro_i: createMockItem({ id: 'ferro_i', name: 'Ferro I', recipe: { metal_parts: 5 }, tierCosts: [{ metal_parts: 5 }] }),
+  ferro_iii: createMockItem({
+    id: 'ferro_iii',
+    name: 'Ferro III',
+    recipe: { metal_parts: 9, springs: 3 },
+    tierCosts: [{ metal_parts: 5 }, { metal_parts: 4, springs: 1 }, { springs: 2 }],
+  }),
+  silencer_ii: createMockItem({
+    id: 'silencer_ii',
+    name: 'Silencer II',
+    recipe: { springs: 3 },
+    tierCosts: [{ springs: 1 }, { springs: 2 }],
+  }),
+}
+
+const summarize = (items: { id: string; count: number }[]) => Object.fromEntries(items.map(({ id, count }) => [id, count]))
+
+describe('getUpgradePlan', () => {
+  it('should list every tier when nothing is owned', () => {
+    const plan = getUpgradePlan(allItemData.ferro_iii, 0, allItemData)
+
+    expect(plan).toMatchObject({ id: 'ferro_iii', tier: 3, currentTier: 0 })
+    expect(plan.steps.map((step) => [step.tier, summarize(step.cost)])).toEqual([
+      [1, { metal_parts: 5 }],
+      [2, { metal_parts: 4, springs: 1 }],
+      [3, { springs: 2 }],
+    ])
+    expect(summarize(plan.total)).toEqual({ metal_parts: 9, springs: 3 })
+  })
+
+  it('should start from the tier already owned', () => {
+    const plan = getUpgradePlan(allItemData.ferro_iii, 2, allItemData)
+
+    expect(plan.steps.map((step) => step.tier)).toEqual([3])
+    expect(summarize(plan.total)).toEqual({ springs: 2 })
+    expect(plan.total[0].name).toBe('Springs')
+  })
+
+  it('should clamp the current tier to the item tier', () => {
+    const plan = getUpgradePlan(allItemData.ferro_iii, 5, allItemData)
+
+    expect(plan.currentTier).toBe(3)
+    expect(plan.steps).toEqual([])
+    expect(plan.total).toEqual([])
+  })
+})
+
+describe('getUpgradePlans', () => {
+  it('should plan equipped items above tier I, including modifications', () => {
+    const loadout = createLoadout({
+      weapons: [{ ...allItemData.ferro_iii, modifications: [allItemData.silencer_ii] }, allItemData.ferro_i],
+    })
+
+    const plans = getUpgradePlans(loadout, allItemData, { silencer_ii: 1 })
+
+    expect(plans.map((plan) => [plan.id, plan.currentTier])).toEqual([
+      ['ferro_iii', 0],
+      ['silencer_ii', 1],
+    ])
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import { getAmmoType, getWeaponAmmo, normalizeAmmoType } from '../weaponAmmo'
+import { normalizeItemFiles } from '../itemData'
+import { loadoutReducer } from '../loadoutReducer'
+
+interface MockItem {
+  id: string
+  name: string
+  category: string[]
+  count?: number
+  ammoType?: string
+}
+
+const createMockItem = (overrides: Partial<MockItem> = {}): MockItem => ({
+  id: 'test-item',
+  name: 'Test Item',
+  category: ['Ammunition'],
+  ...overrides,
+})
+
+const createLoadout = (overrides: Partial<{ weapons: (MockItem | null)[]; backpack: (MockItem | null)[]; safePocket: (MockItem | null)[] }> = {}) => ({
+  weapons: [null, null],
+  backpack: [null, null, null],
+  safePocket: [],
+  ...overrides,
+})
+
+const lightAmmo = createMockItem({ id: 'light_ammo', name: 'Light Ammo' })
+const heavyAmmo = createMockItem({ id: 'heavy_ammo', name: 'Heavy Ammo' })
+const smg = createMockItem({ id: 'stitcher_i', name: 'Stitcher I', category: ['Weapon'], ammoType: 'Light Ammo' })
+const rifle = createMockItem({ id: 'ferro_i', name: 'Ferro I', category: ['Weapon'], ammoType: 'heavy' })
+
+describe('weaponAmmo', () => {
+  describe('getAmmoType', () => {
+    it('should normalize names, ids and bare types alike', () => {
+      expect(normalizeAmmoType('Light Ammo')).toBe('light')
+      expect(normalizeAmmoType('light_ammo')).toBe('light')
+      expect(normalizeAmmoType('heavy')).toBe('heavy')
+      expect(normalizeAmmoType('Energy Clip')).toBe('energy clip')
+    })
+
+    it('should read ammunition from its id and weapons from ammoType', () => {
+      expect(getAmmoType(lightAmmo)).toBe('light')
+      expect(getAmmoType(smg)).toBe('light')
+      expect(getAmmoType(createMockItem({ category: ['Weapon'] }))).toBeNull()
+    })
+  })
+
+  describe('getWeaponAmmo', () => {
+    it('should total matching rounds from the backpack and safe pocket', () => {
+      const loadout = createLoadout({
+        weapons: [smg, null],
+        backpack: [{ ...lightAmmo, count: 60 }, { ...heavyAmmo, count: 20 }, { ...lightAmmo, count: 40 }],
+        safePocket: [{ ...lightAmmo, count: 10 }],
+      })
+
+      expect(getWeaponAmmo(loadout)).toEqual([{ ammoType: 'light', label: 'Light Ammo', rounds: 110 }, null])
+    })
+
+    it('should report weapons with no matching ammo', () => {
+      const loadout = createLoadout({ weapons: [smg, rifle], backpack: [{ ...lightAmmo, count: 60 }, null, null] })
+
+      expect(getWeaponAmmo(loadout)[1]).toEqual({ ammoType: 'heavy', label: 'heavy', rounds: 0 })
+    })
+
+    it('should share a pool between weapons of the same type', () => {
+      const loadout = createLoadout({ weapons: [smg, smg], backpack: [{ ...lightAmmo, count: 30 }, null, null] })
+
+      expect(getWeaponAmmo(loadout).map((ammo) => ammo?.rounds)).toEqual([30, 30])
+    })
+
+    it('should skip weapons without an ammo type', () => {
+      const launcher = createMockItem({ id: 'launcher', category: ['Weapon'] })
+
+      expect(getWeaponAmmo(createLoadout({ weapons: [launcher, null] }))).toEqual([null, null])
+    })
+
+    it('should link weapons equipped from the normalized inventory', () => {
+      const { inventory } = normalizeItemFiles([
+        { fileName: 'stitcher_i.json', data: { isWeapon: true, name: { en: 'Stitcher I' }, ammoType: 'Light Ammo' } },
+        { fileName: 'light_ammo.json', data: { type: 'Ammunition', name: { en: 'Light Ammo' }, stackSize: 100 } },
+      ])
+      const find = (id: string) => inventory.find((item) => item.id === id)!
+      const empty = { title: '', augment: null, shield: null, weapons: [null, null], backpack: [null, null], quickUse: [], extra: [], safePocket: [] }
+
+      const withWeapon = loadoutReducer(empty, { type: 'EQUIP', item: find('stitcher_i'), target: { section: 'weapons', index: 0 } })
+      const loadout = loadoutReducer(withWeapon, { type: 'EQUIP', item: find('light_ammo'), target: { section: 'backpack', index: 0 } })
+
+      expect(getWeaponAmmo(loadout)).toEqual([{ ammoType: 'light', label: 'Light Ammo', rounds: 1 }, null])
+    })
+  })
+})
@@ -0,0 +1,70 @@
+// Persistent cache for the normalized item data produced by fetchInventory, keyed by item data provider.
+// Backed by IndexedDB so the last good dataset survives reloads, rate limits and offline sessions.
+
+export interface CachedItemData<T> {
+  items: Record<string, T>
+  inventory: T[]
+  fetchedAt: number
+}
+
+const DB_NAME = 'arc_raiders_item_cache'
+const DB_VERSION = 1
+const STORE_NAME = 'itemData'
+
+const isIndexedDBAvailable = () => typeof indexedDB !== 'undefined' && indexedDB !== null
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME)
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+export async function loadItemCache<T>(sourceId: string): Promise<CachedItemData<T> | null> {
+  if (!isIndexedDBAvailable()) return null
+  try {
+    const db = await openDatabase()
+    const cached = await new Promise<CachedItemData<T> | undefined>((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(sourceId)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    db.close()
+    if (!cached || !cached.items || !Array.isArray(cached.inventory)) return null
+    return cached
+  } catch (e) {
+    console.error('[ItemCache] Failed to read cached item data', e)
+    return null
+  }
+}
+
+export async function saveItemCache<T>(sourceId: string, data: CachedItemData<T>): Promise<void> {
+  if (!isIndexedDBAvailable()) return
+  try {
+    const db = await openDatabase()
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite')
+      transaction.objectStore(STORE_NAME).put(data, sourceId)
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+    db.close()
+  } catch (e) {
+    console.error('[ItemCache] Failed to write item data cache', e)
+  }
+}
+
+export const formatDataTimestamp = (fetchedAt: number) =>
+  new Date(fetchedAt).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
@@ -0,0 +1,211 @@
+// Normalization of the raw item JSON files from the arc-raiders-data repo into the Item shape the app uses.
+
+export interface RawItemData {
+  id?: string
+  name?: { en?: string }
+  type?: string
+  categories?: string[]
+  isWeapon?: boolean
+  rarity?: string
+  imageFilename?: string
+  recipe?: Record<string, number>
+  upgradeCost?: Record<string, number>
+  stackSize?: number
+  craftQuantity?: number
+  shieldCompatibility?: string[]
+  slots?: Record<string, number>
+  supportedModifications?: string[]
+  recyclesInto?: Record<string, number>
+  ammoType?: string
+}
+
+export interface RawItemFile {
+  fileName: string
+  data: RawItemData
+}
+
+interface Item {
+  id: string
+  name: string
+  category: string[]
+  rarity: string
+  icon: string
+  isImage: boolean
+  recipe?: Record<string, number>
+  // Tier line items only: the tier I recipe, then the upgrade cost of each tier up to this one
+  tierCosts?: Record<string, number>[]
+  variants?: Item[]
+  stackSize?: number
+  craftQuantity?: number
+  shieldCompatibility?: string[]
+  slots?: Record<string, number>
+  supportedModifications?: string[]
+  recyclesInto?: Record<string, number>
+  ammoType?: string
+}
+
+export interface NormalizedItemData {
+  items: Record<string, Item>
+  inventory: Item[]
+}
+
+type NamedRawItem = RawItemData & { id: string; fileName: string }
+
+export const TIERS = ['i', 'ii', 'iii', 'iv', 'v']
+
+// Tier number from the id suffix (anvil_iii -> 3); items without tiers count as tier 1
+export const getItemTier = (id: string): number => {
+  const match = id.match(/_(i|ii|iii|iv|v)$/)
+  return match ? TIERS.indexOf(match[1]) + 1 : 1
+}
+
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0
+
+const toString = (value: unknown) => (typeof value === 'string' ? value : undefined)
+
+const toStringArray = (value: unknown) =>
+  Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : undefined
+
+const toCostMap = (value: unknown) =>
+  isPlainObject(value)
+    ? (Object.fromEntries(Object.entries(value).filter(([, count]) => isPositiveInteger(count))) as Record<string, number>)
+    : undefined
+
+const toSlots = (value: unknown) =>
+  isPlainObject(value)
+    ? (Object.fromEntries(Object.entries(value).filter(([, count]) => typeof count === 'number' && count >= 0)) as Record<string, number>)
+    : undefined
+
+// Keeps only the shapes validateItemFiles accepts; anything it reports as invalid is dropped rather than
+// spread into the item, so one malformed file can't break normalization of the rest
+const sanitizeRawItem = (fileName: string, data: Record<string, unknown>): NamedRawItem => {
+  const name = isPlainObject(data.name) ? toString(data.name.en) : undefined
+  return {
+    id: toString(data.id) || fileName.replace('.json', ''),
+    fileName,
+    name: name !== undefined ? { en: name } : undefined,
+    type: toString(data.type),
+    categories: toStringArray(data.categories),
+    isWeapon: data.isWeapon === true,
+    rarity: toString(data.rarity),
+    imageFilename: toString(data.imageFilename),
+    recipe: toCostMap(data.recipe),
+    upgradeCost: toCostMap(data.upgradeCost),
+    stackSize: isPositiveInteger(data.stackSize) ? data.stackSize : undefined,
+    craftQuantity: isPositiveInteger(data.craftQuantity) ? data.craftQuantity : undefined,
+    shieldCompatibility: toStringArray(data.shieldCompatibility),
+    slots: toSlots(data.slots),
+    supportedModifications: toStringArray(data.supportedModifications),
+    recyclesInto: toCostMap(data.recyclesInto),
+    ammoType: toString(data.ammoType),
+  }
+}
+
+export function normalizeItemFiles(files: RawItemFile[]): NormalizedItemData {
+  // Files that are not JSON objects are reported by validateItemFiles and skipped here
+  const normalizedItems: NamedRawItem[] = files
+    .filter(({ data }) => isPlainObject(data))
+    .map(({ fileName, data }) => sanitizeRawItem(fileName, data as Record<string, unknown>))
+
+  const itemMap = new Map(normalizedItems.map((item) => [item.id, item]))
+  // What each tier adds, from the tier I recipe through each upgradeCost up to the item's own tier.
+  // Undefined for items that aren't part of a tier line.
+  const resolveTierCosts = (item: NamedRawItem) => {
+    const match = item.id.match(/^(.+)_(i|ii|iii|iv|v)$/)
+    if (!match) return undefined
+    const baseName = match[1]
+    const targetTier = TIERS.indexOf(match[2]) + 1
+    if (!itemMap.has(`${baseName}_i`)) return undefined
+    return TIERS.slice(0, targetTier).map((tier, i) => {
+      const tierItem = itemMap.get(`${baseName}_${tier}`)
+      return { ...((i === 0 ? tierItem?.recipe : tierItem?.upgradeCost) || {}) }
+    })
+  }
+
+  // Tiered items cost everything spent getting there
+  const resolveRecipe = (item: NamedRawItem, tierCosts: Record<string, number>[] | undefined) => {
+    if (!tierCosts) return item.recipe
+    const combinedRecipe: Record<string, number> = {}
+    tierCosts.forEach((costs) => {
+      Object.entries(costs).forEach(([key, val]) => {
+        combinedRecipe[key] = (combinedRecipe[key] || 0) + val
+      })
+    })
+    return combinedRecipe
+  }
+
+  const items: Record<string, Item> = {}
+  normalizedItems.forEach((item) => {
+    let categories: string[] = [...(item.categories || [])]
+    if (categories.length === 0) {
+      let category = item.type || 'Material'
+      if (item.fileName === 'raider_hatch_key.json') category = 'Key'
+      else if (item.isWeapon) category = 'Weapon'
+      else if (item.type === 'Modification') category = 'Modification'
+      categories = [category]
+    }
+
+    if (categories.includes('Weapon') && !categories.includes('Gun')) {
+      categories.push('Gun')
+    }
+
+    const tierCosts = resolveTierCosts(item)
+    items[item.id] = {
+      id: item.id,
+      name: item.name?.en || item.id,
+      category: categories,
+      rarity: item.rarity || 'Common',
+      icon: item.imageFilename || '📦',
+      isImage: !!item.imageFilename,
+      recipe: resolveRecipe(item, tierCosts),
+      tierCosts,
+      stackSize: item.stackSize,
+      craftQuantity: item.craftQuantity,
+      shieldCompatibility: item.shieldCompatibility,
+      slots: item.slots,
+      supportedModifications: item.supportedModifications,
+      recyclesInto: item.recyclesInto,
+      ammoType: item.ammoType,
+    }
+  })
+
+  const processedItems: Item[] = normalizedItems
+    .filter((item) => {
+      const validTypes = ['Augment', 'Shield', 'Ammunition', 'Modification', 'Quick Use']
+      const hasValidType = !!item.type && validTypes.includes(item.type)
+      const isWeapon = item.isWeapon === true
+      const isKey = item.fileName === 'raider_hatch_key.json'
+      return hasValidType || isWeapon || isKey
+    })
+    // Same entries as the lookup, so items equipped from the inventory carry every field (ammoType etc.)
+    .map((item) => items[item.id])
+
+  // Group items by base name (e.g. anvil_i, anvil_ii -> anvil)
+  const groupedItems: Record<string, Item[]> = {}
+  processedItems.forEach((item) => {
+    const match = item.id.match(/^(.+)_(i|ii|iii|iv|v)$/)
+    const baseName = match ? match[1] : item.id
+    if (!groupedItems[baseName]) groupedItems[baseName] = []
+    groupedItems[baseName].push(item)
+  })
+
+  const inventory: Item[] = Object.values(groupedItems)
+    .map((group) => {
+      if (group.length === 1) return group[0]
+      // Sort by tier (i, ii, iii...)
+      const getTierIndex = (id: string) => {
+        const m = id.match(/_([iv]+)$/)
+        return m ? TIERS.indexOf(m[1]) : -1
+      }
+      group.sort((a, b) => getTierIndex(a.id) - getTierIndex(b.id))
+      // Return the first item (Tier 1) as the base, with variants attached
+      return { ...group[0], variants: group }
+    })
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+  return { items, inventory }
+}
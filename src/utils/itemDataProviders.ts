@@ -0,0 +1,205 @@
+import { RawItemData, RawItemFile } from './itemData'
+
+// Item data providers: each one knows how to produce the raw item JSON files that normalizeItemFiles consumes.
+
+export interface ItemDataProvider {
+  // Stable identifier, also used to key the item data cache
+  id: string
+  label: string
+  fetchItemFiles: () => Promise<RawItemFile[]>
+}
+
+interface GitHubContentsEntry {
+  name: string
+  download_url: string
+}
+
+export const DEFAULT_GITHUB_REPO = 'RohitMoni/arc-raiders-data'
+export const SNAPSHOT_URL = '/item-data-snapshot.json'
+export const ITEM_SOURCE_STORAGE_KEY = 'arc_raiders_item_source'
+export const ITEM_SOURCE_QUERY_PARAM = 'itemSource'
+
+// Keys written by e2e/global-setup.ts
+const E2E_FILES_KEY = 'e2e_api_files'
+const E2E_ITEM_KEY_PREFIX = 'e2e_api_item_'
+
+const fetchJson = async <T>(url: string): Promise<T> => {
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`Request to ${url} failed with status ${response.status}`)
+  // Static hosts and the dev server answer missing files with the app's index.html
+  const contentType = response.headers.get('content-type') || ''
+  if (contentType.includes('text/html')) throw new Error(`Expected JSON from ${url} but got an HTML page, is the file missing?`)
+  return response.json()
+}
+
+const isJsonFileName = (name: string) => name.endsWith('.json')
+
+const baseName = (path: string) => path.split('/').pop() || path
+
+export function createGitHubProvider(repo: string = DEFAULT_GITHUB_REPO, path: string = 'items'): ItemDataProvider {
+  return {
+    id: repo === DEFAULT_GITHUB_REPO && path === 'items' ? 'github' : `github:${repo}/${path}`,
+    label: `GitHub (${repo})`,
+    fetchItemFiles: async () => {
+      const files = await fetchJson<GitHubContentsEntry[]>(`https://api.github.com/repos/${repo}/contents/${path}`)
+      if (!Array.isArray(files)) throw new Error('Unexpected GitHub contents response')
+      return Promise.all(
+        files
+          .filter((file) => isJsonFileName(file.name))
+          .map(async (file) => ({ fileName: file.name, data: await fetchJson<RawItemData>(file.download_url) }))
+      )
+    },
+  }
+}
+
+// A static host serving `<baseUrl>/index.json` (an array of file names) next to the item files
+export function createBaseUrlProvider(baseUrl: string): ItemDataProvider {
+  const root = baseUrl.replace(/\/+$/, '')
+  return {
+    id: `url:${root}`,
+    label: `Custom URL (${root})`,
+    fetchItemFiles: async () => {
+      const fileNames = await fetchJson<string[]>(`${root}/index.json`)
+      if (!Array.isArray(fileNames)) throw new Error('index.json must be an array of file names')
+      return Promise.all(
+        fileNames
+          .filter(isJsonFileName)
+          .map(async (fileName) => ({ fileName: baseName(fileName), data: await fetchJson<RawItemData>(`${root}/${fileName}`) }))
+      )
+    },
+  }
+}
+
+// A single bundled JSON document mapping file names to item data
+export function createSnapshotProvider(url: string = SNAPSHOT_URL): ItemDataProvider {
+  return {
+    id: url === SNAPSHOT_URL ? 'snapshot' : `snapshot:${url}`,
+    label: 'Bundled snapshot',
+    fetchItemFiles: async () => {
+      const snapshot = await fetchJson<Record<string, RawItemData>>(url)
+      return Object.entries(snapshot).map(([fileName, data]) => ({ fileName, data }))
+    },
+  }
+}
+
+// The GitHub responses captured into localStorage by the e2e global setup
+export function createLocalStorageSnapshotProvider(storage: Storage = localStorage): ItemDataProvider {
+  return {
+    id: 'e2e-cache',
+    label: 'E2E cache',
+    fetchItemFiles: async () => {
+      const filesJson = storage.getItem(E2E_FILES_KEY)
+      if (!filesJson) throw new Error('No e2e item cache found in localStorage')
+      const files: GitHubContentsEntry[] = JSON.parse(filesJson)
+      const result: RawItemFile[] = []
+      files.filter((file) => isJsonFileName(file.name)).forEach((file) => {
+        const body = storage.getItem(`${E2E_ITEM_KEY_PREFIX}${file.name}`)
+        if (body) result.push({ fileName: file.name, data: JSON.parse(body) })
+      })
+      return result
+    },
+  }
+}
+
+const readUint16 = (view: DataView, offset: number) => view.getUint16(offset, true)
+const readUint32 = (view: DataView, offset: number) => view.getUint32(offset, true)
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([Uint8Array.from(data)]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+const readFile = <T extends string | ArrayBuffer>(file: File, as: 'text' | 'arrayBuffer'): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as T)
+    reader.onerror = () => reject(reader.error)
+    if (as === 'text') reader.readAsText(file)
+    else reader.readAsArrayBuffer(file)
+  })
+
+// Minimal zip reader (stored and deflated entries) so a zipped copy of the items folder can be uploaded
+export async function readZipEntries(buffer: ArrayBuffer): Promise<{ name: string; text: string }[]> {
+  const view = new DataView(buffer)
+  const bytes = new Uint8Array(buffer)
+  const decoder = new TextDecoder()
+
+  let eocd = -1
+  for (let i = buffer.byteLength - 22; i >= 0; i--) {
+    if (readUint32(view, i) === 0x06054b50) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd === -1) throw new Error('Not a zip archive')
+
+  const entryCount = readUint16(view, eocd + 10)
+  let offset = readUint32(view, eocd + 16)
+  const entries: { name: string; text: string }[] = []
+
+  for (let i = 0; i < entryCount; i++) {
+    if (readUint32(view, offset) !== 0x02014b50) throw new Error('Corrupt zip central directory')
+    const method = readUint16(view, offset + 10)
+    const compressedSize = readUint32(view, offset + 20)
+    const nameLength = readUint16(view, offset + 28)
+    const extraLength = readUint16(view, offset + 30)
+    const commentLength = readUint16(view, offset + 32)
+    const localOffset = readUint32(view, offset + 42)
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue
+    const dataStart = localOffset + 30 + readUint16(view, localOffset + 26) + readUint16(view, localOffset + 28)
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize)
+    if (method === 0) {
+      entries.push({ name, text: decoder.decode(raw) })
+    } else if (method === 8) {
+      entries.push({ name, text: decoder.decode(await inflateRaw(raw)) })
+    } else {
+      console.warn('[ItemData] Skipping zip entry with unsupported compression:', name)
+    }
+  }
+  return entries
+}
+
+// Files picked from a local directory, individually, or as a zip archive
+export function createLocalFilesProvider(files: File[]): ItemDataProvider {
+  return {
+    id: 'local-files',
+    label: `Local files (${files.length})`,
+    fetchItemFiles: async () => {
+      const result: RawItemFile[] = []
+      for (const file of files) {
+        if (file.name.endsWith('.zip')) {
+          const entries = await readZipEntries(await readFile<ArrayBuffer>(file, 'arrayBuffer'))
+          entries
+            .filter((entry) => isJsonFileName(entry.name))
+            .forEach((entry) => result.push({ fileName: baseName(entry.name), data: JSON.parse(entry.text) }))
+        } else if (isJsonFileName(file.name)) {
+          result.push({ fileName: file.name, data: JSON.parse(await readFile<string>(file, 'text')) })
+        }
+      }
+      return result
+    },
+  }
+}
+
+// Source specs: 'github', 'github:<owner>/<repo>', 'snapshot', 'e2e-cache' or an http(s) base URL
+export function createProviderFromSpec(spec: string | null | undefined): ItemDataProvider {
+  const value = spec?.trim()
+  if (!value || value === 'github') return createGitHubProvider()
+  if (value === 'snapshot') return createSnapshotProvider()
+  if (value === 'e2e-cache') return createLocalStorageSnapshotProvider()
+  if (value.startsWith('github:')) {
+    const [owner, repo, ...path] = value.slice('github:'.length).split('/')
+    if (owner && repo) return createGitHubProvider(`${owner}/${repo}`, path.join('/') || 'items')
+  }
+  if (/^https?:\/\//.test(value)) return createBaseUrlProvider(value)
+  console.warn('[ItemData] Unknown item source, falling back to GitHub:', value)
+  return createGitHubProvider()
+}
+
+// The query param wins over the saved setting so a link can point at a fork without changing preferences
+export function getItemSourceSpec(search: string = window.location.search, storage: Storage = localStorage): string | null {
+  return new URLSearchParams(search).get(ITEM_SOURCE_QUERY_PARAM) || storage.getItem(ITEM_SOURCE_STORAGE_KEY)
+}
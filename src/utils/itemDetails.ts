@@ -0,0 +1,73 @@
+// What the item detail card shows beyond the item's own fields: recipe and recycling outputs
+// resolved to names and icons, weapon mod slots, and what an augment allows.
+
+import { LootItem, toLootItems } from './lootTable'
+import { getCompatibleShieldTypes, getExtraSlotConfig, getSectionCapacity, SECTION_LABELS } from './slotRules'
+
+interface Item {
+  id: string
+  name: string
+  icon: string
+  isImage: boolean
+  category: string[]
+  recipe?: Record<string, number>
+  recyclesInto?: Record<string, number>
+  shieldCompatibility?: string[]
+  slots?: Record<string, number>
+  supportedModifications?: string[]
+  modifications?: (Item | null)[]
+}
+
+export interface ModSlotDetail {
+  type: string
+  // Name of the mod fitted in this slot, when the item is an equipped weapon
+  equipped: string | null
+}
+
+export interface SlotCountDetail {
+  label: string
+  count: number
+}
+
+export interface ItemDetails {
+  recipe: LootItem[]
+  recyclesInto: LootItem[]
+  modSlots: ModSlotDetail[]
+  // Augments only
+  shieldTypes: string[]
+  grantedSlots: SlotCountDetail[]
+}
+
+const formatSlotLabel = (key: string) => {
+  const label = key.replace(/_/g, ' ')
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
+const getGrantedSlots = (augment: Item): SlotCountDetail[] => {
+  const capacity = getSectionCapacity(augment)
+  const slots: SlotCountDetail[] = (['backpack', 'quickUse', 'safePocket'] as const)
+    .map((section) => ({ label: SECTION_LABELS[section], count: capacity[section] }))
+    .filter(({ count }) => count > 0)
+
+  getExtraSlotConfig(augment).slotTypes.forEach((type) => {
+    const label = formatSlotLabel(type)
+    const existing = slots.find((slot) => slot.label === label)
+    if (existing) existing.count++
+    else slots.push({ label, count: 1 })
+  })
+  return slots
+}
+
+export function getItemDetails(item: Item, allItemData: Record<string, Item>): ItemDetails {
+  const isAugment = item.category.includes('Augment')
+  return {
+    recipe: item.recipe ? toLootItems(item.recipe, allItemData) : [],
+    recyclesInto: item.recyclesInto ? toLootItems(item.recyclesInto, allItemData) : [],
+    modSlots: (item.supportedModifications || []).map((type, i) => ({
+      type,
+      equipped: item.modifications?.[i]?.name ?? null,
+    })),
+    shieldTypes: isAugment ? getCompatibleShieldTypes(item) : [],
+    grantedSlots: isAugment ? getGrantedSlots(item) : [],
+  }
+}
@@ -0,0 +1,59 @@
+// Reverse lookup over the item data: which items need a material, and which loot recycles into
+// it. Tiered recipes are already resolved to their cumulative cost (recipe plus each upgradeCost)
+// by normalizeItemFiles, so a tier III weapon counts everything spent getting there.
+
+import { LootItem, toLootItems } from './lootTable'
+
+interface Item {
+  id: string
+  name: string
+  icon: string
+  isImage: boolean
+  recipe?: Record<string, number>
+  recyclesInto?: Record<string, number>
+}
+
+export interface ReverseIndex {
+  // Material id -> item id -> amount of the material in that item's recipe
+  usedIn: Record<string, Record<string, number>>
+  // Material id -> item id -> amount that item recycles into
+  recycledFrom: Record<string, Record<string, number>>
+}
+
+export interface ItemLookup {
+  usedIn: LootItem[]
+  recycledFrom: LootItem[]
+  // The item's own recipe and recycling outputs, for following the chain the other way
+  recipe: LootItem[]
+  recyclesInto: LootItem[]
+}
+
+const addEntries = (
+  index: Record<string, Record<string, number>>,
+  sourceId: string,
+  amounts: Record<string, number> | undefined
+) => {
+  Object.entries(amounts || {}).forEach(([materialId, count]) => {
+    if (!index[materialId]) index[materialId] = {}
+    index[materialId][sourceId] = count
+  })
+}
+
+export function buildReverseIndex(allItemData: Record<string, Item>): ReverseIndex {
+  const index: ReverseIndex = { usedIn: {}, recycledFrom: {} }
+  Object.values(allItemData).forEach((item) => {
+    addEntries(index.usedIn, item.id, item.recipe)
+    addEntries(index.recycledFrom, item.id, item.recyclesInto)
+  })
+  return index
+}
+
+export function lookupItem(id: string, allItemData: Record<string, Item>, index: ReverseIndex): ItemLookup {
+  const item = allItemData[id]
+  return {
+    usedIn: toLootItems(index.usedIn[id] || {}, allItemData),
+    recycledFrom: toLootItems(index.recycledFrom[id] || {}, allItemData),
+    recipe: toLootItems(item?.recipe || {}, allItemData),
+    recyclesInto: toLootItems(item?.recyclesInto || {}, allItemData),
+  }
+}
@@ -0,0 +1,145 @@
+import { RawItemFile, isPlainObject } from './itemData'
+
+// Validation of the raw item JSON files before normalization.
+// normalizeItemFiles silently defaults missing fields, so this is where upstream shape changes get reported.
+
+export type ItemDiagnosticSeverity = 'error' | 'warning'
+
+export interface ItemDiagnostic {
+  fileName: string
+  itemId: string
+  severity: ItemDiagnosticSeverity
+  code: string
+  message: string
+}
+
+export const KNOWN_ITEM_TYPES = [
+  'Augment',
+  'Shield',
+  'Ammunition',
+  'Modification',
+  'Quick Use',
+  'Key',
+  'Material',
+  'Recyclable',
+  'Trinket',
+]
+
+export const KNOWN_RARITIES = ['Common', 'Uncommon', 'Rare', 'Epic', 'Legendary']
+
+const TIER_PATTERN = /^(.+)_(i|ii|iii|iv|v)$/
+
+const isPositiveInteger = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value > 0
+
+const isStringArray = (value: unknown) => Array.isArray(value) && value.every((entry) => typeof entry === 'string')
+
+export function validateItemFiles(files: RawItemFile[]): ItemDiagnostic[] {
+  const diagnostics: ItemDiagnostic[] = []
+
+  const idFor = (file: RawItemFile) => {
+    const data: unknown = file.data
+    if (isPlainObject(data) && typeof data.id === 'string' && data.id) return data.id
+    return file.fileName.replace('.json', '')
+  }
+
+  const knownIds = new Set(files.map(idFor))
+  const seenIds = new Map<string, string>()
+
+  files.forEach((file) => {
+    const itemId = idFor(file)
+    const report = (severity: ItemDiagnosticSeverity, code: string, message: string) =>
+      diagnostics.push({ fileName: file.fileName, itemId, severity, code, message })
+
+    const data: unknown = file.data
+    if (!isPlainObject(data)) {
+      report('error', 'invalid-shape', 'Item file is not a JSON object')
+      return
+    }
+
+    const previousFile = seenIds.get(itemId)
+    if (previousFile) {
+      report('error', 'duplicate-id', `Id "${itemId}" is also used by ${previousFile}`)
+    } else {
+      seenIds.set(itemId, file.fileName)
+    }
+
+    if (data.id !== undefined && typeof data.id !== 'string') {
+      report('error', 'invalid-id', 'id must be a string')
+    }
+
+    const name = data.name
+    if (!isPlainObject(name) || typeof name.en !== 'string' || !name.en.trim()) {
+      report('warning', 'missing-name', 'Missing name.en, the id will be shown instead')
+    }
+
+    const hasCategories = Array.isArray(data.categories) && data.categories.length > 0
+    if (data.categories !== undefined && !isStringArray(data.categories)) {
+      report('error', 'invalid-categories', 'categories must be an array of strings')
+    }
+    if (data.type === undefined) {
+      if (!hasCategories && data.isWeapon !== true && file.fileName !== 'raider_hatch_key.json') {
+        report('warning', 'missing-type', 'No type, categories or isWeapon flag, item will be treated as a Material')
+      }
+    } else if (typeof data.type !== 'string' || !KNOWN_ITEM_TYPES.includes(data.type)) {
+      if (!hasCategories && data.isWeapon !== true) {
+        report('warning', 'unknown-type', `Unknown type "${String(data.type)}"`)
+      }
+    }
+
+    if (data.rarity !== undefined && (typeof data.rarity !== 'string' || !KNOWN_RARITIES.includes(data.rarity))) {
+      report('warning', 'unknown-rarity', `Unknown rarity "${String(data.rarity)}", item will be shown as Common`)
+    }
+
+    const checkCostMap = (field: 'recipe' | 'upgradeCost' | 'recyclesInto', invalidCode: string, severity: ItemDiagnosticSeverity) => {
+      const value = data[field]
+      if (value === undefined) return
+      if (!isPlainObject(value)) {
+        report('error', invalidCode, `${field} must be an object of item ids to quantities`)
+        return
+      }
+      Object.entries(value).forEach(([ingredientId, quantity]) => {
+        if (!isPositiveInteger(quantity)) {
+          report('error', invalidCode, `${field} quantity for "${ingredientId}" must be a positive integer`)
+        }
+        if (!knownIds.has(ingredientId)) {
+          report(severity, 'unknown-reference', `${field} references unknown item "${ingredientId}"`)
+        }
+      })
+    }
+    checkCostMap('recipe', 'invalid-recipe', 'error')
+    checkCostMap('upgradeCost', 'invalid-upgrade-cost', 'error')
+    checkCostMap('recyclesInto', 'invalid-recycles-into', 'warning')
+
+    const tierMatch = itemId.match(TIER_PATTERN)
+    if (data.upgradeCost !== undefined && (!tierMatch || tierMatch[2] === 'i')) {
+      report('warning', 'unused-upgrade-cost', 'upgradeCost is only used on tier II and above')
+    }
+    if (tierMatch && tierMatch[2] !== 'i' && knownIds.has(`${tierMatch[1]}_i`) && data.upgradeCost === undefined) {
+      report('warning', 'missing-upgrade-cost', `No upgradeCost, crafting cost from ${tierMatch[1]}_i will be undercounted`)
+    }
+
+    if (data.stackSize !== undefined && !isPositiveInteger(data.stackSize)) {
+      report('error', 'invalid-stack-size', 'stackSize must be a positive integer')
+    }
+    if (data.craftQuantity !== undefined && !isPositiveInteger(data.craftQuantity)) {
+      report('error', 'invalid-craft-quantity', 'craftQuantity must be a positive integer')
+    }
+    if (data.supportedModifications !== undefined && !isStringArray(data.supportedModifications)) {
+      report('error', 'invalid-supported-modifications', 'supportedModifications must be an array of strings')
+    }
+    if (data.shieldCompatibility !== undefined && !isStringArray(data.shieldCompatibility)) {
+      report('error', 'invalid-shield-compatibility', 'shieldCompatibility must be an array of strings')
+    }
+    if (data.ammoType !== undefined && typeof data.ammoType !== 'string') {
+      report('error', 'invalid-ammo-type', 'ammoType must be a string')
+    }
+    if (data.slots !== undefined) {
+      const slots = data.slots
+      if (!isPlainObject(slots) || Object.values(slots).some((count) => typeof count !== 'number' || count < 0)) {
+        report('error', 'invalid-slots', 'slots must be an object of slot types to counts')
+      }
+    }
+  })
+
+  return diagnostics
+}
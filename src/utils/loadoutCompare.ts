@@ -0,0 +1,111 @@
+// Side-by-side comparison of two loadouts: per-slot differences and how their loot totals differ.
+
+interface Item {
+  id: string
+  name: string
+  icon: string
+  isImage: boolean
+  count?: number
+  modifications?: (Item | null)[]
+}
+
+interface LoadoutState {
+  augment: Item | null
+  shield: Item | null
+  weapons: (Item | null)[]
+  backpack: (Item | null)[]
+  quickUse: (Item | null)[]
+  extra: (Item | null)[]
+  safePocket: (Item | null)[]
+}
+
+interface LootItem {
+  id: string
+  count: number
+  name: string
+  icon: string
+  isImage: boolean
+}
+
+type CompareSection = keyof LoadoutState
+
+export const COMPARE_SECTIONS: CompareSection[] = ['augment', 'shield', 'weapons', 'backpack', 'quickUse', 'extra', 'safePocket']
+
+export type SlotChange = 'same' | 'added' | 'removed' | 'replaced' | 'count' | 'mods'
+
+export interface SlotComparison {
+  section: CompareSection
+  // -1 for the single-item sections
+  index: number
+  left: Item | null
+  right: Item | null
+  change: SlotChange
+  // Indexes of mod slots whose mod differs, for weapons present on both sides
+  changedMods: number[]
+}
+
+export interface MaterialDelta {
+  id: string
+  name: string
+  icon: string
+  isImage: boolean
+  left: number
+  right: number
+  delta: number
+}
+
+const getChangedMods = (left: Item, right: Item) => {
+  const length = Math.max(left.modifications?.length || 0, right.modifications?.length || 0)
+  const changed: number[] = []
+  for (let i = 0; i < length; i++) {
+    if ((left.modifications?.[i]?.id ?? null) !== (right.modifications?.[i]?.id ?? null)) changed.push(i)
+  }
+  return changed
+}
+
+const compareSlot = (section: CompareSection, index: number, left: Item | null, right: Item | null): SlotComparison => {
+  const base = { section, index, left, right, changedMods: [] as number[] }
+  if (!left && !right) return { ...base, change: 'same' }
+  if (!left) return { ...base, change: 'added' }
+  if (!right) return { ...base, change: 'removed' }
+  if (left.id !== right.id) return { ...base, change: 'replaced' }
+  const changedMods = getChangedMods(left, right)
+  if (changedMods.length > 0) return { ...base, change: 'mods', changedMods }
+  if ((left.count || 1) !== (right.count || 1)) return { ...base, change: 'count' }
+  return { ...base, change: 'same' }
+}
+
+// Every slot filled on either side, in layout order. Empty-on-both slots are left out.
+export function compareLoadouts(left: LoadoutState, right: LoadoutState): SlotComparison[] {
+  const rows: SlotComparison[] = []
+  COMPARE_SECTIONS.forEach((section) => {
+    const leftValue = left[section]
+    const rightValue = right[section]
+    if (!Array.isArray(leftValue) || !Array.isArray(rightValue)) {
+      const row = compareSlot(section, -1, leftValue as Item | null, rightValue as Item | null)
+      if (row.left || row.right) rows.push(row)
+      return
+    }
+    const length = Math.max(leftValue.length, rightValue.length)
+    for (let index = 0; index < length; index++) {
+      const row = compareSlot(section, index, leftValue[index] ?? null, rightValue[index] ?? null)
+      if (row.left || row.right) rows.push(row)
+    }
+  })
+  return rows
+}
+
+// Per-material difference between two loot tables, largest changes first
+export function getMaterialDelta(left: LootItem[], right: LootItem[]): MaterialDelta[] {
+  const rows = new Map<string, MaterialDelta>()
+  const add = (item: LootItem, side: 'left' | 'right') => {
+    const row = rows.get(item.id) || { id: item.id, name: item.name, icon: item.icon, isImage: item.isImage, left: 0, right: 0, delta: 0 }
+    row[side] += item.count
+    row.delta = row.right - row.left
+    rows.set(item.id, row)
+  }
+  left.forEach((item) => add(item, 'left'))
+  right.forEach((item) => add(item, 'right'))
+
+  return [...rows.values()].sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || a.name.localeCompare(b.name))
+}
@@ -0,0 +1,177 @@
+// Library of named loadouts saved in localStorage. Each entry holds the output of serializeLoadout,
+// so the title stored in the loadout doubles as the entry's name.
+
+export interface SavedLoadout<T extends { title?: string }> {
+  id: string
+  data: T
+}
+
+export interface LoadoutLibrary<T extends { title?: string }> {
+  activeId: string
+  loadouts: SavedLoadout<T>[]
+}
+
+export const LOADOUT_LIBRARY_STORAGE_KEY = 'arc_raiders_loadouts'
+// This tab's (sessionStorage) and the last used (localStorage) active loadout id
+export const ACTIVE_LOADOUT_STORAGE_KEY = 'arc_raiders_active_loadout'
+// Single saved loadout from before the library existed
+export const LEGACY_LOADOUT_STORAGE_KEY = 'arc_raiders_loadout'
+
+const DEFAULT_TITLE = 'LOADOUT'
+
+let idCounter = 0
+const createLoadoutId = () => `${Date.now().toString(36)}-${(idCounter++).toString(36)}`
+
+export const getLoadoutName = <T extends { title?: string }>(saved: SavedLoadout<T>) => saved.data.title || DEFAULT_TITLE
+
+export const createLibrary = <T extends { title?: string }>(data: T): LoadoutLibrary<T> => {
+  const id = createLoadoutId()
+  return { activeId: id, loadouts: [{ id, data }] }
+}
+
+export const getActiveLoadout = <T extends { title?: string }>(library: LoadoutLibrary<T>) =>
+  library.loadouts.find((saved) => saved.id === library.activeId) || library.loadouts[0]
+
+export const updateActiveLoadout = <T extends { title?: string }>(library: LoadoutLibrary<T>, data: T): LoadoutLibrary<T> => ({
+  ...library,
+  loadouts: library.loadouts.map((saved) => (saved.id === library.activeId ? { ...saved, data } : saved)),
+})
+
+export const setActiveLoadout = <T extends { title?: string }>(library: LoadoutLibrary<T>, id: string): LoadoutLibrary<T> =>
+  library.loadouts.some((saved) => saved.id === id) ? { ...library, activeId: id } : library
+
+// Adds a loadout after the active one and makes it active
+export const addLoadout = <T extends { title?: string }>(library: LoadoutLibrary<T>, data: T): LoadoutLibrary<T> => {
+  const id = createLoadoutId()
+  const index = library.loadouts.findIndex((saved) => saved.id === library.activeId)
+  const loadouts = [...library.loadouts]
+  loadouts.splice(index + 1, 0, { id, data })
+  return { activeId: id, loadouts }
+}
+
+export const duplicateLoadout = <T extends { title?: string }>(library: LoadoutLibrary<T>, id: string): LoadoutLibrary<T> => {
+  const source = library.loadouts.find((saved) => saved.id === id)
+  if (!source) return library
+  const copy = { ...source.data, title: `${getLoadoutName(source)} (COPY)` }
+  return addLoadout(setActiveLoadout(library, id), copy)
+}
+
+export const renameLoadout = <T extends { title?: string }>(
+  library: LoadoutLibrary<T>,
+  id: string,
+  title: string
+): LoadoutLibrary<T> => ({
+  ...library,
+  loadouts: library.loadouts.map((saved) => (saved.id === id ? { ...saved, data: { ...saved.data, title } } : saved)),
+})
+
+// Deleting the last loadout leaves an empty one in its place, so there is always an active loadout
+export const deleteLoadout = <T extends { title?: string }>(
+  library: LoadoutLibrary<T>,
+  id: string,
+  empty: T
+): LoadoutLibrary<T> => {
+  const index = library.loadouts.findIndex((saved) => saved.id === id)
+  if (index === -1) return library
+  const loadouts = library.loadouts.filter((saved) => saved.id !== id)
+  if (loadouts.length === 0) return createLibrary(empty)
+  const activeId = library.activeId === id ? loadouts[Math.min(index, loadouts.length - 1)].id : library.activeId
+  return { activeId, loadouts }
+}
+
+// The saved loadouts only; activeId was also stored here before it moved to its own keys
+interface StoredLibrary<T extends { title?: string }> {
+  activeId?: string
+  loadouts: SavedLoadout<T>[]
+}
+
+const isStoredLibrary = (value: unknown): value is StoredLibrary<{ title?: string }> => {
+  if (!value || typeof value !== 'object') return false
+  const { loadouts } = value as StoredLibrary<{ title?: string }>
+  return (
+    Array.isArray(loadouts) &&
+    loadouts.length > 0 &&
+    loadouts.every((saved) => saved && typeof saved.id === 'string' && saved.data && typeof saved.data === 'object')
+  )
+}
+
+// Each tab edits its own active loadout, so the active id is kept out of the shared library key: per tab
+// in sessionStorage, plus the last one used in localStorage for tabs opened later
+const resolveActiveId = (loadouts: SavedLoadout<{ title?: string }>[], candidates: (string | null | undefined)[]) =>
+  candidates.find((id) => id && loadouts.some((saved) => saved.id === id)) || loadouts[0].id
+
+// Reads the library, migrating the legacy single saved loadout into it on first run
+export function loadLoadoutLibrary<T extends { title?: string }>(
+  empty: T,
+  storage: Storage = localStorage,
+  session: Storage = sessionStorage
+): LoadoutLibrary<T> {
+  try {
+    const saved = storage.getItem(LOADOUT_LIBRARY_STORAGE_KEY)
+    if (saved) {
+      const parsed = JSON.parse(saved)
+      if (isStoredLibrary(parsed)) {
+        const activeId = resolveActiveId(parsed.loadouts, [
+          session.getItem(ACTIVE_LOADOUT_STORAGE_KEY),
+          storage.getItem(ACTIVE_LOADOUT_STORAGE_KEY),
+          parsed.activeId,
+        ])
+        return { activeId, loadouts: parsed.loadouts as SavedLoadout<T>[] }
+      }
+      console.error('[LoadoutLibrary] Ignoring malformed saved library')
+    }
+  } catch (e) {
+    console.error('[LoadoutLibrary] Failed to load saved library', e)
+  }
+
+  try {
+    const legacy = storage.getItem(LEGACY_LOADOUT_STORAGE_KEY)
+    if (legacy) {
+      const library = createLibrary(JSON.parse(legacy) as T)
+      saveLoadoutLibrary(library, storage, session)
+      storage.removeItem(LEGACY_LOADOUT_STORAGE_KEY)
+      console.log('[LoadoutLibrary] Migrated saved loadout into the library')
+      return library
+    }
+  } catch (e) {
+    console.error('[LoadoutLibrary] Failed to migrate saved loadout', e)
+  }
+
+  return createLibrary(empty)
+}
+
+const setIfChanged = (storage: Storage, key: string, value: string) => {
+  if (storage.getItem(key) !== value) storage.setItem(key, value)
+}
+
+// Unchanged values are not rewritten, so saving what another tab just stored doesn't echo back to it
+export function saveLoadoutLibrary<T extends { title?: string }>(
+  library: LoadoutLibrary<T>,
+  storage: Storage = localStorage,
+  session: Storage = sessionStorage
+) {
+  const stored: StoredLibrary<T> = { loadouts: library.loadouts }
+  setIfChanged(storage, LOADOUT_LIBRARY_STORAGE_KEY, JSON.stringify(stored))
+  setIfChanged(storage, ACTIVE_LOADOUT_STORAGE_KEY, library.activeId)
+  setIfChanged(session, ACTIVE_LOADOUT_STORAGE_KEY, library.activeId)
+}
+
+// Another tab saved the library. Its entries replace ours so the next save here doesn't drop what it
+// added, renamed or deleted. This tab stays on its own active loadout unless it was deleted, in which
+// case the neighbouring one takes over. Returns null when the saved value can't be read.
+export function mergeStoredLibrary<T extends { title?: string }>(current: LoadoutLibrary<T>, saved: string): LoadoutLibrary<T> | null {
+  try {
+    const parsed = JSON.parse(saved)
+    if (!isStoredLibrary(parsed)) {
+      console.error('[LoadoutLibrary] Ignoring malformed library saved by another tab')
+      return null
+    }
+    const loadouts = parsed.loadouts as SavedLoadout<T>[]
+    if (loadouts.some((entry) => entry.id === current.activeId)) return { activeId: current.activeId, loadouts }
+    const index = current.loadouts.findIndex((entry) => entry.id === current.activeId)
+    return { activeId: loadouts[Math.min(Math.max(index, 0), loadouts.length - 1)].id, loadouts }
+  } catch (e) {
+    console.error('[LoadoutLibrary] Failed to read library saved by another tab', e)
+    return null
+  }
+}
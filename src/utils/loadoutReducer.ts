@@ -0,0 +1,264 @@
+// Pure loadout mutations. Every input path (mouse drag, touch drag, clicks, count edits) goes
+// through loadoutReducer so they all validate and resolve moves the same way.
+
+import { SortableSection, sortAndMerge, SortKey } from './sectionSort'
+import { canEquip, getEquipRejection, getSectionCapacity, isIntegratedSlot, isShieldCompatible, SECTION_LABELS } from './slotRules'
+
+export interface Item {
+  id: string
+  name: string
+  category: string[]
+  rarity?: string
+  stackSize?: number
+  count?: number
+  shieldCompatibility?: string[]
+  slots?: Record<string, number>
+  isIntegrated?: boolean
+  supportedModifications?: string[]
+  modifications?: (Item | null)[]
+}
+
+export interface LoadoutState<T extends Item = Item> {
+  title: string
+  augment: T | null
+  shield: T | null
+  weapons: (T | null)[]
+  backpack: (T | null)[]
+  quickUse: (T | null)[]
+  extra: (T | null)[]
+  safePocket: (T | null)[]
+}
+
+export type SlotSection = Exclude<keyof LoadoutState, 'title'>
+
+// index is -1 for the single-item sections (augment, shield); modIndex addresses a weapon's mod slot
+export interface SlotRef {
+  section: SlotSection
+  index: number
+  modIndex?: number
+}
+
+export type LoadoutAction<T extends Item = Item> =
+  // Place a new item from the inventory
+  | { type: 'EQUIP'; item: T; target: SlotRef }
+  // Move a whole stack (or mod) between slots, swapping with whatever is in the target
+  | { type: 'MOVE'; from: SlotRef; target: SlotRef }
+  // Move part of a stack into an empty slot or onto a matching stack
+  | { type: 'SPLIT'; from: SlotRef; target: SlotRef; count: number }
+  // Remove an item, or only `count` of a stack
+  | { type: 'UNEQUIP'; slot: SlotRef; count?: number }
+  // Edit a stack size; undefined leaves the field empty while typing
+  | { type: 'SET_COUNT'; slot: SlotRef; count: number | undefined }
+  | { type: 'SET_AUGMENT'; augment: T | null }
+  // Merge same-id stacks in a grid section, sort it and move empty slots to the end
+  | { type: 'SORT_SECTION'; section: SortableSection; sortKey: SortKey }
+
+// --- Slot access ---
+
+const isModSlot = (slot: SlotRef) => slot.modIndex !== undefined && slot.modIndex !== -1
+
+const isSameSlot = (a: SlotRef, b: SlotRef) =>
+  a.section === b.section && a.index === b.index && (a.modIndex ?? -1) === (b.modIndex ?? -1)
+
+export const getSlotItem = <T extends Item>(state: LoadoutState<T>, slot: SlotRef): T | null => {
+  const value = state[slot.section]
+  const item = Array.isArray(value) ? (slot.index === -1 ? null : value[slot.index] ?? null) : value
+  if (!isModSlot(slot)) return item
+  return ((item?.modifications?.[slot.modIndex!] as T | null | undefined) ?? null)
+}
+
+const setSlotItem = <T extends Item>(state: LoadoutState<T>, slot: SlotRef, value: T | null): LoadoutState<T> => {
+  if (isModSlot(slot)) {
+    const weapon = getSlotItem(state, { section: slot.section, index: slot.index })
+    if (!weapon) return state
+    const modifications = [...(weapon.modifications || [])]
+    modifications[slot.modIndex!] = value
+    return setSlotItem(state, { section: slot.section, index: slot.index }, { ...weapon, modifications })
+  }
+
+  const current = state[slot.section]
+  if (Array.isArray(current)) {
+    if (slot.index === -1) return state
+    const next = [...current]
+    next[slot.index] = value
+    return { ...state, [slot.section]: next }
+  }
+  return { ...state, [slot.section]: value }
+}
+
+// Takes `count` off a stack, or the mod itself from a mod slot
+const removeFromSlot = <T extends Item>(state: LoadoutState<T>, slot: SlotRef, count?: number): LoadoutState<T> => {
+  const item = getSlotItem(state, slot)
+  if (!item) return state
+  if (isModSlot(slot) || count === undefined) return setSlotItem(state, slot, null)
+  const remaining = (item.count || 1) - count
+  return setSlotItem(state, slot, remaining > 0 ? { ...item, count: remaining } : null)
+}
+
+// Medium/heavy shields depend on the augment, so drop one the current augment can't carry
+const withCompatibleShield = <T extends Item>(state: LoadoutState<T>): LoadoutState<T> => {
+  if (state.shield && !isShieldCompatible(state.shield, state.augment)) {
+    console.log('[Loadout] Removing incompatible shield:', state.shield.name)
+    return { ...state, shield: null }
+  }
+  return state
+}
+
+// --- Best slot ---
+
+const STACK_SECTIONS: SlotSection[] = ['quickUse', 'extra', 'backpack', 'safePocket']
+const PREFERRED_SECTIONS: SlotSection[] = ['augment', 'shield', 'weapons', 'quickUse', 'extra', 'backpack', 'safePocket']
+
+const getSlotRefs = <T extends Item>(state: LoadoutState<T>, section: SlotSection): SlotRef[] => {
+  if (section === 'augment' || section === 'shield') return [{ section, index: -1 }]
+  const capacity = getSectionCapacity(state.augment)[section]
+  return Array.from({ length: Math.min(capacity, state[section].length) }, (_, index) => ({ section, index }))
+}
+
+// Where an item goes when it's equipped without picking a slot: onto a stack of the same item with
+// room, then the first free slot in its own section before the backpack and safe pocket, then
+// replacing the augment or shield. Mods go into the first free matching slot on a weapon.
+export const findBestSlot = <T extends Item>(state: LoadoutState<T>, item: T): SlotRef | null => {
+  const fits = (slot: SlotRef) => !getEquipRejection(state, item, slot.section, slot.index, slot.modIndex ?? -1)
+
+  if (item.stackSize) {
+    for (const section of STACK_SECTIONS) {
+      const stack = getSlotRefs(state, section).find((slot) => {
+        const current = getSlotItem(state, slot)
+        return current?.id === item.id && (current.count || 1) < item.stackSize! && fits(slot)
+      })
+      if (stack) return stack
+    }
+  }
+
+  if (item.category.includes('Modification')) {
+    for (const weaponSlot of getSlotRefs(state, 'weapons')) {
+      const weapon = getSlotItem(state, weaponSlot)
+      const modIndex = weapon?.supportedModifications?.findIndex(
+        (_, i) => !weapon.modifications?.[i] && fits({ ...weaponSlot, modIndex: i })
+      )
+      if (modIndex !== undefined && modIndex !== -1) return { ...weaponSlot, modIndex }
+    }
+  }
+
+  for (const section of PREFERRED_SECTIONS) {
+    const free = getSlotRefs(state, section).find((slot) => !getSlotItem(state, slot) && fits(slot))
+    if (free) return free
+  }
+
+  for (const section of ['augment', 'shield'] as const) {
+    const slot = { section, index: -1 }
+    if (fits(slot)) return slot
+  }
+  return null
+}
+
+// Why findBestSlot found nothing: the sections the item fits in are all full, or the rule that
+// keeps it out of every slot
+export const getNoSlotReason = <T extends Item>(state: LoadoutState<T>, item: T): string => {
+  const full: SlotSection[] = []
+  let rejection: string | null = null
+  for (const section of PREFERRED_SECTIONS) {
+    const slots = getSlotRefs(state, section)
+    const slotRejections = slots.map((slot) => getEquipRejection(state, item, slot.section, slot.index))
+    if (slotRejections.some((r) => r === null)) full.push(section)
+    else rejection = rejection ?? slotRejections[0] ?? null
+  }
+  if (full.length === 0) return rejection ?? `${item.name} can't be equipped`
+  const labels = full.map((section) => SECTION_LABELS[section])
+  const list = labels.length > 1 ? `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}` : labels[0]
+  return `${list} ${labels.length > 1 ? 'are' : 'is'} full`
+}
+
+// --- Placement ---
+
+// Places `item` (count as given) into the target, merging onto a matching stack. `from` is the
+// slot it came from, if any; `whole` means the entire source stack is moving, which allows a swap.
+// Splits never swap.
+const place = <T extends Item>(
+  state: LoadoutState<T>,
+  item: T,
+  target: SlotRef,
+  from: SlotRef | null,
+  whole: boolean
+): LoadoutState<T> => {
+  if (from && isSameSlot(from, target)) return state
+  if (isIntegratedSlot(state.augment, target.section, target.index)) return state
+  const rejection = getEquipRejection(state, item, target.section, target.index, target.modIndex ?? -1)
+  if (rejection) {
+    console.log('[Loadout] Rejected:', item.name, 'for slot', target.section, '-', rejection)
+    return state
+  }
+
+  // Mods always move one at a time
+  if (isModSlot(target)) {
+    if (!getSlotItem(state, { section: target.section, index: target.index })) return state
+    const next = from ? removeFromSlot(state, from, 1) : state
+    return setSlotItem(next, target, { ...item, count: 1 })
+  }
+
+  const targetItem = getSlotItem(state, target)
+  const amount = item.count || 1
+
+  if (targetItem && targetItem.id === item.id && targetItem.stackSize) {
+    const moved = Math.min(amount, targetItem.stackSize - (targetItem.count || 1))
+    if (moved <= 0) return state
+    const next = from ? removeFromSlot(state, from, moved) : state
+    return setSlotItem(next, target, { ...targetItem, count: (targetItem.count || 1) + moved })
+  }
+
+  if (!targetItem) {
+    const next = from ? removeFromSlot(state, from, amount) : state
+    return setSlotItem(next, target, { ...item, count: amount })
+  }
+
+  // Occupied by something else: inventory drops replace it, whole-stack moves swap, splits can't land
+  if (!from) return setSlotItem(state, target, { ...item, count: amount })
+  if (!whole || isModSlot(from)) return state
+  if (!canEquip(state, targetItem, from.section, from.index)) return state
+  return setSlotItem(setSlotItem(state, target, { ...item, count: amount }), from, targetItem)
+}
+
+export function loadoutReducer<T extends Item>(state: LoadoutState<T>, action: LoadoutAction<T>): LoadoutState<T> {
+  switch (action.type) {
+    case 'EQUIP': {
+      const next = place(state, action.item, action.target, null, false)
+      return next === state ? state : withCompatibleShield(next)
+    }
+    case 'MOVE': {
+      const item = getSlotItem(state, action.from)
+      if (!item) return state
+      const next = place(state, item, action.target, action.from, true)
+      return next === state ? state : withCompatibleShield(next)
+    }
+    case 'SPLIT': {
+      const item = getSlotItem(state, action.from)
+      if (!item || isModSlot(action.from)) return state
+      const count = Math.min(Math.max(1, Math.floor(action.count)), item.count || 1)
+      const next = place(state, { ...item, count }, action.target, action.from, false)
+      return next === state ? state : withCompatibleShield(next)
+    }
+    case 'UNEQUIP': {
+      const item = getSlotItem(state, action.slot)
+      if (!item || item.isIntegrated || isIntegratedSlot(state.augment, action.slot.section, action.slot.index)) {
+        return state
+      }
+      return withCompatibleShield(removeFromSlot(state, action.slot, action.count))
+    }
+    case 'SET_COUNT': {
+      const item = getSlotItem(state, action.slot)
+      if (!item || isModSlot(action.slot)) return state
+      const count =
+        action.count !== undefined && item.stackSize && action.count > item.stackSize ? item.stackSize : action.count
+      return setSlotItem(state, action.slot, { ...item, count })
+    }
+    case 'SET_AUGMENT': {
+      if (action.augment && !canEquip(state, action.augment, 'augment')) return state
+      return withCompatibleShield({ ...state, augment: action.augment })
+    }
+    case 'SORT_SECTION': {
+      console.log('[Loadout] Sort & Merge:', action.section, 'by', action.sortKey)
+      return { ...state, [action.section]: sortAndMerge(state[action.section], action.sortKey) }
+    }
+  }
+}
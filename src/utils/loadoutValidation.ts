@@ -0,0 +1,128 @@
+// Whole-loadout validation. Loads (share links, saved loadouts) bypass the reducer's checks, so
+// they can carry states the editor would never produce; this lists them with a fix for each.
+
+import { getSlotItem, Item, LoadoutState, loadoutReducer, SlotRef } from './loadoutReducer'
+import { getEquipRejection, getSectionCapacity, isIntegratedSlot, MultiSlotSection, SECTION_LABELS } from './slotRules'
+
+export type LoadoutIssueType = 'incompatible-shield' | 'over-stacked' | 'unsupported-mod' | 'invalid-slot' | 'missing-slot'
+
+export interface LoadoutIssue {
+  type: LoadoutIssueType
+  slot: SlotRef
+  itemId: string
+  itemName: string
+  message: string
+  fixLabel: string
+}
+
+const MULTI_SLOT_SECTIONS: MultiSlotSection[] = ['weapons', 'backpack', 'quickUse', 'extra', 'safePocket']
+
+const getSlotLabel = (slot: SlotRef) =>
+  slot.index === -1 ? SECTION_LABELS[slot.section] : `${SECTION_LABELS[slot.section]} slot ${slot.index + 1}`
+
+const findFreeBackpackSlot = <T extends Item>(state: LoadoutState<T>, item: T) => {
+  const capacity = getSectionCapacity(state.augment).backpack
+  for (let index = 0; index < Math.min(capacity, state.backpack.length); index++) {
+    if (!state.backpack[index] && !getEquipRejection(state, item, 'backpack', index)) return index
+  }
+  return -1
+}
+
+// Items that can't stay where they are go to the backpack when there's room, otherwise they're removed
+const getRelocateLabel = <T extends Item>(state: LoadoutState<T>, item: T) =>
+  findFreeBackpackSlot(state, item) === -1 ? 'Remove' : 'Move to Backpack'
+
+export function validateLoadout<T extends Item>(state: LoadoutState<T>): LoadoutIssue[] {
+  const issues: LoadoutIssue[] = []
+  const capacity = getSectionCapacity(state.augment)
+  const report = (type: LoadoutIssueType, slot: SlotRef, item: T, message: string, fixLabel: string) =>
+    issues.push({ type, slot, itemId: item.id, itemName: item.name, message, fixLabel })
+
+  const checkSlot = (slot: SlotRef, item: T) => {
+    if (item.isIntegrated) return
+
+    const limit = item.stackSize || 1
+    if ((item.count || 1) > limit) {
+      report('over-stacked', slot, item, `${item.count} in a stack of ${limit}`, `Reduce to ${limit}`)
+    }
+
+    if (slot.index !== -1 && slot.index >= capacity[slot.section as MultiSlotSection]) {
+      const augmentName = state.augment?.name ?? 'no augment'
+      report('missing-slot', slot, item, `${getSlotLabel(slot)} doesn't exist with ${augmentName}`, getRelocateLabel(state, item))
+      return
+    }
+
+    if (isIntegratedSlot(state.augment, slot.section, slot.index)) return
+    const rejection = getEquipRejection(state, item, slot.section, slot.index)
+    if (rejection) {
+      const type = slot.section === 'shield' && item.category.includes('Shield') ? 'incompatible-shield' : 'invalid-slot'
+      report(type, slot, item, rejection, getRelocateLabel(state, item))
+    }
+  }
+
+  const checkMods = (weaponSlot: SlotRef, weapon: T) => {
+    weapon.modifications?.forEach((mod, modIndex) => {
+      if (!mod) return
+      const slot = { ...weaponSlot, modIndex }
+      const rejection = getEquipRejection(state, mod, slot.section, slot.index, modIndex)
+      if (rejection) report('unsupported-mod', slot, mod as T, `${weapon.name}: ${rejection}`, getRelocateLabel(state, mod as T))
+    })
+  }
+
+  for (const section of ['augment', 'shield'] as const) {
+    const item = state[section]
+    if (item) checkSlot({ section, index: -1 }, item)
+  }
+  for (const section of MULTI_SLOT_SECTIONS) {
+    state[section].forEach((item, index) => {
+      if (!item) return
+      const slot = { section, index }
+      checkSlot(slot, item)
+      if (section === 'weapons' && item.category.includes('Weapon')) checkMods(slot, item)
+    })
+  }
+
+  return issues
+}
+
+// Drops empty slots left past the end of a section once their items have been dealt with
+const trimMissingSlots = <T extends Item>(state: LoadoutState<T>): LoadoutState<T> => {
+  const capacity = getSectionCapacity(state.augment)
+  let next = state
+  for (const section of MULTI_SLOT_SECTIONS) {
+    const items = next[section]
+    let end = items.length
+    while (end > capacity[section] && !items[end - 1]) end--
+    if (end < items.length) next = { ...next, [section]: items.slice(0, end) }
+  }
+  return next
+}
+
+// Applies the issue's fix. Does nothing if the slot no longer holds the item it was reported for.
+export function fixLoadoutIssue<T extends Item>(state: LoadoutState<T>, issue: LoadoutIssue): LoadoutState<T> {
+  const item = getSlotItem(state, issue.slot)
+  if (!item || item.id !== issue.itemId) return state
+
+  if (issue.type === 'over-stacked') {
+    return loadoutReducer(state, { type: 'SET_COUNT', slot: issue.slot, count: item.stackSize || 1 })
+  }
+
+  const freeIndex = findFreeBackpackSlot(state, item)
+  const next =
+    freeIndex === -1
+      ? loadoutReducer(state, { type: 'UNEQUIP', slot: issue.slot })
+      : loadoutReducer(state, { type: 'MOVE', from: issue.slot, target: { section: 'backpack', index: freeIndex } })
+  return trimMissingSlots(next)
+}
+
+// Fixes one issue at a time, re-validating in between since a move can use up the free slot
+// another fix was counting on
+export function fixAllLoadoutIssues<T extends Item>(state: LoadoutState<T>): LoadoutState<T> {
+  let next = state
+  let issues = validateLoadout(next)
+  for (let remaining = issues.length; issues.length > 0 && remaining > 0; remaining--) {
+    next = fixLoadoutIssue(next, issues[0])
+    issues = validateLoadout(next)
+  }
+  return next
+}
@@ -0,0 +1,158 @@
+// Text exports of the loot table and recycle plan for pasting into spreadsheets and chat, next to
+// the base64 mobile link. Only what is still needed is exported, same as the shared link.
+
+import { KNOWN_RARITIES } from './itemValidation'
+import { getStillNeeded, LootItem } from './lootTable'
+import { RecyclePlan } from './recyclePlan'
+
+interface Item {
+  id: string
+  rarity?: string
+}
+
+export type ExportFormat = 'csv' | 'markdown' | 'text'
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  text: { label: 'Plain text', extension: 'txt', mimeType: 'text/plain' },
+}
+
+export interface ExportOptions {
+  format: ExportFormat
+  groupByRarity: boolean
+}
+
+interface ExportRow {
+  name: string
+  rarity: string
+  quantity: number
+  details: string
+}
+
+interface ExportGroup {
+  // Rarity heading when grouping, otherwise empty
+  title: string
+  rows: ExportRow[]
+}
+
+interface ExportSection {
+  title: string
+  groups: ExportGroup[]
+}
+
+const formatMaterials = (materials: LootItem[]) => materials.map((material) => `${material.count} ${material.name}`).join(', ')
+
+// Rarest first, unknown rarities last
+const getRarityRank = (rarity: string) => {
+  const index = KNOWN_RARITIES.indexOf(rarity)
+  return index === -1 ? 1 : -index
+}
+
+const groupRows = (rows: ExportRow[], groupByRarity: boolean): ExportGroup[] => {
+  if (!groupByRarity) return [{ title: '', rows }]
+  const rarities = [...new Set(rows.map((row) => row.rarity))].sort((a, b) => getRarityRank(a) - getRarityRank(b))
+  return rarities.map((rarity) => ({ title: rarity || 'Unknown', rows: rows.filter((row) => row.rarity === rarity) }))
+}
+
+const buildSections = (
+  lootTable: LootItem[],
+  recyclePlan: RecyclePlan,
+  allItemData: Record<string, Item>,
+  groupByRarity: boolean
+): ExportSection[] => {
+  const toRow = (item: { id: string; name: string }, quantity: number, details = ''): ExportRow => ({
+    name: item.name,
+    rarity: allItemData[item.id]?.rarity || '',
+    quantity,
+    details,
+  })
+
+  const sections: { title: string; rows: ExportRow[] }[] = [
+    {
+      title: 'Required loot',
+      rows: lootTable
+        .filter((item) => getStillNeeded(item) > 0)
+        .map((item) => toRow(item, getStillNeeded(item), item.owned ? `${item.owned} of ${item.count} owned` : '')),
+    },
+    {
+      title: 'Recycle',
+      rows: recyclePlan.steps.map((step) => toRow(step, step.count, `Yields ${formatMaterials(step.yields)}`)),
+    },
+    { title: 'Not from recycling', rows: recyclePlan.uncovered.map((item) => toRow(item, item.count)) },
+    { title: 'Leftovers', rows: recyclePlan.leftovers.map((item) => toRow(item, item.count, 'Left over from recycling')) },
+  ]
+
+  return sections
+    .filter((section) => section.rows.length > 0)
+    .map((section) => ({ title: section.title, groups: groupRows(section.rows, groupByRarity) }))
+}
+
+// Quotes fields containing separators, quotes or line breaks (RFC 4180)
+const escapeCsv = (value: string | number) => {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const toCsv = (sections: ExportSection[]) =>
+  [
+    ['Section', 'Item', 'Rarity', 'Quantity', 'Details'],
+    ...sections.flatMap((section) =>
+      section.groups.flatMap((group) => group.rows.map((row) => [section.title, row.name, row.rarity, row.quantity, row.details]))
+    ),
+  ]
+    .map((fields) => fields.map(escapeCsv).join(','))
+    .join('\r\n')
+
+const escapeMarkdown = (value: string) => value.replace(/\|/g, '\\|')
+
+const toMarkdown = (sections: ExportSection[]) =>
+  sections
+    .map((section) =>
+      [
+        `## ${section.title}`,
+        ...section.groups.map((group) =>
+          [
+            ...(group.title ? [`### ${group.title}`] : []),
+            '| Item | Rarity | Quantity | Details |',
+            '| --- | --- | ---: | --- |',
+            ...group.rows.map(
+              (row) => `| ${escapeMarkdown(row.name)} | ${row.rarity} | ${row.quantity} | ${escapeMarkdown(row.details)} |`
+            ),
+          ].join('\n')
+        ),
+      ].join('\n\n')
+    )
+    .join('\n\n')
+
+const toText = (sections: ExportSection[]) =>
+  sections
+    .map((section) =>
+      [
+        section.title.toUpperCase(),
+        ...section.groups.flatMap((group) => [
+          ...(group.title ? [`${group.title}:`] : []),
+          ...group.rows.map(
+            (row) => `${group.title ? '  ' : ''}${row.quantity} × ${row.name}${row.details ? ` (${row.details})` : ''}`
+          ),
+        ]),
+      ].join('\n')
+    )
+    .join('\n\n')
+
+export function exportLootList(
+  lootTable: LootItem[],
+  recyclePlan: RecyclePlan,
+  allItemData: Record<string, Item>,
+  { format, groupByRarity }: ExportOptions
+): string {
+  const sections = buildSections(lootTable, recyclePlan, allItemData, groupByRarity)
+  switch (format) {
+    case 'csv':
+      return toCsv(sections)
+    case 'markdown':
+      return toMarkdown(sections)
+    case 'text':
+      return toText(sections)
+  }
+}
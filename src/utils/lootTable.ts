@@ -0,0 +1,227 @@
+// Crafting requirements for a loadout: what has to be looted to rebuild everything that is equipped.
+
+interface Item {
+  id: string
+  name: string
+  icon: string
+  isImage: boolean
+  recipe?: Record<string, number>
+  // Tier line items: what each tier adds, tier I first
+  tierCosts?: Record<string, number>[]
+  craftQuantity?: number
+  count?: number
+  modifications?: (Item | null)[]
+}
+
+interface LoadoutState {
+  augment: Item | null
+  shield: Item | null
+  weapons: (Item | null)[]
+  backpack: (Item | null)[]
+  quickUse: (Item | null)[]
+  extra: (Item | null)[]
+  safePocket: (Item | null)[]
+}
+
+export interface LootItem {
+  id: string
+  count: number
+  name: string
+  icon: string
+  isImage: boolean
+  // Amount covered by the stash, when one is in use
+  owned?: number
+}
+
+export interface CraftStep extends LootItem {
+  // Number of craft operations, each producing the item's craftQuantity
+  crafts: number
+  produced: number
+}
+
+export interface LootTableOptions {
+  // Expand intermediate components with their own recipes down to raw materials
+  breakDown?: boolean
+  // Quantities already owned, by item id
+  stash?: Record<string, number>
+  // Number of raids to plan for; items in lost sections are needed again every raid
+  raids?: number
+  // Sections expected to survive a raid, so they're only needed once
+  keptSections?: readonly LoadoutSection[]
+  // Tier already owned of an equipped tiered item, by the equipped item's id. One copy is then
+  // upgraded from that tier instead of crafted from scratch.
+  currentTiers?: Record<string, number>
+}
+
+export interface LootRequirements {
+  materials: Record<string, number>
+  // Stash quantities applied to each material, equipped item and intermediate
+  owned: Record<string, number>
+  crafts: Record<string, { needed: number; owned: number; crafts: number; produced: number }>
+}
+
+export const LOADOUT_SECTIONS = ['augment', 'shield', 'weapons', 'backpack', 'quickUse', 'extra', 'safePocket'] as const
+
+export type LoadoutSection = (typeof LOADOUT_SECTIONS)[number]
+
+// The safe pocket is the only part of a loadout that survives dying in a raid
+export const DEFAULT_KEPT_SECTIONS: readonly LoadoutSection[] = ['safePocket']
+
+const getSectionItems = (loadout: LoadoutState, section: LoadoutSection): (Item | null)[] => {
+  const value = loadout[section]
+  return Array.isArray(value) ? value : [value]
+}
+
+const addRecipe = (totals: Record<string, number>, recipe: Record<string, number>, times: number) => {
+  Object.entries(recipe).forEach(([id, count]) => {
+    totals[id] = (totals[id] || 0) + count * times
+  })
+}
+
+// Materials to bring a tiered item up from the tier already owned (0 for none) to its own tier.
+// Items outside a tier line always cost their full recipe.
+export const getUpgradeCost = (item: Item, currentTier: number): Record<string, number> => {
+  if (!item.tierCosts) return { ...item.recipe }
+  const totals: Record<string, number> = {}
+  item.tierCosts.slice(Math.max(0, currentTier)).forEach((costs) => addRecipe(totals, costs, 1))
+  return totals
+}
+
+// Total count of every equipped item and modification, by id, with each section scaled by
+// how many times it has to be rebuilt
+export const getEquippedCounts = (loadout: LoadoutState, getMultiplier: (section: LoadoutSection) => number) => {
+  const equipped: Record<string, { item: Item; count: number }> = {}
+
+  const addItem = (item: Item | null, multiplier: number) => {
+    if (!item) return
+    const entry = equipped[item.id] || { item, count: 0 }
+    entry.count += (item.count || 1) * multiplier
+    equipped[item.id] = entry
+
+    // Recurse for modifications
+    if (item.modifications) {
+      item.modifications.forEach((mod) => {
+        if (mod) addItem({ ...mod, count: 1 }, multiplier)
+      })
+    }
+  }
+
+  LOADOUT_SECTIONS.forEach((section) => {
+    const multiplier = getMultiplier(section)
+    getSectionItems(loadout, section).forEach((item) => addItem(item, multiplier))
+  })
+  return equipped
+}
+
+// Orders craftable ids so every item comes before its ingredients. Items that are part of a
+// recipe cycle can't be broken down and are returned separately so they're treated as raw.
+const getCraftOrder = (roots: string[], allItemData: Record<string, Item>) => {
+  const order: string[] = []
+  const cyclic = new Set<string>()
+  const state = new Map<string, 'visiting' | 'done'>()
+  const isCraftable = (id: string) => !!allItemData[id]?.recipe && Object.keys(allItemData[id].recipe!).length > 0
+
+  const visit = (id: string, path: string[]) => {
+    if (!isCraftable(id) || state.get(id) === 'done') return
+    if (state.get(id) === 'visiting') {
+      path.slice(path.indexOf(id)).forEach((cycleId) => cyclic.add(cycleId))
+      return
+    }
+    state.set(id, 'visiting')
+    Object.keys(allItemData[id].recipe!).forEach((ingredientId) => visit(ingredientId, [...path, id]))
+    state.set(id, 'done')
+    order.push(id)
+  }
+
+  roots.forEach((id) => visit(id, []))
+  if (cyclic.size > 0) console.warn('[LootTable] Recipe cycle detected, not breaking down:', [...cyclic].join(', '))
+  return { order: order.reverse().filter((id) => !cyclic.has(id)), cyclic }
+}
+
+export function computeLootRequirements(
+  loadout: LoadoutState,
+  allItemData: Record<string, Item>,
+  options: LootTableOptions = {}
+): LootRequirements {
+  const available: Record<string, number> = { ...options.stash }
+  const owned: Record<string, number> = {}
+  const takeFromStash = (id: string, amount: number) => {
+    const used = Math.min(available[id] || 0, amount)
+    if (used > 0) {
+      available[id] -= used
+      owned[id] = (owned[id] || 0) + used
+    }
+    return used
+  }
+
+  const raids = Math.max(1, Math.floor(options.raids || 1))
+  const keptSections = options.keptSections || DEFAULT_KEPT_SECTIONS
+  const getMultiplier = (section: LoadoutSection) => (keptSections.includes(section) ? 1 : raids)
+
+  // Owned finished items don't need crafting at all
+  const demand: Record<string, number> = {}
+  Object.entries(getEquippedCounts(loadout, getMultiplier)).forEach(([id, { item, count }]) => {
+    if (!item.recipe) return
+    let remaining = count - takeFromStash(id, count)
+    if (remaining <= 0) return
+    const currentTier = options.currentTiers?.[id] || 0
+    if (currentTier > 0 && item.tierCosts) {
+      addRecipe(demand, getUpgradeCost(item, currentTier), 1)
+      remaining -= 1
+    }
+    if (remaining > 0) addRecipe(demand, item.recipe, Math.ceil(remaining / (item.craftQuantity || 1)))
+  })
+
+  const crafts: LootRequirements['crafts'] = {}
+  if (options.breakDown) {
+    // Demand for an intermediate is fully known once all of its consumers have been processed,
+    // so crafts are rounded against the total rather than once per use
+    const { order } = getCraftOrder(Object.keys(demand), allItemData)
+    order.forEach((id) => {
+      const needed = demand[id]
+      if (!needed) return
+      const item = allItemData[id]
+      const ownedCount = takeFromStash(id, needed)
+      const craftQuantity = item.craftQuantity || 1
+      const numCrafts = Math.ceil((needed - ownedCount) / craftQuantity)
+      crafts[id] = { needed, owned: ownedCount, crafts: numCrafts, produced: numCrafts * craftQuantity }
+      delete demand[id]
+      if (numCrafts > 0) addRecipe(demand, item.recipe!, numCrafts)
+    })
+  }
+
+  // Owned materials are applied last, once the full demand is known
+  Object.entries(demand).forEach(([id, count]) => takeFromStash(id, count))
+
+  return { materials: demand, owned, crafts }
+}
+
+export const toLootItems = (
+  totals: Record<string, number>,
+  allItemData: Record<string, Item>,
+  owned?: Record<string, number>
+): LootItem[] =>
+  Object.entries(totals)
+    .map(([id, count]) => {
+      const item = allItemData[id]
+      const lootItem: LootItem = {
+        id,
+        count,
+        name: item?.name || id,
+        icon: item?.icon || '📦',
+        isImage: item?.isImage || false,
+      }
+      if (owned) lootItem.owned = owned[id] || 0
+      return lootItem
+    })
+    .sort((a, b) => b.count - a.count)
+
+// What is left to loot once the stash has been applied
+export const getStillNeeded = (lootItem: LootItem) => lootItem.count - (lootItem.owned || 0)
+
+export const toCraftSteps = (crafts: LootRequirements['crafts'], allItemData: Record<string, Item>): CraftStep[] =>
+  toLootItems(
+    Object.fromEntries(Object.entries(crafts).map(([id, step]) => [id, step.needed])),
+    allItemData,
+    Object.fromEntries(Object.entries(crafts).map(([id, step]) => [id, step.owned]))
+  ).map((lootItem) => ({ ...lootItem, crafts: crafts[lootItem.id].crafts, produced: crafts[lootItem.id].produced }))
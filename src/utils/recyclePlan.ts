@@ -0,0 +1,113 @@
+// Which recyclables to break down, and how many of each, to cover what is still missing from the
+// loot table with as few items as possible.
+
+import { LootItem, toLootItems } from './lootTable'
+
+interface Item {
+  id: string
+  name: string
+  category: string[]
+  icon: string
+  isImage: boolean
+  recyclesInto?: Record<string, number>
+}
+
+export interface RecycleStep {
+  id: string
+  name: string
+  icon: string
+  isImage: boolean
+  // Number of this item to recycle
+  count: number
+  // Materials the whole count recycles into
+  yields: LootItem[]
+}
+
+export interface RecyclePlan {
+  steps: RecycleStep[]
+  // Materials recycled beyond what is needed, including ones not needed at all
+  leftovers: LootItem[]
+  // Still missing after recycling; nothing recycles into them
+  uncovered: LootItem[]
+}
+
+const isRecyclable = (item: Item) => item.category.includes('Recyclable') && !!item.recyclesInto
+
+// Units of the shortfall one more recycle of the item would cover
+const getCoverage = (recyclesInto: Record<string, number>, remaining: Record<string, number>) =>
+  Object.entries(recyclesInto).reduce((sum, [id, count]) => sum + Math.min(count, remaining[id] || 0), 0)
+
+const getYieldTotal = (recyclesInto: Record<string, number>) =>
+  Object.values(recyclesInto).reduce((sum, count) => sum + count, 0)
+
+const addYields = (totals: Record<string, number>, recyclesInto: Record<string, number>, times: number) => {
+  Object.entries(recyclesInto).forEach(([id, count]) => {
+    totals[id] = (totals[id] || 0) + count * times
+  })
+}
+
+// Greedy set multicover: keep recycling whatever covers the most of what is still missing (least
+// waste on ties), then drop any recycle the rest of the plan turns out to cover anyway
+export function planRecycling(shortfall: Record<string, number>, allItemData: Record<string, Item>): RecyclePlan {
+  const remaining = Object.fromEntries(Object.entries(shortfall).filter(([, count]) => count > 0))
+  const candidates = Object.values(allItemData)
+    .filter(isRecyclable)
+    .filter((item) => Object.keys(item.recyclesInto!).some((id) => remaining[id]))
+    .sort((a, b) => a.id.localeCompare(b.id))
+  const counts: Record<string, number> = {}
+  const order: string[] = []
+
+  for (;;) {
+    let best: Item | null = null
+    let bestCoverage = 0
+    for (const item of candidates) {
+      const coverage = getCoverage(item.recyclesInto!, remaining)
+      if (coverage === 0 || coverage < bestCoverage) continue
+      if (coverage === bestCoverage && best && getYieldTotal(item.recyclesInto!) >= getYieldTotal(best.recyclesInto!)) continue
+      best = item
+      bestCoverage = coverage
+    }
+    if (!best) break
+
+    if (!counts[best.id]) order.push(best.id)
+    counts[best.id] = (counts[best.id] || 0) + 1
+    Object.entries(best.recyclesInto!).forEach(([id, count]) => {
+      if (remaining[id]) remaining[id] = Math.max(0, remaining[id] - count)
+    })
+  }
+
+  // Later picks can make earlier ones redundant; try removing recycles, earliest picks last
+  const produced: Record<string, number> = {}
+  order.forEach((id) => addYields(produced, allItemData[id].recyclesInto!, counts[id]))
+  const stillCovered = (recyclesInto: Record<string, number>) =>
+    Object.entries(recyclesInto).every(
+      ([id, count]) => !shortfall[id] || produced[id] - count >= Math.min(shortfall[id], produced[id])
+    )
+  ;[...order].reverse().forEach((id) => {
+    const recyclesInto = allItemData[id].recyclesInto!
+    while (counts[id] > 0 && stillCovered(recyclesInto)) {
+      counts[id] -= 1
+      addYields(produced, recyclesInto, -1)
+    }
+  })
+
+  const steps = order
+    .filter((id) => counts[id] > 0)
+    .map((id) => {
+      const item = allItemData[id]
+      const yields: Record<string, number> = {}
+      addYields(yields, item.recyclesInto!, counts[id])
+      return { id, name: item.name, icon: item.icon, isImage: item.isImage, count: counts[id], yields: toLootItems(yields, allItemData) }
+    })
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+
+  const leftovers: Record<string, number> = {}
+  const uncovered: Record<string, number> = {}
+  new Set([...Object.keys(produced), ...Object.keys(shortfall)]).forEach((id) => {
+    const difference = (produced[id] || 0) - Math.max(0, shortfall[id] || 0)
+    if (difference > 0) leftovers[id] = difference
+    else if (difference < 0) uncovered[id] = -difference
+  })
+
+  return { steps, leftovers: toLootItems(leftovers, allItemData), uncovered: toLootItems(uncovered, allItemData) }
+}
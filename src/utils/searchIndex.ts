@@ -0,0 +1,168 @@
+// Inventory search index, built once per item list so each keystroke only walks a word trie
+// instead of comparing the query against every word of every item. Results are ranked: whole
+// words first, then word prefixes, then other substrings, then typos (closest first).
+// The index lives in a worker, see workers/searchWorker.ts.
+
+import { matchesFilter, parseSearchQuery, SearchQuery, SearchTerm } from './searchQuery'
+
+interface Item {
+  id: string
+  name: string
+  category: string[]
+  rarity: string
+  recipe?: Record<string, number>
+  variants?: Item[]
+}
+
+type TextTerm = Extract<SearchTerm, { kind: 'text' }>
+
+interface TrieNode {
+  children: Map<string, TrieNode>
+  // Set when a word ends here
+  word?: string
+}
+
+interface IndexedItem {
+  item: Item
+  text: string
+  words: Set<string>
+}
+
+export interface SearchIndex {
+  // In inventory order, which breaks ties between equal scores
+  entries: IndexedItem[]
+  // Every distinct word of every entry
+  trie: TrieNode
+}
+
+const SCORE_WORD = 4
+const SCORE_PREFIX = 3
+const SCORE_SUBSTRING = 2
+const SCORE_TYPO = 1
+// Taken off the typo score per edit, so closer typos rank higher
+const TYPO_EDIT_PENALTY = 0.25
+
+// Words shorter than this never match with typos
+const MIN_TYPO_LENGTH = 3
+
+const getMaxEdits = (text: string) => (text.length > 5 ? 2 : 1)
+
+const getSearchText = (item: Item) =>
+  `${item.name} ${item.category.join(' ')} ${item.category.includes('Modification') ? 'attachment' : ''}`.toLowerCase()
+
+const addWord = (root: TrieNode, word: string) => {
+  let node = root
+  for (const char of word) {
+    let child = node.children.get(char)
+    if (!child) {
+      child = { children: new Map() }
+      node.children.set(char, child)
+    }
+    node = child
+  }
+  node.word = word
+}
+
+export function buildSearchIndex(items: Item[]): SearchIndex {
+  const trie: TrieNode = { children: new Map() }
+  const entries = items.map((item) => {
+    const text = getSearchText(item)
+    const words = new Set(text.split(/\s+/).filter(Boolean))
+    words.forEach((word) => addWord(trie, word))
+    return { item, text, words }
+  })
+  return { entries, trie }
+}
+
+// Words in the trie within maxEdits of the text, with their edit distance. Builds one Levenshtein
+// row per trie node and skips a branch as soon as every cell of its row is over the limit.
+const findTypoMatches = (root: TrieNode, text: string, maxEdits: number) => {
+  const matches = new Map<string, number>()
+
+  const visit = (node: TrieNode, char: string, previousRow: number[]) => {
+    const row = [previousRow[0] + 1]
+    let rowMin = row[0]
+    for (let i = 1; i <= text.length; i++) {
+      const cost = text[i - 1] === char ? 0 : 1
+      row[i] = Math.min(row[i - 1] + 1, previousRow[i] + 1, previousRow[i - 1] + cost)
+      rowMin = Math.min(rowMin, row[i])
+    }
+    const distance = row[text.length]
+    if (node.word !== undefined && distance <= maxEdits) matches.set(node.word, distance)
+    if (rowMin <= maxEdits) node.children.forEach((child, next) => visit(child, next, row))
+  }
+
+  const firstRow = Array.from({ length: text.length + 1 }, (_, i) => i)
+  root.children.forEach((child, char) => visit(child, char, firstRow))
+  return matches
+}
+
+// 0 when the entry doesn't match the term
+const scoreText = (entry: IndexedItem, term: TextTerm, typoMatches?: Map<string, number>) => {
+  if (entry.words.has(term.text)) return SCORE_WORD
+  if (entry.text.includes(term.text)) {
+    if (term.exact) return SCORE_WORD // Quoted phrases are only ever matched as written
+    return [...entry.words].some((word) => word.startsWith(term.text)) ? SCORE_PREFIX : SCORE_SUBSTRING
+  }
+  let closest = Infinity
+  typoMatches?.forEach((distance, word) => {
+    if (entry.words.has(word)) closest = Math.min(closest, distance)
+  })
+  return closest === Infinity ? 0 : SCORE_TYPO - closest * TYPO_EDIT_PENALTY
+}
+
+// Ids of the matching items, best match first
+export function querySearchIndex(index: SearchIndex, query: SearchQuery): string[] {
+  const typoMatches = new Map<string, Map<string, number>>()
+  query.terms.forEach((term) => {
+    // Negated words only exclude exact hits, so a typo can't hide unrelated items
+    if (term.kind !== 'text' || term.exact || term.negated || term.text.length < MIN_TYPO_LENGTH) return
+    if (!typoMatches.has(term.text)) {
+      typoMatches.set(term.text, findTypoMatches(index.trie, term.text, getMaxEdits(term.text)))
+    }
+  })
+
+  const results: { id: string; score: number; order: number }[] = []
+  index.entries.forEach((entry, order) => {
+    let score = 0
+    for (const term of query.terms) {
+      if (term.kind !== 'text') {
+        if (matchesFilter(entry.item, term) === term.negated) return
+        continue
+      }
+      if (term.negated) {
+        if (entry.text.includes(term.text)) return
+        continue
+      }
+      const termScore = scoreText(entry, term, typoMatches.get(term.text))
+      if (termScore === 0) return
+      score += termScore
+    }
+    results.push({ id: entry.item.id, score, order })
+  })
+
+  return results.sort((a, b) => b.score - a.score || a.order - b.order).map((result) => result.id)
+}
+
+// --- Worker protocol ---
+
+export type SearchRequest = { type: 'index'; items: Item[] } | { type: 'query'; id: number; search: string }
+
+export interface SearchResponse {
+  // The id of the query being answered
+  id: number
+  ids: string[]
+}
+
+// Holds the current index and answers requests; runs in the worker, or on the main thread where
+// workers aren't available
+export function createSearchHandler() {
+  let index = buildSearchIndex([])
+  return (request: SearchRequest): SearchResponse | null => {
+    if (request.type === 'index') {
+      index = buildSearchIndex(request.items)
+      return null
+    }
+    return { id: request.id, ids: querySearchIndex(index, parseSearchQuery(request.search)) }
+  }
+}
@@ -0,0 +1,258 @@
+// Inventory search: plain words (with typo tolerance), quoted phrases, negation and field filters
+// such as rarity:epic, cat:modification, uses:metal_parts and tier:>=3.
+
+import { getItemTier, TIERS } from './itemData'
+
+interface Item {
+  id: string
+  name: string
+  category: string[]
+  rarity: string
+  recipe?: Record<string, number>
+  variants?: Item[]
+}
+
+export type TierComparator = '=' | '>' | '>=' | '<' | '<='
+
+export type SearchTerm =
+  | { kind: 'text'; text: string; exact: boolean; negated: boolean }
+  | { kind: 'rarity' | 'category' | 'uses'; value: string; negated: boolean }
+  | { kind: 'tier'; comparator: TierComparator; tier: number; negated: boolean }
+
+export interface SearchQuery {
+  terms: SearchTerm[]
+  // Field filters that couldn't be read; they are left out of the query
+  errors: string[]
+}
+
+type SearchField = 'rarity' | 'category' | 'uses' | 'tier'
+
+// Every name a field can be written with, mapped to the field
+const FIELD_ALIASES: Record<string, SearchField> = {
+  rarity: 'rarity',
+  cat: 'category',
+  category: 'category',
+  uses: 'uses',
+  tier: 'tier',
+}
+
+// What the autocomplete offers, in order
+export const SEARCH_FIELDS: { name: string; description: string }[] = [
+  { name: 'rarity', description: 'Rarity, e.g. rarity:epic' },
+  { name: 'cat', description: 'Category, e.g. cat:modification' },
+  { name: 'uses', description: 'Needs a material to craft, e.g. uses:metal_parts' },
+  { name: 'tier', description: 'Tier, e.g. tier:>=3' },
+]
+
+// --- Parsing ---
+
+interface Token {
+  start: number
+  negated: boolean
+  // Text before the colon of a field filter, or null for plain words and phrases
+  field: string | null
+  value: string
+  quoted: boolean
+}
+
+// Splits on whitespace outside double quotes. An unclosed quote runs to the end of the input.
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++
+      continue
+    }
+    const start = i
+    let raw = ''
+    let quoted = false
+    while (i < input.length && !/\s/.test(input[i])) {
+      if (input[i] === '"') {
+        quoted = true
+        const end = input.indexOf('"', i + 1)
+        raw += input.slice(i + 1, end === -1 ? input.length : end)
+        i = end === -1 ? input.length : end + 1
+      } else {
+        raw += input[i++]
+      }
+    }
+
+    const negated = input[start] === '-'
+    const body = negated ? raw.slice(1) : raw
+    // Only a colon outside quotes makes a field filter
+    const field = input.slice(start + (negated ? 1 : 0)).match(/^([a-z]+):/i)?.[1]
+    tokens.push(
+      field
+        ? { start, negated, field: field.toLowerCase(), value: body.slice(field.length + 1), quoted }
+        : { start, negated, field: null, value: body, quoted }
+    )
+  }
+  return tokens
+}
+
+const parseTier = (value: string): { comparator: TierComparator; tier: number } | null => {
+  const match = value.trim().match(/^(>=|<=|>|<|=)?\s*(\d+|[iv]+)$/i)
+  if (!match) return null
+  const tierText = match[2].toLowerCase()
+  const tier = /^\d+$/.test(tierText) ? parseInt(tierText) : TIERS.indexOf(tierText) + 1
+  if (tier < 1) return null
+  return { comparator: (match[1] as TierComparator) || '=', tier }
+}
+
+export function parseSearchQuery(input: string): SearchQuery {
+  const query: SearchQuery = { terms: [], errors: [] }
+
+  tokenize(input).forEach(({ negated, field, value, quoted }) => {
+    const known = field ? FIELD_ALIASES[field] : undefined
+    if (field && !known) {
+      // Not a filter we know, so search for it as written
+      query.terms.push({ kind: 'text', text: `${field}:${value}`.toLowerCase(), exact: quoted, negated })
+      return
+    }
+
+    const text = value.trim().toLowerCase()
+    if (!text) return // Still being typed
+
+    if (known === 'tier') {
+      const tier = parseTier(text)
+      if (tier) query.terms.push({ kind: 'tier', ...tier, negated })
+      else query.errors.push(`"${value}" isn't a tier; try tier:3 or tier:>=2`)
+    } else if (known) {
+      query.terms.push({ kind: known, value: text, negated })
+    } else {
+      query.terms.push({ kind: 'text', text, exact: quoted, negated })
+    }
+  })
+
+  return query
+}
+
+// --- Filtering ---
+
+// Field filters; plain words and phrases are matched and ranked by the search index
+export type FilterTerm = Exclude<SearchTerm, { kind: 'text' }>
+
+const compareTier = (tier: number, comparator: TierComparator, target: number) => {
+  switch (comparator) {
+    case '>':
+      return tier > target
+    case '>=':
+      return tier >= target
+    case '<':
+      return tier < target
+    case '<=':
+      return tier <= target
+    default:
+      return tier === target
+  }
+}
+
+const normalizeId = (text: string) => text.replace(/\s+/g, '_')
+
+// Whether the item passes a field filter, ignoring negation
+export const matchesFilter = (item: Item, term: FilterTerm): boolean => {
+  // Tiered items match when any of their tiers does
+  const tiers = item.variants && item.variants.length > 0 ? item.variants : [item]
+  switch (term.kind) {
+    case 'rarity':
+      return tiers.some((tier) => tier.rarity.toLowerCase().startsWith(term.value))
+    case 'category':
+      return item.category.some((category) => category.toLowerCase().startsWith(term.value.replace(/_/g, ' ')))
+    case 'uses':
+      return tiers.some((tier) => Object.keys(tier.recipe || {}).some((id) => id.includes(normalizeId(term.value))))
+    case 'tier':
+      return tiers.some((tier) => compareTier(getItemTier(tier.id), term.comparator, term.tier))
+  }
+}
+
+// --- Autocomplete ---
+
+export interface SearchVocabulary {
+  rarities: string[]
+  categories: string[]
+  materials: { id: string; name: string }[]
+}
+
+export interface SearchSuggestion {
+  label: string
+  detail?: string
+  // The whole search input after picking this suggestion
+  value: string
+}
+
+const MAX_SUGGESTIONS = 8
+
+// Values the autocomplete can offer, gathered from the inventory
+export function buildSearchVocabulary(items: Item[], allItemData: Record<string, { name: string }>): SearchVocabulary {
+  const rarities = new Set<string>()
+  const categories = new Set<string>()
+  const materials = new Set<string>()
+  items.forEach((item) => {
+    item.category.forEach((category) => categories.add(category.toLowerCase()))
+    const tiers = item.variants && item.variants.length > 0 ? item.variants : [item]
+    tiers.forEach((tier) => {
+      rarities.add(tier.rarity.toLowerCase())
+      Object.keys(tier.recipe || {}).forEach((id) => materials.add(id))
+    })
+  })
+  return {
+    rarities: [...rarities].sort(),
+    categories: [...categories].sort(),
+    materials: [...materials].sort().map((id) => ({ id, name: allItemData[id]?.name || id })),
+  }
+}
+
+const quoteIfNeeded = (value: string) => (/\s/.test(value) ? `"${value}"` : value)
+
+// Suggestions for the token at the end of the input: field names while one is being typed,
+// then values for the field
+export function getSearchSuggestions(input: string, vocabulary: SearchVocabulary): SearchSuggestion[] {
+  const tokens = tokenize(input)
+  const last = tokens[tokens.length - 1]
+  const inOpenQuote = (input.match(/"/g) || []).length % 2 === 1
+  if (!last || (/\s$/.test(input) && !inOpenQuote)) {
+    if (input.trim()) return []
+    return SEARCH_FIELDS.map(({ name, description }) => ({ label: `${name}:`, detail: description, value: `${input}${name}:` }))
+  }
+
+  const before = input.slice(0, last.start) + (last.negated ? '-' : '')
+  const field = last.field ? FIELD_ALIASES[last.field] : undefined
+
+  if (!last.field) {
+    const partial = last.value.toLowerCase()
+    if (last.quoted || !partial) return []
+    return SEARCH_FIELDS.filter(({ name }) => name.startsWith(partial) && name !== partial).map(({ name, description }) => ({
+      label: `${name}:`,
+      detail: description,
+      value: `${before}${name}:`,
+    }))
+  }
+  if (!field) return []
+
+  const partial = last.value.toLowerCase()
+  const complete = (value: string, detail?: string) => ({
+    label: `${last.field}:${value}`,
+    detail,
+    value: `${before}${last.field}:${quoteIfNeeded(value)} `,
+  })
+
+  let suggestions: SearchSuggestion[] = []
+  if (field === 'rarity') {
+    suggestions = vocabulary.rarities.filter((rarity) => rarity.startsWith(partial)).map((rarity) => complete(rarity))
+  } else if (field === 'category') {
+    suggestions = vocabulary.categories.filter((category) => category.startsWith(partial)).map((category) => complete(category))
+  } else if (field === 'uses') {
+    suggestions = vocabulary.materials
+      .filter(({ id, name }) => id.includes(normalizeId(partial)) || name.toLowerCase().includes(partial))
+      .map(({ id, name }) => complete(id, name))
+  } else {
+    const comparator = partial.match(/^(>=|<=|>|<|=)?/)?.[0] || ''
+    const number = partial.slice(comparator.length)
+    suggestions = TIERS.map((_, i) => `${i + 1}`)
+      .filter((tier) => tier.startsWith(number))
+      .map((tier) => complete(`${comparator}${tier}`, `Tier ${TIERS[Number(tier) - 1].toUpperCase()}`))
+  }
+
+  return suggestions.filter((suggestion) => suggestion.value.trim() !== input.trim()).slice(0, MAX_SUGGESTIONS)
+}
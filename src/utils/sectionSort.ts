@@ -0,0 +1,82 @@
+// "Sort & Merge" for the grid sections: combines stacks of the same item, orders what's left and
+// moves the empty slots to the end.
+
+import { KNOWN_RARITIES } from './itemValidation'
+import { SLOT_RULES } from './slotRules'
+
+interface Item {
+  id: string
+  name: string
+  category: string[]
+  rarity?: string
+  stackSize?: number
+  count?: number
+}
+
+export type SortKey = 'category' | 'rarity' | 'name'
+
+export const SORT_KEYS: { key: SortKey; label: string }[] = [
+  { key: 'category', label: 'Category' },
+  { key: 'rarity', label: 'Rarity' },
+  { key: 'name', label: 'Name' },
+]
+
+export const SORTABLE_SECTIONS = ['backpack', 'quickUse', 'safePocket'] as const
+export type SortableSection = (typeof SORTABLE_SECTIONS)[number]
+
+// Categories in the order of the slot rules, unknown ones last
+const getCategoryRank = (item: Item) => {
+  const index = SLOT_RULES.findIndex((rule) => item.category.includes(rule.category))
+  return index === -1 ? SLOT_RULES.length : index
+}
+
+// Rarest first
+const getRarityRank = (item: Item) => {
+  const index = KNOWN_RARITIES.indexOf(item.rarity || '')
+  return index === -1 ? 0 : -index
+}
+
+const byCategory = (a: Item, b: Item) => getCategoryRank(a) - getCategoryRank(b)
+const byRarity = (a: Item, b: Item) => getRarityRank(a) - getRarityRank(b)
+const byName = (a: Item, b: Item) => a.name.localeCompare(b.name)
+
+// The chosen key first, the other two break ties
+const COMPARATORS: Record<SortKey, ((a: Item, b: Item) => number)[]> = {
+  category: [byCategory, byRarity, byName],
+  rarity: [byRarity, byCategory, byName],
+  name: [byName, byRarity],
+}
+
+// Pours same-id stacks into each other up to stackSize, keeping first-seen order
+const mergeStacks = <T extends Item>(items: T[]): T[] => {
+  const merged: T[] = []
+  items.forEach((item) => {
+    if (!item.stackSize) {
+      merged.push(item)
+      return
+    }
+    let remaining = item.count || 1
+    merged.forEach((stack, i) => {
+      if (remaining === 0 || stack.id !== item.id) return
+      const moved = Math.min(remaining, item.stackSize! - (stack.count || 1))
+      if (moved <= 0) return
+      merged[i] = { ...stack, count: (stack.count || 1) + moved }
+      remaining -= moved
+    })
+    if (remaining > 0) merged.push({ ...item, count: remaining })
+  })
+  return merged
+}
+
+// Returns a section of the same length: merged stacks, sorted, then the empty slots
+export function sortAndMerge<T extends Item>(section: (T | null)[], sortKey: SortKey): (T | null)[] {
+  const comparators = COMPARATORS[sortKey]
+  const sorted = mergeStacks(section.filter((item): item is T => item !== null)).sort((a, b) => {
+    for (const compare of comparators) {
+      const result = compare(a, b)
+      if (result !== 0) return result
+    }
+    return 0
+  })
+  return [...sorted, ...Array<T | null>(section.length - sorted.length).fill(null)]
+}
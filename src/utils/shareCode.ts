@@ -0,0 +1,234 @@
+// Compact, versioned share codes for loadout URLs.
+//
+// Layout (version 1), all integers are unsigned LEB128 varints:
+//   version byte
+//   title: byte length + UTF-8 bytes
+//   id dictionary: entry count, then byte length + UTF-8 bytes per id
+//   per section in SECTION_ORDER: slot count, then per slot
+//     0 for an empty slot, otherwise dictionary index + 1, count and the modification slots
+//     (modification count, then 0 or dictionary index + 1 each)
+// The bytes are encoded as URL-safe base64 without padding.
+//
+// Links from before share codes used base64 JSON of the serialized loadout, which always starts
+// with "{" and so can't be mistaken for a version byte.
+
+interface SerializedItem {
+  id: string
+  count?: number
+  modifications?: (SerializedItem | null)[]
+}
+
+interface SerializedLoadout {
+  title?: string
+  augment?: SerializedItem | null
+  shield?: SerializedItem | null
+  weapons?: (SerializedItem | null)[]
+  backpack?: (SerializedItem | null)[]
+  quickUse?: (SerializedItem | null)[]
+  extra?: (SerializedItem | null)[]
+  safePocket?: (SerializedItem | null)[]
+}
+
+export const SHARE_CODE_VERSION = 1
+
+const SECTION_ORDER = ['augment', 'shield', 'weapons', 'backpack', 'quickUse', 'extra', 'safePocket'] as const
+const LEGACY_JSON_FIRST_BYTE = '{'.charCodeAt(0)
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+// --- Bytes <-> URL-safe base64 ---
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = ''
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+// Accepts both alphabets so old percent-encoded standard base64 links still decode
+const fromBase64 = (code: string) => {
+  const normalized = code.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(normalized + '='.repeat((4 - (normalized.length % 4)) % 4))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+// --- Varint writer / reader ---
+
+class ByteWriter {
+  private bytes: number[] = []
+
+  uint(value: number) {
+    let remaining = Math.max(0, Math.floor(value))
+    while (remaining >= 0x80) {
+      this.bytes.push((remaining % 0x80) | 0x80)
+      remaining = Math.floor(remaining / 0x80)
+    }
+    this.bytes.push(remaining)
+  }
+
+  string(value: string) {
+    const encoded = textEncoder.encode(value)
+    this.uint(encoded.length)
+    encoded.forEach((byte) => this.bytes.push(byte))
+  }
+
+  byte(value: number) {
+    this.bytes.push(value & 0xff)
+  }
+
+  toBytes() {
+    return Uint8Array.from(this.bytes)
+  }
+}
+
+class ByteReader {
+  private offset = 0
+
+  constructor(private bytes: Uint8Array) {}
+
+  byte() {
+    if (this.offset >= this.bytes.length) throw new Error('Share code is truncated')
+    return this.bytes[this.offset++]
+  }
+
+  uint() {
+    let value = 0
+    let multiplier = 1
+    for (;;) {
+      const byte = this.byte()
+      value += (byte & 0x7f) * multiplier
+      if (byte < 0x80) return value
+      multiplier *= 0x80
+      if (multiplier > Number.MAX_SAFE_INTEGER) throw new Error('Share code contains an invalid number')
+    }
+  }
+
+  string() {
+    const length = this.uint()
+    if (this.offset + length > this.bytes.length) throw new Error('Share code is truncated')
+    const value = textDecoder.decode(this.bytes.subarray(this.offset, this.offset + length))
+    this.offset += length
+    return value
+  }
+}
+
+// --- Encoding ---
+
+const getSectionSlots = (loadout: SerializedLoadout, section: (typeof SECTION_ORDER)[number]) => {
+  if (section === 'augment' || section === 'shield') return loadout[section] ? [loadout[section]] : []
+  return loadout[section] || []
+}
+
+export function encodeShareCode(loadout: SerializedLoadout): string {
+  const dictionary: string[] = []
+  const indexes = new Map<string, number>()
+  const indexOf = (id: string) => {
+    if (!indexes.has(id)) {
+      indexes.set(id, dictionary.length)
+      dictionary.push(id)
+    }
+    return indexes.get(id)!
+  }
+
+  const body = new ByteWriter()
+  SECTION_ORDER.forEach((section) => {
+    const slots = getSectionSlots(loadout, section)
+    body.uint(slots.length)
+    slots.forEach((item) => {
+      if (!item) {
+        body.uint(0)
+        return
+      }
+      body.uint(indexOf(item.id) + 1)
+      body.uint(item.count || 1)
+      const modifications = item.modifications || []
+      body.uint(modifications.length)
+      modifications.forEach((mod) => body.uint(mod ? indexOf(mod.id) + 1 : 0))
+    })
+  })
+
+  const header = new ByteWriter()
+  header.byte(SHARE_CODE_VERSION)
+  header.string(loadout.title || '')
+  header.uint(dictionary.length)
+  dictionary.forEach((id) => header.string(id))
+
+  const headerBytes = header.toBytes()
+  const bodyBytes = body.toBytes()
+  const bytes = new Uint8Array(headerBytes.length + bodyBytes.length)
+  bytes.set(headerBytes)
+  bytes.set(bodyBytes, headerBytes.length)
+  return toBase64Url(bytes)
+}
+
+// --- Decoding ---
+
+const decodeVersion1 = (reader: ByteReader): SerializedLoadout => {
+  const result: SerializedLoadout = {}
+  const title = reader.string()
+  if (title) result.title = title
+
+  const dictionary = Array.from({ length: reader.uint() }, () => reader.string())
+  const lookup = (ref: number) => {
+    if (ref > dictionary.length) throw new Error('Share code references an unknown item index')
+    return dictionary[ref - 1]
+  }
+
+  SECTION_ORDER.forEach((section) => {
+    const slots: (SerializedItem | null)[] = []
+    const slotCount = reader.uint()
+    for (let i = 0; i < slotCount; i++) {
+      const ref = reader.uint()
+      if (ref === 0) {
+        slots.push(null)
+        continue
+      }
+      const item: SerializedItem = { id: lookup(ref) }
+      const count = reader.uint()
+      if (count > 1) item.count = count
+      const modificationCount = reader.uint()
+      if (modificationCount > 0) {
+        item.modifications = Array.from({ length: modificationCount }, () => {
+          const modRef = reader.uint()
+          return modRef === 0 ? null : { id: lookup(modRef), count: 1 }
+        })
+      }
+      slots.push(item)
+    }
+    if (slots.length === 0) return
+    if (section === 'augment' || section === 'shield') result[section] = slots[0]
+    else result[section] = slots
+  })
+
+  return result
+}
+
+// Accepts a full share link or a bare code, as pasted by a user
+export const extractShareCode = (input: string) => {
+  const trimmed = input.trim()
+  const match = trimmed.match(/\/loadout\/([^/?#]+)/)
+  return match ? match[1] : trimmed
+}
+
+// Decodes a share code or a legacy base64 JSON link segment. Throws on malformed input or an
+// unsupported version, e.g. a link made by a newer build.
+export function decodeShareCode(code: string): SerializedLoadout {
+  const bytes = fromBase64(decodeURIComponent(code))
+  if (bytes.length === 0) throw new Error('Share code is empty')
+
+  if (bytes[0] === LEGACY_JSON_FIRST_BYTE) {
+    // Legacy links were made with btoa, so each byte is one Latin-1 character
+    return JSON.parse(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''))
+  }
+
+  const reader = new ByteReader(bytes)
+  const version = reader.byte()
+  switch (version) {
+    case 1:
+      return decodeVersion1(reader)
+    default:
+      throw new Error(`Unsupported share code version ${version}`)
+  }
+}
@@ -0,0 +1,197 @@
+// Declarative slot compatibility rules. Which item categories go where lives in SLOT_RULES;
+// getEquipRejection evaluates them and explains why an item can't go into a slot.
+
+interface Item {
+  id: string
+  name: string
+  category: string[]
+  shieldCompatibility?: string[]
+  slots?: Record<string, number>
+  supportedModifications?: string[]
+}
+
+interface RuleLoadout {
+  augment: Item | null
+  weapons: (Item | null)[]
+}
+
+export type SlotSection = 'augment' | 'shield' | 'weapons' | 'backpack' | 'quickUse' | 'extra' | 'safePocket'
+
+// Extra checks a rule can require for a section, evaluated by CONDITIONS below
+export type SlotCondition = 'shieldCompatible'
+
+export interface SlotRule {
+  category: string
+  sections: SlotSection[]
+  conditions?: Partial<Record<SlotSection, SlotCondition>>
+}
+
+export const SLOT_RULES: SlotRule[] = [
+  { category: 'Augment', sections: ['augment'] },
+  { category: 'Shield', sections: ['shield', 'backpack', 'safePocket'], conditions: { shield: 'shieldCompatible' } },
+  { category: 'Weapon', sections: ['weapons', 'backpack'] },
+  { category: 'Ammunition', sections: ['backpack', 'safePocket'] },
+  { category: 'Modification', sections: ['backpack', 'safePocket'] },
+  { category: 'Quick Use', sections: ['backpack', 'quickUse', 'safePocket'] },
+  { category: 'Key', sections: ['backpack', 'safePocket'] },
+]
+
+export const SECTION_LABELS: Record<SlotSection, string> = {
+  augment: 'Augment',
+  shield: 'Shield',
+  weapons: 'Weapons',
+  backpack: 'Backpack',
+  quickUse: 'Quick Use',
+  extra: 'Augment Slots',
+  safePocket: 'Safe Pocket',
+}
+
+const SECTION_ORDER = Object.keys(SECTION_LABELS) as SlotSection[]
+
+// Augment slot keys, in the order their slots are laid out
+export const EXTRA_SLOT_TYPES = [
+  'trinket',
+  'grenade',
+  'utility',
+  'integrated_binoculars',
+  'integrated_shield_recharger',
+  'healing',
+]
+
+// Shield weights, read from the shield's id (e.g. heavy_shield) and matched against the
+// augment's shieldCompatibility. Ungated weights fit with any augment, or none.
+export const SHIELD_TYPES = ['light', 'medium', 'heavy']
+const UNGATED_SHIELD_TYPES = ['light']
+
+export interface ExtraSlotConfig {
+  types: string[]
+  count: number
+  slotTypes: string[]
+}
+
+export const getExtraSlotConfig = (augment: Item | null): ExtraSlotConfig => {
+  const config: ExtraSlotConfig = { types: [], count: 0, slotTypes: [] }
+  if (augment?.slots) {
+    for (const key of EXTRA_SLOT_TYPES) {
+      const count = augment.slots[key] || 0
+      if (count > 0) {
+        config.types.push(formatSlotType(key).toUpperCase())
+        config.count += count
+        for (let i = 0; i < count; i++) {
+          config.slotTypes.push(key)
+        }
+      }
+    }
+  }
+  return config
+}
+
+// Slot counts without an augment; an augment's slots field overrides them
+export const DEFAULT_SLOTS = {
+  backpack: 16,
+  quickUse: 3,
+  safePocket: 0,
+}
+
+const WEAPON_SLOTS = 2
+
+export type MultiSlotSection = 'weapons' | 'backpack' | 'quickUse' | 'extra' | 'safePocket'
+
+// How many slots each multi-slot section has with the given augment
+export const getSectionCapacity = (augment: Item | null): Record<MultiSlotSection, number> => ({
+  weapons: WEAPON_SLOTS,
+  backpack: augment?.slots?.backpack ?? DEFAULT_SLOTS.backpack,
+  quickUse: augment?.slots?.quick_use ?? DEFAULT_SLOTS.quickUse,
+  extra: getExtraSlotConfig(augment).count,
+  safePocket: augment?.slots?.safe_pocket ?? DEFAULT_SLOTS.safePocket,
+})
+
+const formatSlotType = (key: string) => key.replace(/_/g, ' ')
+
+const isIntegratedType = (type: string | undefined) => !!type?.startsWith('integrated_')
+
+export const isIntegratedSlot = (augment: Item | null, section: string, index: number) =>
+  section === 'extra' && isIntegratedType(getExtraSlotConfig(augment).slotTypes[index])
+
+export const getShieldType = (item: Item): string | null =>
+  item.id.split('_').find((part) => SHIELD_TYPES.includes(part)) ?? null
+
+const getShieldRejection = (shield: Item, augment: Item | null): string | null => {
+  const type = getShieldType(shield)
+  if (!type || UNGATED_SHIELD_TYPES.includes(type)) return null
+  if (augment?.shieldCompatibility?.includes(type)) return null
+  return augment ? `${augment.name} can't carry a ${type} shield` : `A ${type} shield needs a compatible augment`
+}
+
+// Shield weights an augment can carry, ungated ones included
+export const getCompatibleShieldTypes = (augment: Item | null): string[] =>
+  SHIELD_TYPES.filter((type) => UNGATED_SHIELD_TYPES.includes(type) || augment?.shieldCompatibility?.includes(type))
+
+export const isShieldCompatible = (shield: Item | null, augment: Item | null): boolean =>
+  !shield || getShieldRejection(shield, augment) === null
+
+const CONDITIONS: Record<SlotCondition, (loadout: RuleLoadout, item: Item) => string | null> = {
+  shieldCompatible: (loadout, item) => getShieldRejection(item, loadout.augment),
+}
+
+const joinLabels = (sections: SlotSection[]) => {
+  const labels = sections.map((section) => SECTION_LABELS[section])
+  return labels.length > 1 ? `${labels.slice(0, -1).join(', ')} or ${labels[labels.length - 1]}` : labels[0]
+}
+
+const getModSlotRejection = (loadout: RuleLoadout, item: Item, slotIndex: number, modIndex: number) => {
+  const weapon = loadout.weapons[slotIndex]
+  if (!weapon) return 'Equip a weapon first'
+  const requiredCategory = weapon.supportedModifications?.[modIndex]
+  if (!requiredCategory) return `${weapon.name} has no modification slot here`
+  if (!item.category.includes(requiredCategory)) return `Only ${requiredCategory} modifications fit here`
+  return null
+}
+
+const getExtraSlotRejection = (loadout: RuleLoadout, item: Item, slotIndex: number) => {
+  const type = slotIndex === -1 ? undefined : getExtraSlotConfig(loadout.augment).slotTypes[slotIndex]
+  if (!type) return 'No augment slot here'
+  if (isIntegratedType(type)) return 'Built into the augment'
+  if (!item.category.some((c) => c.toLowerCase() === formatSlotType(type))) {
+    return `Only ${formatSlotType(type)} items fit here`
+  }
+  return null
+}
+
+// Returns why `item` can't go into the slot, or null when it can. slotIndex is -1 for the
+// single-item sections; modIndex addresses a weapon's modification slot.
+export const getEquipRejection = (
+  loadout: RuleLoadout,
+  item: Item,
+  slotType: string,
+  slotIndex: number = -1,
+  modIndex: number = -1
+): string | null => {
+  if (slotType === 'weapons' && modIndex !== -1) return getModSlotRejection(loadout, item, slotIndex, modIndex)
+  if (slotType === 'extra') return getExtraSlotRejection(loadout, item, slotIndex)
+
+  const section = slotType as SlotSection
+  const rules = SLOT_RULES.filter((rule) => item.category.includes(rule.category))
+  if (rules.length === 0) return `${item.name} can't be equipped`
+
+  let conditionRejection: string | null = null
+  for (const rule of rules) {
+    if (!rule.sections.includes(section)) continue
+    const condition = rule.conditions?.[section]
+    const rejection = condition ? CONDITIONS[condition](loadout, item) : null
+    if (!rejection) return null
+    conditionRejection = conditionRejection ?? rejection
+  }
+  if (conditionRejection) return conditionRejection
+
+  const allowed = SECTION_ORDER.filter((s) => rules.some((rule) => rule.sections.includes(s)))
+  return `${rules[0].category} only fits in ${joinLabels(allowed)}`
+}
+
+export const canEquip = (
+  loadout: RuleLoadout,
+  item: Item,
+  slotType: string,
+  slotIndex: number = -1,
+  modIndex: number = -1
+) => getEquipRejection(loadout, item, slotType, slotIndex, modIndex) === null
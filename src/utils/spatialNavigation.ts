@@ -0,0 +1,48 @@
+// Arrow-key movement between elements laid out on screen, used for keyboard navigation across
+// loadout slots whose grid changes with the augment and the viewport.
+
+export type Direction = 'up' | 'down' | 'left' | 'right'
+
+export interface NavRect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+export const ARROW_DIRECTIONS: Record<string, Direction> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+}
+
+// Weight of the sideways offset against the distance travelled, so a slot straight ahead wins over
+// a nearer one off to the side
+const CROSS_AXIS_WEIGHT = 2
+
+const center = (rect: NavRect) => ({ x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 })
+
+// Returns the key of the closest candidate in the given direction, or null at the edge
+export function findNeighbor<K>(from: NavRect, candidates: { key: K; rect: NavRect }[], direction: Direction): K | null {
+  const origin = center(from)
+  let best: K | null = null
+  let bestScore = Infinity
+
+  candidates.forEach(({ key, rect }) => {
+    if (rect.width === 0 && rect.height === 0) return // Hidden
+    const target = center(rect)
+    const dx = target.x - origin.x
+    const dy = target.y - origin.y
+    const [distance, offset] = direction === 'left' || direction === 'right' ? [dx, dy] : [dy, dx]
+    const forward = direction === 'right' || direction === 'down' ? distance : -distance
+    if (forward <= 1) return
+    const score = forward + Math.abs(offset) * CROSS_AXIS_WEIGHT
+    if (score < bestScore) {
+      bestScore = score
+      best = key
+    }
+  })
+
+  return best
+}
@@ -0,0 +1,77 @@
+// Upgrade planner: for each equipped tiered item, what every remaining tier costs starting from the
+// tier already owned. The loot table applies the same current tiers through computeLootRequirements.
+
+import { getItemTier } from './itemData'
+import { getEquippedCounts, getUpgradeCost, LootItem, toLootItems } from './lootTable'
+
+interface Item {
+  id: string
+  name: string
+  icon: string
+  isImage: boolean
+  recipe?: Record<string, number>
+  tierCosts?: Record<string, number>[]
+  count?: number
+  modifications?: (Item | null)[]
+}
+
+interface LoadoutState {
+  augment: Item | null
+  shield: Item | null
+  weapons: (Item | null)[]
+  backpack: (Item | null)[]
+  quickUse: (Item | null)[]
+  extra: (Item | null)[]
+  safePocket: (Item | null)[]
+}
+
+export interface UpgradeStep {
+  // Tier reached by this step
+  tier: number
+  cost: LootItem[]
+}
+
+export interface UpgradePlan {
+  id: string
+  name: string
+  icon: string
+  isImage: boolean
+  tier: number
+  // Tier already owned, 0 when starting from nothing
+  currentTier: number
+  steps: UpgradeStep[]
+  total: LootItem[]
+}
+
+export function getUpgradePlan(
+  item: Item,
+  currentTier: number,
+  allItemData: Record<string, Item>
+): UpgradePlan {
+  const tier = getItemTier(item.id)
+  const fromTier = Math.max(0, Math.min(currentTier, tier))
+  return {
+    id: item.id,
+    name: item.name,
+    icon: item.icon,
+    isImage: item.isImage,
+    tier,
+    currentTier: fromTier,
+    steps: (item.tierCosts || [])
+      .map((costs, i) => ({ tier: i + 1, cost: toLootItems(costs, allItemData) }))
+      .slice(fromTier),
+    total: toLootItems(getUpgradeCost(item, fromTier), allItemData),
+  }
+}
+
+// Every equipped item that is tier II or above of a tier line, weapons and mods alike
+export function getUpgradePlans(
+  loadout: LoadoutState,
+  allItemData: Record<string, Item>,
+  currentTiers: Record<string, number>
+): UpgradePlan[] {
+  return Object.values(getEquippedCounts(loadout, () => 1))
+    .filter(({ item }) => item.tierCosts && item.tierCosts.length > 1)
+    .map(({ item }) => getUpgradePlan(item, currentTiers[item.id] || 0, allItemData))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
@@ -0,0 +1,55 @@
+// Links weapons to the ammunition they fire. Weapons name their ammo with ammoType in the item
+// data (e.g. "Light Ammo" or "light"); ammunition items are matched by their id with the trailing
+// "ammo" dropped, so light_ammo, "Light Ammo" and "light" all mean the same type.
+
+interface Item {
+  id: string
+  name: string
+  category: string[]
+  count?: number
+  ammoType?: string
+}
+
+interface AmmoLoadout {
+  weapons: (Item | null)[]
+  backpack: (Item | null)[]
+  safePocket: (Item | null)[]
+}
+
+export interface WeaponAmmo {
+  ammoType: string
+  // Display name, taken from a carried ammo item when there is one
+  label: string
+  // Rounds of the weapon's ammo carried in the backpack and safe pocket, shared between weapons
+  // that fire the same type
+  rounds: number
+}
+
+export const normalizeAmmoType = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[_\s-]+/g, ' ')
+    .replace(/\s*ammo$/, '')
+    .trim()
+
+export const getAmmoType = (item: Item): string | null => {
+  if (item.category.includes('Ammunition')) return normalizeAmmoType(item.id)
+  return item.ammoType ? normalizeAmmoType(item.ammoType) : null
+}
+
+export function getWeaponAmmo(loadout: AmmoLoadout): (WeaponAmmo | null)[] {
+  const carried = [...loadout.backpack, ...loadout.safePocket].filter(
+    (item): item is Item => !!item && item.category.includes('Ammunition')
+  )
+
+  return loadout.weapons.map((weapon) => {
+    const ammoType = weapon && getAmmoType(weapon)
+    if (!ammoType) return null
+    const matching = carried.filter((item) => getAmmoType(item) === ammoType)
+    return {
+      ammoType,
+      label: matching[0]?.name ?? weapon.ammoType!,
+      rounds: matching.reduce((sum, item) => sum + (item.count || 1), 0),
+    }
+  })
+}
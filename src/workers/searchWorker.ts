@@ -0,0 +1,14 @@
+// Keeps the inventory search index off the main thread. Receives the item list once after it
+// loads, then answers each query with the matching ids in rank order.
+
+import { createSearchHandler, SearchRequest } from '../utils/searchIndex'
+
+// The app compiles against the DOM lib, where self is a Window; inside a worker it has the
+// Worker-side postMessage and onmessage
+const scope = self as unknown as Worker
+const handleRequest = createSearchHandler()
+
+scope.onmessage = (e: MessageEvent<SearchRequest>) => {
+  const response = handleRequest(e.data)
+  if (response) scope.postMessage(response)
+}
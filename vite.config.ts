@@ -1,7 +1,41 @@
-import { defineConfig } from 'vite'
+import { defineConfig, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Source of the bundled item data snapshot, same as the app's default GitHub provider
+const SNAPSHOT_REPO = 'RohitMoni/arc-raiders-data'
+const SNAPSHOT_FILE_NAME = 'item-data-snapshot.json'
+
+// Emits item-data-snapshot.json (file name -> item JSON) into the build for the 'snapshot' item
+// source. The data is fetched at build time; without network access the build still succeeds and
+// the snapshot source reports the file as missing.
+function itemDataSnapshot(): Plugin {
+  return {
+    name: 'item-data-snapshot',
+    apply: 'build',
+    async generateBundle() {
+      try {
+        const listResponse = await fetch(`https://api.github.com/repos/${SNAPSHOT_REPO}/contents/items`)
+        if (!listResponse.ok) throw new Error(`GitHub contents API responded with ${listResponse.status}`)
+        const files = (await listResponse.json()) as { name: string; download_url: string }[]
+        const entries = await Promise.all(
+          files
+            .filter((file) => file.name.endsWith('.json'))
+            .map(async (file) => {
+              const response = await fetch(file.download_url)
+              if (!response.ok) throw new Error(`${file.name} responded with ${response.status}`)
+              return [file.name, await response.json()] as const
+            })
+        )
+        this.emitFile({ type: 'asset', fileName: SNAPSHOT_FILE_NAME, source: JSON.stringify(Object.fromEntries(entries)) })
+        console.log(`[ItemData] Bundled ${entries.length} items into ${SNAPSHOT_FILE_NAME}`)
+      } catch (e) {
+        this.warn(`Skipping ${SNAPSHOT_FILE_NAME}: ${e instanceof Error ? e.message : String(e)}`)
+      }
+    },
+  }
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), itemDataSnapshot()],
 })